@@ -0,0 +1,316 @@
+import { BotLevel, BotPlayer, createBot, runBotTurn } from '../src/game/BotPlayer';
+import { Game } from '../src/game/Game';
+import { Match, MatchSettings } from '../src/game/Match';
+import { GameCommand } from '../src/game/GameCommand';
+import { GameView } from '../src/game/GameView';
+import { GameValidator, ValidationResult } from '../src/game/GameValidator';
+
+export type StateListener = (state: GameView) => void;
+
+export interface SeatInfo {
+  id: string;
+  displayName: string;
+  bot?: BotLevel; // Seat played by the server
+}
+
+interface GameSession {
+  game: Game;
+  match?: Match;
+  bots: Map<string, BotPlayer>; // playerId -> strategy for bot seats
+  listeners: Map<string, Set<StateListener>>; // playerId -> listeners
+  spectators: Set<StateListener>; // Listeners of users watching without a seat
+  queue: Promise<unknown>;
+  savedVersion?: number; // stateVersion of the game in storage, unset until it is first saved
+}
+
+// Hosts the authoritative Game for every room. Clients only send intent
+// commands; the service validates them, applies them and pushes the new
+// state to each subscribed player and spectator once it is saved. Bot seats
+// are played right after the command that hands them the turn.
+export class GameService {
+  private sessions = new Map<string, GameSession>();
+  private autoPlayer = createBot('autoPlay');
+
+  // Create and start a new game for a room (replaces any finished game).
+  // Pass a seed to reproduce an earlier deal.
+  createGame(roomId: string, seats: SeatInfo[], seed?: number): Game {
+    const game = new Game(seats.map(seat => seat.id), seats.map(seat => seat.displayName), seed);
+    game.start();
+    this.restoreGame(roomId, game, undefined, seats);
+    return game;
+  }
+
+  // Create a match for a room and deal its first round
+  createMatch(roomId: string, seats: SeatInfo[], settings?: MatchSettings, seed?: number): Match {
+    const match = new Match(seats.map(seat => seat.id), seats.map(seat => seat.displayName), settings);
+    this.restoreGame(roomId, match.startNextRound(seed), match, seats);
+    return match;
+  }
+
+  // Deal the next round of the room's match
+  startNextRound(roomId: string, seed?: number): Game {
+    const match = this.getMatch(roomId);
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    const game = match.startNextRound(seed);
+    this.restoreGame(roomId, game, match, this.sessions.get(roomId)?.bots);
+    return game;
+  }
+
+  // Host an existing game, e.g. one loaded from storage after a restart.
+  // Bots are taken from the seats (or reused from an earlier round).
+  restoreGame(roomId: string, game: Game, match?: Match, seats: SeatInfo[] | Map<string, BotPlayer> = []): void {
+    const existing = this.sessions.get(roomId);
+    const bots = seats instanceof Map
+      ? seats
+      : new Map(seats.filter(seat => seat.bot).map(seat => [seat.id, createBot(seat.bot!)]));
+
+    this.sessions.set(roomId, {
+      game,
+      match,
+      bots,
+      listeners: existing?.listeners ?? new Map(),
+      spectators: existing?.spectators ?? new Set(),
+      queue: Promise.resolve(),
+      savedVersion: undefined
+    });
+  }
+
+  getGame(roomId: string): Game | undefined {
+    return this.sessions.get(roomId)?.game;
+  }
+
+  getMatch(roomId: string): Match | undefined {
+    return this.sessions.get(roomId)?.match;
+  }
+
+  hasGame(roomId: string): boolean {
+    return this.sessions.has(roomId);
+  }
+
+  getRoomIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  // stateVersion the room's game was last loaded or saved at
+  getSavedVersion(roomId: string): number | undefined {
+    return this.sessions.get(roomId)?.savedVersion;
+  }
+
+  // Record that storage now holds the game at this stateVersion, and push it
+  markSaved(roomId: string, version: number): void {
+    const session = this.sessions.get(roomId);
+    if (!session) return;
+
+    session.savedVersion = version;
+    this.broadcast(roomId);
+  }
+
+  // Stop hosting a room's game, e.g. when its first game could not be saved
+  closeGame(roomId: string): void {
+    this.sessions.delete(roomId);
+  }
+
+  // Get the redacted view pushed to a single player
+  getStateFor(roomId: string, playerId: string): GameView | undefined {
+    const session = this.sessions.get(roomId);
+    if (!session || !session.game.getPlayer(playerId)) return undefined;
+
+    const view = session.game.getViewFor(playerId);
+    return session.match ? { ...view, match: session.match.getView() } : view;
+  }
+
+  // Get the view pushed to spectators: every hand stays hidden until the
+  // round is over, then all of them are shown
+  getSpectatorState(roomId: string): GameView | undefined {
+    const session = this.sessions.get(roomId);
+    if (!session) return undefined;
+
+    const view = session.game.getViewFor(undefined, session.game.isFinished());
+    return session.match ? { ...view, match: session.match.getView() } : view;
+  }
+
+  // Validate and apply a command. Commands for the same room run one at a time.
+  handleCommand(roomId: string, playerId: string, command: GameCommand): Promise<ValidationResult> {
+    const session = this.sessions.get(roomId);
+    if (!session) {
+      return Promise.resolve({ valid: false, error: 'Game tidak ditemukan' });
+    }
+
+    if (session.bots.has(playerId)) {
+      return Promise.resolve({ valid: false, error: 'Kursi ini dimainkan oleh bot' });
+    }
+
+    const run = async (): Promise<ValidationResult> => {
+      const result = await this.applyCommand(session, playerId, command);
+      if (result.valid) {
+        await this.playBotTurns(roomId, session);
+      }
+      return result;
+    };
+
+    const result = session.queue.then(run, run);
+    session.queue = result;
+    return result;
+  }
+
+  // Mark a player online or offline and push the change
+  setConnected(roomId: string, playerId: string, connected: boolean): void {
+    const session = this.sessions.get(roomId);
+    if (session?.game.setPlayerConnected(playerId, connected)) {
+      this.broadcast(roomId);
+    }
+  }
+
+  // Play the turn of a player who ran out of time, or who is offline and
+  // has not moved for graceMs, so the rest of the table is not stuck.
+  // Resolves whether the game changed.
+  autoPlayTurn(roomId: string, graceMs: number): Promise<boolean> {
+    const session = this.sessions.get(roomId);
+    if (!session) return Promise.resolve(false);
+
+    const run = async (): Promise<boolean> => {
+      const { game } = session;
+      if (!game.hasTurnTimedOut() && !game.isCurrentPlayerAway(graceMs)) return false;
+
+      const version = game.getStateVersion();
+      const playerId = game.getCurrentPlayer().id;
+      try {
+        await runBotTurn(
+          this.autoPlayer,
+          () => game.getViewFor(playerId),
+          command => this.applyCommand(session, playerId, command)
+        );
+        await this.playBotTurns(roomId, session);
+      } catch (err) {
+        console.error(`Could not play the turn of ${playerId} in room ${roomId}:`, err);
+      }
+      return game.getStateVersion() !== version;
+    };
+
+    const result = session.queue.then(run, run);
+    session.queue = result;
+    return result;
+  }
+
+  // Play bot turns, e.g. when a bot opens a new round
+  runBots(roomId: string): Promise<void> {
+    const session = this.sessions.get(roomId);
+    if (!session) return Promise.resolve();
+
+    const run = () => this.playBotTurns(roomId, session);
+    const result = session.queue.then(run, run);
+    session.queue = result;
+    return result;
+  }
+
+  private async applyCommand(
+    session: GameSession,
+    playerId: string,
+    command: GameCommand
+  ): Promise<ValidationResult> {
+    const validation = GameValidator.validateCommand(session.game, playerId, command);
+    if (!validation.valid) return validation;
+
+    try {
+      await session.game.applyCommand(playerId, command);
+    } catch (err: any) {
+      return { valid: false, error: err.message };
+    }
+
+    // Score the round as soon as it ends
+    if (session.game.isFinished() && session.match?.getStatus() === 'playing') {
+      session.match.completeRound();
+    }
+
+    return { valid: true };
+  }
+
+  // Let bots move until it is a human's turn or the game is over
+  private async playBotTurns(roomId: string, session: GameSession): Promise<void> {
+    while (session.game.isPlaying()) {
+      const botId = session.game.getCurrentPlayer().id;
+      const bot = session.bots.get(botId);
+      if (!bot) return;
+
+      try {
+        await runBotTurn(
+          bot,
+          () => session.game.getViewFor(botId),
+          command => this.applyCommand(session, botId, command)
+        );
+      } catch (err) {
+        console.error(`Bot ${botId} is stuck in room ${roomId}:`, err);
+        return;
+      }
+    }
+  }
+
+  // Subscribe a player to state pushes for a room
+  subscribe(roomId: string, playerId: string, listener: StateListener): () => void {
+    let session = this.sessions.get(roomId);
+    if (!session) {
+      throw new Error('Game not found');
+    }
+
+    if (!session.listeners.has(playerId)) {
+      session.listeners.set(playerId, new Set());
+    }
+    session.listeners.get(playerId)!.add(listener);
+
+    const state = this.getStateFor(roomId, playerId);
+    if (state && this.isSaved(session)) listener(state);
+
+    return () => {
+      session = this.sessions.get(roomId);
+      session?.listeners.get(playerId)?.delete(listener);
+    };
+  }
+
+  // Subscribe a spectator to state pushes for a room
+  watch(roomId: string, listener: StateListener): () => void {
+    let session = this.sessions.get(roomId);
+    if (!session) {
+      throw new Error('Game not found');
+    }
+
+    session.spectators.add(listener);
+    if (this.isSaved(session)) listener(this.getSpectatorState(roomId)!);
+
+    return () => {
+      session = this.sessions.get(roomId);
+      session?.spectators.delete(listener);
+    };
+  }
+
+  // Whether storage holds the room's game as it is hosted
+  isStateSaved(roomId: string): boolean {
+    const session = this.sessions.get(roomId);
+    return !!session && this.isSaved(session);
+  }
+
+  // Only a state storage holds is pushed, so no client sees or plays on a
+  // change a restart would lose
+  private isSaved(session: GameSession): boolean {
+    return session.savedVersion === session.game.getStateVersion();
+  }
+
+  // Push the latest saved state to every subscribed player and spectator
+  private broadcast(roomId: string): void {
+    const session = this.sessions.get(roomId);
+    if (!session || !this.isSaved(session)) return;
+
+    session.listeners.forEach((listeners, playerId) => {
+      const state = this.getStateFor(roomId, playerId);
+      if (!state) return;
+      listeners.forEach(listener => listener(state));
+    });
+
+    if (session.spectators.size > 0) {
+      const state = this.getSpectatorState(roomId)!;
+      session.spectators.forEach(listener => listener(state));
+    }
+  }
+}
@@ -0,0 +1,6 @@
+// An error answered with its HTTP status and message
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,77 @@
+// Heartbeat-based presence. Clients send a beat every few seconds while a
+// room is open; a player whose last beat is older than the timeout is
+// offline until the next one arrives. Bot seats are never watched.
+
+export interface PresenceChange {
+  roomId: string;
+  playerId: string;
+  connected: boolean;
+}
+
+interface PresenceEntry {
+  lastSeen: number;
+  connected: boolean;
+}
+
+export class PresenceTracker {
+  private rooms = new Map<string, Map<string, PresenceEntry>>(); // roomId -> playerId -> entry
+
+  constructor(private readonly timeoutMs: number) {}
+
+  isWatching(roomId: string, playerId: string): boolean {
+    return !!this.rooms.get(roomId)?.has(playerId);
+  }
+
+  // Online state of a watched player
+  isConnected(roomId: string, playerId: string): boolean | undefined {
+    return this.rooms.get(roomId)?.get(playerId)?.connected;
+  }
+
+  // Start the clock for players without a beat yet (e.g. after a restart),
+  // from the online state stored for them
+  watch(roomId: string, players: { id: string; connected: boolean }[], now: number = Date.now()): void {
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, new Map());
+    }
+
+    const entries = this.rooms.get(roomId)!;
+    players.forEach(player => {
+      if (!entries.has(player.id)) {
+        entries.set(player.id, { lastSeen: now, connected: player.connected });
+      }
+    });
+  }
+
+  // Record a beat; returns the change when the player was offline
+  beat(roomId: string, playerId: string, now: number = Date.now()): PresenceChange | undefined {
+    this.watch(roomId, [{ id: playerId, connected: false }], now);
+
+    const entry = this.rooms.get(roomId)!.get(playerId)!;
+    entry.lastSeen = now;
+    if (entry.connected) return undefined;
+
+    entry.connected = true;
+    return { roomId, playerId, connected: true };
+  }
+
+  // Take players without a beat for the timeout offline. A room is
+  // forgotten once nobody in it is online.
+  sweep(now: number = Date.now()): PresenceChange[] {
+    const changes: PresenceChange[] = [];
+
+    this.rooms.forEach((entries, roomId) => {
+      entries.forEach((entry, playerId) => {
+        if (entry.connected && now - entry.lastSeen > this.timeoutMs) {
+          entry.connected = false;
+          changes.push({ roomId, playerId, connected: false });
+        }
+      });
+
+      if ([...entries.values()].every(entry => !entry.connected)) {
+        this.rooms.delete(roomId);
+      }
+    });
+
+    return changes;
+  }
+}
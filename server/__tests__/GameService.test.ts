@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameService } from '../GameService';
+import { Meld } from '../../src/game/Card';
+import { Game } from '../../src/game/Game';
+import { DEFAULT_RULE_SET, RuleSet } from '../../src/game/RuleSet';
+import { arrangeGame, cards } from '../../src/game/__tests__/fixtures';
+
+const TIMED_RULES: RuleSet = { ...DEFAULT_RULE_SET, turnTimeLimit: 10, timeBank: 0 };
+// Long enough that no turn here is played for being offline
+const GRACE_MS = 3600000;
+
+describe('GameService.autoPlayTurn', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const hostGame = (game: Game): GameService => {
+    const service = new GameService();
+    service.restoreGame('room', game);
+    service.markSaved('room', game.getStateVersion());
+    return service;
+  };
+
+  it('leaves a turn alone until it times out', async () => {
+    const service = hostGame(arrangeGame({ hands: [cards('2h', 'Kc', '9d'), cards('3s', '8h', 'Kd')], rules: TIMED_RULES }));
+
+    vi.advanceTimersByTime(10000 - 1);
+
+    expect(await service.autoPlayTurn('room', GRACE_MS)).toBe(false);
+    expect(service.getGame('room')!.getCurrentPlayer().id).toBe('p1');
+  });
+
+  it('plays the turn of a player who ran out of time', async () => {
+    const game = arrangeGame({
+      hands: [cards('2h', 'Kc', '9d'), cards('3s', '8h', 'Kd')],
+      deck: cards('4s', '5s', '6s'),
+      rules: TIMED_RULES
+    });
+    const service = hostGame(game);
+
+    vi.advanceTimersByTime(10000);
+
+    expect(await service.autoPlayTurn('room', GRACE_MS)).toBe(true);
+    expect(game.getCurrentPlayer().id).toBe('p2');
+    expect(game.getDiscardPile().getTopCard()?.rank).toBe('K');
+  });
+
+  it('ends a timed-out turn whose card from the discard pile only fits a meld on the table', async () => {
+    const data = arrangeGame({
+      hands: [cards('2c', '9d', 'Ks'), cards('3s', '8h', 'Kd')],
+      discardPile: cards('7h'),
+      rules: TIMED_RULES
+    }).getData();
+    data.players[0].hasLaidRun = true;
+    data.players[0].melds = [new Meld('run', cards('Ac', 'Ad', 'As'), 'p1', 'meld-1')];
+    data.players[1].melds = [new Meld('run', cards('4h', '5h', '6h'), 'p2', 'meld-2')];
+    const game = Game.fromData(data);
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: true, count: 1 });
+    const service = hostGame(game);
+
+    vi.advanceTimersByTime(10000);
+
+    expect(await service.autoPlayTurn('room', GRACE_MS)).toBe(true);
+    expect(game.findMeld('meld-2')?.cards).toHaveLength(4);
+    expect(game.getCurrentPlayer().id).toBe('p2');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { PresenceTracker } from '../Presence';
+
+const TIMEOUT_MS = 25000;
+
+describe('PresenceTracker', () => {
+  it('reports a beat only when it brings a player back online', () => {
+    const presence = new PresenceTracker(TIMEOUT_MS);
+    presence.watch('room', [{ id: 'p1', connected: true }, { id: 'p2', connected: false }], 0);
+
+    expect(presence.beat('room', 'p1', 1000)).toBeUndefined();
+    expect(presence.beat('room', 'p2', 1000)).toEqual({ roomId: 'room', playerId: 'p2', connected: true });
+    expect(presence.isConnected('room', 'p2')).toBe(true);
+  });
+
+  it('keeps the clock of players it already watches', () => {
+    const presence = new PresenceTracker(TIMEOUT_MS);
+    presence.watch('room', [{ id: 'p1', connected: true }], 0);
+    presence.watch('room', [{ id: 'p1', connected: true }], TIMEOUT_MS);
+
+    expect(presence.sweep(TIMEOUT_MS + 1)).toEqual([{ roomId: 'room', playerId: 'p1', connected: false }]);
+  });
+
+  it('takes silent players offline after the timeout', () => {
+    const presence = new PresenceTracker(TIMEOUT_MS);
+    presence.watch('room', [{ id: 'p1', connected: true }, { id: 'p2', connected: true }], 0);
+    presence.beat('room', 'p2', 20000);
+
+    expect(presence.sweep(TIMEOUT_MS)).toEqual([]);
+    expect(presence.sweep(TIMEOUT_MS + 1)).toEqual([{ roomId: 'room', playerId: 'p1', connected: false }]);
+    expect(presence.isConnected('room', 'p1')).toBe(false);
+    expect(presence.isConnected('room', 'p2')).toBe(true);
+  });
+
+  it('forgets a room once nobody in it is online', () => {
+    const presence = new PresenceTracker(TIMEOUT_MS);
+    presence.watch('room', [{ id: 'p1', connected: true }], 0);
+
+    presence.sweep(TIMEOUT_MS + 1);
+
+    expect(presence.isWatching('room', 'p1')).toBe(false);
+    expect(presence.beat('room', 'p1', TIMEOUT_MS + 2)).toEqual({ roomId: 'room', playerId: 'p1', connected: true });
+  });
+});
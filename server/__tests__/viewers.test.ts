@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { GameService } from '../GameService';
+import { HttpError } from '../HttpError';
+import { getViewerRole, getViewerState, subscribeViewer } from '../viewers';
+import { Game } from '../../src/game/Game';
+import { GameView } from '../../src/game/GameView';
+import { arrangeGame, card, cards, handIds, joker } from '../../src/game/__tests__/fixtures';
+
+// p1 can go out: draw, lay 4h-Jd-Js and discard 9c (Rul-004)
+const closingGame = (): Game => arrangeGame({
+  hands: [[card('4h'), joker('Jd'), joker('Js'), card('9c')], cards('3s', 'Ah', 'Kd')],
+  jokerValue: 'J',
+  deck: cards('2c', '3c')
+});
+
+const hostGame = (game: Game): GameService => {
+  const service = new GameService();
+  service.restoreGame('room', game);
+  service.markSaved('room', game.getStateVersion());
+  return service;
+};
+
+const spectatorIds = async () => ['watcher'];
+const handsShown = (view: GameView | undefined) => view?.players.map(player => player.hand !== undefined);
+
+describe('viewers', () => {
+  it('shows a spectator no hand while the round is played', async () => {
+    const service = hostGame(closingGame());
+    const pushed: GameView[] = [];
+
+    const role = await getViewerRole(service, 'room', 'watcher', spectatorIds);
+    subscribeViewer(service, 'room', 'watcher', role, state => pushed.push(state));
+
+    expect(role).toBe('spectator');
+    expect(handsShown(getViewerState(service, 'room', 'watcher', role))).toEqual([false, false]);
+    expect(handsShown(pushed[0])).toEqual([false, false]);
+  });
+
+  it('shows a spectator every hand once the round is over', async () => {
+    const game = closingGame();
+    const service = hostGame(game);
+    const pushed: GameView[] = [];
+    subscribeViewer(service, 'room', 'watcher', 'spectator', state => pushed.push(state));
+
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: false });
+    await game.applyCommand('p1', { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+    await game.applyCommand('p1', { type: 'discard', cardId: handIds(game, '9c')[0] });
+    service.markSaved('room', game.getStateVersion());
+
+    expect(game.isFinished()).toBe(true);
+    expect(handsShown(getViewerState(service, 'room', 'watcher', 'spectator'))).toEqual([true, true]);
+    expect(handsShown(pushed[pushed.length - 1])).toEqual([true, true]);
+  });
+
+  it('shows a player their own hand only', async () => {
+    const service = hostGame(closingGame());
+
+    const role = await getViewerRole(service, 'room', 'p2', spectatorIds);
+
+    expect(role).toBe('player');
+    expect(handsShown(getViewerState(service, 'room', 'p2', role))).toEqual([false, true]);
+  });
+
+  it('serves no state that storage does not hold yet', async () => {
+    const game = closingGame();
+    const service = hostGame(game);
+
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: false });
+
+    expect(getViewerState(service, 'room', 'p1', 'player')).toBeUndefined();
+    expect(getViewerState(service, 'room', 'watcher', 'spectator')).toBeUndefined();
+
+    service.markSaved('room', game.getStateVersion());
+
+    expect(getViewerState(service, 'room', 'p1', 'player')?.stateVersion).toBe(game.getStateVersion());
+  });
+
+  it('tells a user who neither plays nor watches that there is no game', async () => {
+    const service = hostGame(closingGame());
+
+    const denied = getViewerRole(service, 'room', 'stranger', spectatorIds);
+
+    await expect(denied).rejects.toBeInstanceOf(HttpError);
+    await expect(denied).rejects.toMatchObject({ status: 404 });
+    await expect(getViewerRole(service, 'other-room', 'watcher', spectatorIds)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,60 @@
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { BotLevel } from '../src/game/BotPlayer';
+import { MatchData } from '../src/game/Match';
+
+// Firebase Admin uses Application Default Credentials
+// (GOOGLE_APPLICATION_CREDENTIALS) so the server can bypass client rules
+const app = initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID
+});
+
+export const adminAuth = getAuth(app);
+export const adminDb = getFirestore(app);
+
+export interface RoomPlayer {
+  id: string;
+  displayName: string;
+  ready: boolean;
+  connected: boolean;
+  bot?: BotLevel;
+}
+
+export interface RoomRecord {
+  id: string;
+  hostId: string;
+  status: string;
+  players: RoomPlayer[];
+  spectatorIds?: string[]; // Users watching the room without a seat
+  maxPlayers: number;
+  botIds?: string[]; // Seats the host filled with bots in the lobby
+  botSeats?: Record<string, BotLevel>; // Bot seats of the game, written by the server only
+  gameStarted: boolean;
+  gameId?: string;
+  match?: MatchData;
+}
+
+// Verify a Firebase ID token and return the caller's uid
+export const verifyIdToken = async (token: string): Promise<string> => {
+  const decoded = await adminAuth.verifyIdToken(token);
+  return decoded.uid;
+};
+
+export const getRoom = async (roomId: string): Promise<RoomRecord | undefined> => {
+  const roomSnap = await adminDb.collection('rooms').doc(roomId).get();
+  if (!roomSnap.exists) return undefined;
+  return roomSnap.data() as RoomRecord;
+};
+
+// Change the room's players in a transaction, so a join or a ready toggle
+// made at the same time is kept
+export const updateRoomPlayers = async (roomId: string, update: (players: RoomPlayer[]) => RoomPlayer[]): Promise<void> => {
+  const roomRef = adminDb.collection('rooms').doc(roomId);
+  await adminDb.runTransaction(async tx => {
+    const roomSnap = await tx.get(roomRef);
+    if (!roomSnap.exists) return;
+    tx.update(roomRef, { players: update((roomSnap.data() as RoomRecord).players) });
+  });
+};
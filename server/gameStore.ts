@@ -0,0 +1,78 @@
+import { adminDb } from './firebaseAdmin';
+import { Game, GameData } from '../src/game/Game';
+import { migrateGameData, parseGameData } from '../src/game/GameSchema';
+import { Match } from '../src/game/Match';
+
+// Storage layout keeps hidden data out of documents clients can read:
+//
+//   rooms/{roomId}                 public view (`game`) and match scores (`match`) - read by the room
+//   rooms/{roomId}/hands/{uid}     one player's hand - read by that player
+//   games/{gameId}                 full GameData incl. deck and event log - server only
+//
+// Firestore rules deny client access to `games` and to other players' hands.
+
+// A save based on a version of the game that is no longer the stored one
+export class StaleGameError extends Error {
+  constructor(readonly gameId: string, readonly expectedVersion: number | undefined, readonly storedVersion: number | undefined) {
+    super(`Game ${gameId} is at stateVersion ${storedVersion ?? 'none'}, expected ${expectedVersion ?? 'none'}`);
+    this.name = 'StaleGameError';
+  }
+}
+
+export interface SaveOptions {
+  expectedVersion?: number; // stateVersion the game was loaded or last saved at; leave out for a new game
+  room?: Record<string, unknown>; // Other room fields written with the game
+}
+
+// Write the game, its room view and the hands in one transaction. The write
+// is rejected with a StaleGameError when the stored game moved on since
+// `expectedVersion`, so a server never overwrites a change it has not seen.
+export const saveGame = async (roomId: string, game: Game, match?: Match, options: SaveOptions = {}): Promise<void> => {
+  const roomRef = adminDb.collection('rooms').doc(roomId);
+  const gameRef = adminDb.collection('games').doc(game.getId());
+
+  await adminDb.runTransaction(async tx => {
+    const gameSnap = await tx.get(gameRef);
+    const storedVersion = gameSnap.exists ? migrateGameData(gameSnap.data()).stateVersion : undefined;
+    if (storedVersion !== options.expectedVersion) {
+      throw new StaleGameError(game.getId(), options.expectedVersion, storedVersion);
+    }
+
+    tx.set(gameRef, {
+      roomId,
+      ...game.getDataForFirestore()
+    });
+
+    tx.update(roomRef, {
+      gameId: game.getId(),
+      game: game.getViewFor(),
+      ...(match ? { match: match.getDataForFirestore() } : {}),
+      ...options.room
+    });
+
+    game.getPlayers().forEach(player => {
+      tx.set(roomRef.collection('hands').doc(player.id), {
+        gameId: game.getId(),
+        hand: player.getData().hand
+      });
+    });
+  });
+};
+
+// Documents are checked and migrated to the current GameData version;
+// a malformed one throws a GameDataError
+export const loadGameData = async (gameId: string): Promise<GameData | undefined> => {
+  const gameSnap = await adminDb.collection('games').doc(gameId).get();
+  if (!gameSnap.exists) return undefined;
+  const { roomId: _roomId, ...data } = gameSnap.data()!;
+  return parseGameData(data);
+};
+
+// Rebuild a stored game from its snapshot. GameData restores everything,
+// including when the current turn started and the players' time banks,
+// which replaying the event log would reset.
+export const loadGame = async (gameId: string): Promise<Game | undefined> => {
+  const data = await loadGameData(gameId);
+  if (!data) return undefined;
+  return Game.fromData(data);
+};
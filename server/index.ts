@@ -0,0 +1,438 @@
+import http from 'node:http';
+import { GameService, SeatInfo } from './GameService';
+import { HttpError } from './HttpError';
+import { PresenceChange, PresenceTracker } from './Presence';
+import { RoomPlayer, RoomRecord, getRoom, updateRoomPlayers, verifyIdToken } from './firebaseAdmin';
+import { StaleGameError, loadGame, loadGameData, saveGame } from './gameStore';
+import { ViewerRole, getViewerRole, getViewerState, subscribeViewer } from './viewers';
+import { isGameCommand } from '../src/game/GameCommand';
+import { GameEvent } from '../src/game/GameEvent';
+import { GameValidator } from '../src/game/GameValidator';
+import { DEFAULT_MATCH_SETTINGS, Match, MatchSettings } from '../src/game/Match';
+
+// HTTP command API for the authoritative game server
+//
+//   POST /rooms/:roomId/start     host starts a match, or deals its next round
+//   POST /rooms/:roomId/commands  send a draw/meld/extend/swapJoker/discard intent
+//   POST /rooms/:roomId/presence  heartbeat of a player with the room open
+//   GET  /rooms/:roomId/state     last saved state for the caller
+//   GET  /rooms/:roomId/events    server-sent events with state pushes
+//                                 (spectators of the room get every hand hidden)
+//   GET  /games/:gameId/events    event log of a finished game (replay)
+//
+// Requests authenticate with a Firebase ID token, either as a Bearer
+// header or (for EventSource, which cannot set headers) a `token` query.
+
+const PORT = Number(process.env.GAME_SERVER_PORT || 8787);
+const CLIENT_ORIGIN = process.env.CLIENT_ORIGIN || '*';
+
+// A command is applied again to the stored game this often when another
+// write changed the game first
+const MAX_SAVE_ATTEMPTS = 3;
+
+// A player is offline after this long without a heartbeat (clients beat
+// every 10 s), and an offline player's turn is played for them once it has
+// been idle for the grace period
+const PRESENCE_TIMEOUT_MS = Number(process.env.PRESENCE_TIMEOUT_MS || 25000);
+const DISCONNECT_GRACE_MS = Number(process.env.DISCONNECT_GRACE_MS || 30000);
+// How often presence and turn timers are checked
+const TICK_MS = 1000;
+
+const service = new GameService();
+const presence = new PresenceTracker(PRESENCE_TIMEOUT_MS);
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': CLIENT_ORIGIN
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: http.IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > 64 * 1024) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const authenticate = async (req: http.IncomingMessage, url: URL): Promise<string> => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token');
+  if (!token) {
+    throw new HttpError(401, 'Missing auth token');
+  }
+
+  try {
+    return await verifyIdToken(token);
+  } catch {
+    throw new HttpError(401, 'Invalid auth token');
+  }
+};
+
+// Requests that change a room run one at a time on this server, so every
+// save starts from the version the one before it stored
+const roomLocks = new Map<string, Promise<unknown>>();
+
+const withRoomLock = <T>(roomId: string, task: () => Promise<T>): Promise<T> => {
+  const result = (roomLocks.get(roomId) ?? Promise.resolve()).then(task, task);
+  const settled = result.catch(() => undefined);
+  roomLocks.set(roomId, settled);
+  settled.then(() => {
+    if (roomLocks.get(roomId) === settled) roomLocks.delete(roomId);
+  });
+  return result;
+};
+
+// The seats of a lobby. Any player may edit the players list, so a seat is
+// only a bot if the host added it (`botIds`).
+const lobbySeats = (room: RoomRecord): SeatInfo[] => room.players.map(player => ({
+  id: player.id,
+  displayName: player.displayName,
+  bot: room.botIds?.includes(player.id) ? player.bot : undefined
+}));
+
+// The seats of a started game, with the bots the server stored at the start
+const gameSeats = (room: RoomRecord): SeatInfo[] => room.players.map(player => ({
+  id: player.id,
+  displayName: player.displayName,
+  bot: room.botSeats?.[player.id]
+}));
+
+// Bot seats are played by the server and have no presence
+const humanPlayers = (room: RoomRecord): RoomPlayer[] => room.players.filter(player => !room.botSeats?.[player.id]);
+
+// Host the room's game as it is in storage, replacing the hosted one
+const reloadGame = async (roomId: string): Promise<void> => {
+  const room = await getRoom(roomId);
+  const game = room?.gameId ? await loadGame(room.gameId) : undefined;
+  if (!room || !game) {
+    service.closeGame(roomId);
+    return;
+  }
+
+  service.restoreGame(roomId, game, room.match ? Match.fromData(room.match, game) : undefined, gameSeats(room));
+  service.markSaved(roomId, game.getStateVersion());
+
+  // The stored online flags may be older than the heartbeats seen since
+  presence.watch(roomId, humanPlayers(room));
+  game.getPlayers().forEach(player => {
+    const connected = presence.isConnected(roomId, player.id);
+    if (connected !== undefined) service.setConnected(roomId, player.id, connected);
+  });
+};
+
+// Make sure the room's game is hosted, reloading it from storage after a restart
+const ensureGame = async (roomId: string): Promise<void> => {
+  if (service.hasGame(roomId)) return;
+
+  await withRoomLock(roomId, async () => {
+    if (!service.hasGame(roomId)) await reloadGame(roomId);
+  });
+};
+
+// Save the hosted game on top of the version it was loaded or last saved at,
+// which pushes it to the clients. When the save fails the game is hosted
+// again as storage has it, so the unsaved change is never pushed.
+const saveSession = async (roomId: string, room: Record<string, unknown> = {}): Promise<void> => {
+  const game = service.getGame(roomId)!;
+  try {
+    await saveGame(roomId, game, service.getMatch(roomId), { expectedVersion: service.getSavedVersion(roomId), room });
+  } catch (err) {
+    await reloadGame(roomId);
+    throw err;
+  }
+  service.markSaved(roomId, game.getStateVersion());
+};
+
+// Save a game after a move. The room stays in the game between the rounds
+// of a match.
+const savePlayedGame = (roomId: string): Promise<void> => {
+  const game = service.getGame(roomId)!;
+  const match = service.getMatch(roomId);
+  const finished = game.isFinished() && (!match || match.isFinished());
+  return saveSession(roomId, finished ? { status: 'finished' } : {});
+};
+
+// Write presence changes to the rooms and the hosted games
+const applyPresenceChanges = async (changes: PresenceChange[]): Promise<void> => {
+  const byRoom = new Map<string, Map<string, boolean>>();
+  changes.forEach(({ roomId, playerId, connected }) => {
+    if (!byRoom.has(roomId)) byRoom.set(roomId, new Map());
+    byRoom.get(roomId)!.set(playerId, connected);
+  });
+
+  for (const [roomId, connectedById] of byRoom) {
+    connectedById.forEach((connected, playerId) => service.setConnected(roomId, playerId, connected));
+    await updateRoomPlayers(roomId, players => players.map(player =>
+      connectedById.has(player.id) ? { ...player, connected: connectedById.get(player.id)! } : player
+    ));
+  }
+};
+
+const handlePresence = async (roomId: string, uid: string): Promise<void> => {
+  if (!presence.isWatching(roomId, uid)) {
+    const room = await getRoom(roomId);
+    if (!room) throw new HttpError(404, 'Room tidak ditemukan');
+    if (!room.players.some(player => player.id === uid)) {
+      throw new HttpError(403, 'Anda bukan pemain di room ini');
+    }
+    presence.watch(roomId, humanPlayers(room));
+  }
+
+  const change = presence.beat(roomId, uid);
+  if (change) await applyPresenceChanges([change]);
+};
+
+// Take silent players offline and play the turns that timed out or are
+// stuck on an offline player
+const tick = async (): Promise<void> => {
+  await applyPresenceChanges(presence.sweep());
+
+  for (const roomId of service.getRoomIds()) {
+    await withRoomLock(roomId, async () => {
+      if (!await service.autoPlayTurn(roomId, DISCONNECT_GRACE_MS)) return;
+
+      try {
+        await savePlayedGame(roomId);
+      } catch (err) {
+        // The next tick looks at the stored game again
+        if (!(err instanceof StaleGameError)) {
+          console.error(`Could not save the auto-played turn in room ${roomId}:`, err);
+        }
+      }
+    });
+  }
+};
+
+// Read optional match settings from the start request
+const parseMatchSettings = (body: any): MatchSettings => {
+  const settings: MatchSettings = {
+    rounds: body?.rounds !== undefined ? Number(body.rounds) : DEFAULT_MATCH_SETTINGS.rounds
+  };
+  if (body?.targetScore !== undefined && body.targetScore !== null) {
+    settings.targetScore = Number(body.targetScore);
+  }
+  if (body?.ruleSetId !== undefined && body.ruleSetId !== null) {
+    settings.ruleSetId = String(body.ruleSetId);
+  }
+  if (body?.turnTimeLimit !== undefined && body.turnTimeLimit !== null) {
+    settings.turnTimeLimit = Number(body.turnTimeLimit);
+  }
+  if (body?.timeBank !== undefined && body.timeBank !== null) {
+    settings.timeBank = Number(body.timeBank);
+  }
+  return settings;
+};
+
+// Start a match from the room lobby stored in Firestore, or the next round
+// of the current match
+const handleStart = (roomId: string, uid: string, body: unknown): Promise<void> => {
+  return withRoomLock(roomId, () => startGame(roomId, uid, body));
+};
+
+const startGame = async (roomId: string, uid: string, body: unknown): Promise<void> => {
+  const room = await getRoom(roomId);
+  if (!room) throw new HttpError(404, 'Room tidak ditemukan');
+  if (room.hostId !== uid) throw new HttpError(403, 'Hanya host yang bisa memulai game');
+
+  const existing = service.getGame(roomId);
+  if (existing && existing.isPlaying()) {
+    throw new HttpError(409, 'Game sedang berlangsung');
+  }
+
+  const match = service.getMatch(roomId);
+  if (match?.getStatus() === 'betweenRounds') {
+    service.startNextRound(roomId);
+    await service.runBots(roomId);
+    await saveSession(roomId, { status: 'playing' });
+    return;
+  }
+
+  if (!existing && !room.players.every(player => player.ready)) {
+    throw new HttpError(400, 'Semua pemain harus ready terlebih dahulu');
+  }
+
+  const validation = GameValidator.validateGameStart(room.players.length);
+  if (!validation.valid) throw new HttpError(400, validation.error!);
+
+  const settings = parseMatchSettings(body);
+  const settingsValidation = GameValidator.validateMatchSettings(settings);
+  if (!settingsValidation.valid) throw new HttpError(400, settingsValidation.error!);
+
+  const seats = lobbySeats(room);
+  service.createMatch(roomId, seats, settings);
+  await service.runBots(roomId);
+  await saveSession(roomId, {
+    status: 'playing',
+    gameStarted: true,
+    startedAt: new Date().toISOString(),
+    botSeats: Object.fromEntries(seats.filter(seat => seat.bot).map(seat => [seat.id, seat.bot]))
+  });
+};
+
+// Apply a command and save the result. When another write changed the game
+// first, the stored game is loaded and the command applied to it again.
+const handleCommand = async (roomId: string, uid: string, body: unknown): Promise<void> => {
+  if (!isGameCommand(body)) throw new HttpError(400, 'Aksi tidak valid');
+
+  await withRoomLock(roomId, async () => {
+    for (let attempt = 1; ; attempt++) {
+      if (!service.hasGame(roomId)) throw new HttpError(404, 'Game tidak ditemukan');
+
+      const result = await service.handleCommand(roomId, uid, body);
+      if (!result.valid) throw new HttpError(422, result.error || 'Aksi tidak valid');
+
+      try {
+        await savePlayedGame(roomId);
+        return;
+      } catch (err) {
+        // The stored game is hosted again; apply the command to it
+        if (!(err instanceof StaleGameError)) throw err;
+        if (attempt === MAX_SAVE_ATTEMPTS) {
+          throw new HttpError(409, 'Game diubah bersamaan, coba lagi');
+        }
+      }
+    }
+  });
+};
+
+// The event log reveals every hand, so it is only served once the game is over
+const handleGameEvents = async (gameId: string, uid: string): Promise<GameEvent[]> => {
+  const data = await loadGameData(gameId);
+  if (!data) throw new HttpError(404, 'Game tidak ditemukan');
+  if (!data.players.some(player => player.id === uid)) {
+    throw new HttpError(403, 'Anda bukan pemain di game ini');
+  }
+  if (data.status !== 'finished') {
+    throw new HttpError(409, 'Replay tersedia setelah game selesai');
+  }
+  return data.events || [];
+};
+
+// Players of the room's game, or spectators listed on the room
+const getRole = (roomId: string, uid: string): Promise<ViewerRole> => {
+  return getViewerRole(service, roomId, uid, async () => (await getRoom(roomId))?.spectatorIds);
+};
+
+const handleEvents = async (req: http.IncomingMessage, res: http.ServerResponse, roomId: string, uid: string): Promise<void> => {
+  const role = await getRole(roomId, uid);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': CLIENT_ORIGIN
+  });
+
+  const unsubscribe = subscribeViewer(service, roomId, uid, role, state => {
+    res.write(`event: state\ndata: ${JSON.stringify(state)}\n\n`);
+  });
+
+  // Keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': CLIENT_ORIGIN,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+    });
+    res.end();
+    return;
+  }
+
+  const match = url.pathname.match(/^\/rooms\/([^/]+)\/(start|commands|presence|state|events)$/);
+  const gameMatch = url.pathname.match(/^\/games\/([^/]+)\/events$/);
+
+  try {
+    if (gameMatch) {
+      if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+      const uid = await authenticate(req, url);
+      sendJson(res, 200, await handleGameEvents(decodeURIComponent(gameMatch[1]), uid));
+      return;
+    }
+
+    if (!match) throw new HttpError(404, 'Not found');
+
+    const roomId = decodeURIComponent(match[1]);
+    const route = `${req.method} ${match[2]}`;
+    const uid = await authenticate(req, url);
+    await ensureGame(roomId);
+
+    switch (route) {
+      case 'POST start':
+        await handleStart(roomId, uid, await readJson(req));
+        sendJson(res, 200, { ok: true });
+        return;
+
+      case 'POST commands':
+        await handleCommand(roomId, uid, await readJson(req));
+        sendJson(res, 200, { ok: true });
+        return;
+
+      case 'POST presence':
+        await handlePresence(roomId, uid);
+        sendJson(res, 200, { ok: true });
+        return;
+
+      case 'GET state': {
+        // Read after the save of a command in progress, or its rollback
+        const role = await getRole(roomId, uid);
+        const state = await withRoomLock(roomId, async () => getViewerState(service, roomId, uid, role));
+        if (!state) throw new HttpError(409, 'Game sedang disimpan, coba lagi');
+        sendJson(res, 200, state);
+        return;
+      }
+
+      case 'GET events':
+        await handleEvents(req, res, roomId, uid);
+        return;
+
+      default:
+        throw new HttpError(405, 'Method not allowed');
+    }
+  } catch (err: any) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error('Game server error:', err);
+    if (!res.headersSent) {
+      sendJson(res, status, { error: status === 500 ? 'Internal server error' : err.message });
+    }
+  }
+});
+
+let ticking = false;
+setInterval(() => {
+  if (ticking) return;
+  ticking = true;
+  tick()
+    .catch(err => console.error('Presence and timer check failed:', err))
+    .finally(() => { ticking = false; });
+}, TICK_MS);
+
+server.listen(PORT, () => {
+  console.log(`Rummy Lite game server listening on port ${PORT}`);
+});
@@ -0,0 +1,125 @@
+import { writeFileSync } from 'node:fs';
+import { BOT_LEVELS, BotLevel } from '../src/game/BotPlayer';
+import { GameValidator } from '../src/game/GameValidator';
+import { DEFAULT_RULE_SET, RULE_SET_PRESETS, RuleSet, getRuleSet } from '../src/game/RuleSet';
+import { runSimulation, simulationStatsToCsv } from '../src/game/Simulation';
+
+// Headless bot games for rule balance checks, no Firebase needed
+//
+//   npm run simulate -- --games 1000 --bots greedy,greedy,random,expert --format csv --out stats.csv
+//
+//   --games N        number of games (default 100)
+//   --seed S         seed of the first game, later games use S+1, S+2, ... (default 1)
+//   --bots a,b,...   bot level per seat (2-6 seats): random, greedy or expert (default greedy x4)
+//   --rules ID       RuleSet preset: renjana, classic or gin (default renjana)
+//   --max-turns N    give up on a game after N turns (default 500)
+//   --format F       json or csv (default json)
+//   --out FILE       write to a file instead of stdout
+
+interface CliOptions {
+  games: number;
+  seed: number;
+  bots: BotLevel[];
+  rules: RuleSet;
+  maxTurns: number;
+  format: 'json' | 'csv';
+  out?: string;
+}
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseCount = (name: string, value: string | undefined): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) fail(`--${name} must be a positive integer`);
+  return count;
+};
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    games: 100,
+    seed: 1,
+    bots: ['greedy', 'greedy', 'greedy', 'greedy'],
+    rules: DEFAULT_RULE_SET,
+    maxTurns: 500,
+    format: 'json'
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--games':
+        options.games = parseCount('games', args[++i]);
+        break;
+      case '--seed': {
+        const seed = Number(args[++i]);
+        if (!Number.isInteger(seed) || seed < 0) fail('--seed must be a non-negative integer');
+        options.seed = seed;
+        break;
+      }
+      case '--bots': {
+        const levels = BOT_LEVELS.map(bot => bot.level);
+        const bots = (args[++i] || '').split(',') as BotLevel[];
+        const unknown = bots.find(bot => !levels.includes(bot));
+        if (unknown !== undefined) fail(`Unknown bot level "${unknown}", use ${levels.join(', ')}`);
+        options.bots = bots;
+        break;
+      }
+      case '--rules': {
+        const id = args[++i];
+        options.rules = getRuleSet(id) ?? fail(`Unknown rules "${id}", use ${RULE_SET_PRESETS.map(rules => rules.id).join(', ')}`);
+        break;
+      }
+      case '--max-turns':
+        options.maxTurns = parseCount('max-turns', args[++i]);
+        break;
+      case '--format': {
+        const format = args[++i];
+        if (format !== 'json' && format !== 'csv') fail('--format must be json or csv');
+        options.format = format as CliOptions['format'];
+        break;
+      }
+      case '--out':
+        options.out = args[++i] || fail('--out needs a file name');
+        break;
+      default:
+        fail(`Unknown option ${arg}`);
+    }
+  }
+
+  const seats = GameValidator.validateGameStart(options.bots.length);
+  if (!seats.valid) fail(seats.error!);
+
+  return options;
+};
+
+const main = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+
+  const startedAt = Date.now();
+  const stats = await runSimulation({
+    games: options.games,
+    seed: options.seed,
+    bots: options.bots,
+    rules: options.rules,
+    maxTurns: options.maxTurns
+  });
+
+  const output = options.format === 'csv'
+    ? simulationStatsToCsv(stats)
+    : JSON.stringify(stats, null, 2) + '\n';
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.error(`${stats.games} games in ${Date.now() - startedAt}ms, written to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main().catch(err => {
+  console.error('Simulation failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { GameService, StateListener } from './GameService';
+import { HttpError } from './HttpError';
+import { GameView } from '../src/game/GameView';
+
+// Who may see a room's table. Players of its game get their own view;
+// spectators have no seat, so they are looked up in the room's spectatorIds
+// and get the view with every hand hidden. Anyone else is told there is no
+// game.
+
+export type ViewerRole = 'player' | 'spectator';
+
+export const getViewerRole = async (
+  service: GameService,
+  roomId: string,
+  uid: string,
+  getSpectatorIds: () => Promise<string[] | undefined>
+): Promise<ViewerRole> => {
+  if (service.getStateFor(roomId, uid)) return 'player';
+  if (service.hasGame(roomId) && (await getSpectatorIds())?.includes(uid)) return 'spectator';
+  throw new HttpError(404, 'Game tidak ditemukan');
+};
+
+// The state a viewer may read. Like the pushes it is only served once
+// storage holds it, so nobody reads a change that may still be rolled back.
+export const getViewerState = (service: GameService, roomId: string, uid: string, role: ViewerRole): GameView | undefined => {
+  if (!service.isStateSaved(roomId)) return undefined;
+  return role === 'player' ? service.getStateFor(roomId, uid) : service.getSpectatorState(roomId);
+};
+
+// Subscribe a viewer to the state pushes meant for their role
+export const subscribeViewer = (
+  service: GameService,
+  roomId: string,
+  uid: string,
+  role: ViewerRole,
+  listener: StateListener
+): (() => void) => {
+  return role === 'player' ? service.subscribe(roomId, uid, listener) : service.watch(roomId, listener);
+};
@@ -5,6 +5,8 @@ import Auth from './components/Auth/Auth';
 import Home from './pages/Home';
 import Room from './components/Room/Room';
 import GameBoard from './components/GameBoard/GameBoardNew';
+import Replay from './components/Replay/Replay';
+import Watch from './components/Watch/Watch';
 
 function App() {
   const { user, loading, error, initializeAuth } = useAuthStore();
@@ -64,6 +66,14 @@ function App() {
             path="/game/:roomId"
             element={user ? <GameBoard /> : <Navigate to="/auth" replace />}
           />
+          <Route
+            path="/watch/:roomId"
+            element={user ? <Watch /> : <Navigate to="/auth" replace />}
+          />
+          <Route
+            path="/replay/:gameId"
+            element={user ? <Replay /> : <Navigate to="/auth" replace />}
+          />
         </Routes>
       </div>
     </Router>
@@ -1,22 +1,20 @@
 import React from 'react';
-import { Deck } from '../../game/Card';
-import { Player } from '../../game/Player';
 
 interface DeckComponentProps {
-  deck: Deck;
+  deckCount: number;
   isMyTurn: boolean;
   canDrawFromDeck: boolean;
   onDrawFromDeck?: () => void;
-  matchingCardsCount?: number;
+  discardPickupCount?: number; // Cards the player may take from the discard pile instead
   className?: string;
 }
 
 export const DeckComponent: React.FC<DeckComponentProps> = ({
-  deck,
+  deckCount,
   isMyTurn,
   canDrawFromDeck,
   onDrawFromDeck,
-  matchingCardsCount = 0,
+  discardPickupCount = 0,
   className = ''
 }) => {
   const handleDrawFromDeck = () => {
@@ -26,7 +24,7 @@ export const DeckComponent: React.FC<DeckComponentProps> = ({
   };
 
   const getDeckStatusColor = () => {
-    const remainingCards = deck.getRemainingCount();
+    const remainingCards = deckCount;
 
     if (remainingCards === 0) {
       return 'bg-red-100 border-red-300 text-red-700';
@@ -38,7 +36,7 @@ export const DeckComponent: React.FC<DeckComponentProps> = ({
   };
 
   const getDeckMessage = () => {
-    const remainingCards = deck.getRemainingCount();
+    const remainingCards = deckCount;
 
     if (remainingCards === 0) {
       return 'Deck Kosong';
@@ -49,8 +47,8 @@ export const DeckComponent: React.FC<DeckComponentProps> = ({
     }
   };
 
-  const remainingCards = deck.getRemainingCount();
-  const isEmpty = deck.isEmpty();
+  const remainingCards = deckCount;
+  const isEmpty = deckCount === 0;
 
   return (
     <div className={`bg-white border border-black rounded-lg p-4 ${className}`}>
@@ -100,9 +98,9 @@ export const DeckComponent: React.FC<DeckComponentProps> = ({
       {/* Card Count Info */}
       <div className="text-center text-sm text-gray-600 mb-3">
         <div>Kartu tersisa: {remainingCards}</div>
-        {matchingCardsCount > 0 && (
-          <div className="text-orange-600 font-medium mt-1">
-            ⚠️ {matchingCardsCount} kartu cocok di discard pile
+        {discardPickupCount > 0 && (
+          <div className="text-green-600 font-medium mt-1">
+            ✅ Bisa juga ambil {discardPickupCount} kartu dari discard pile
           </div>
         )}
       </div>
@@ -110,28 +108,17 @@ export const DeckComponent: React.FC<DeckComponentProps> = ({
       {/* Action Button */}
       {isMyTurn && (
         <div className="text-center">
-          {matchingCardsCount > 0 ? (
-            <div className="space-y-2">
-              <div className="text-sm text-green-600 font-medium">
-                ✅ Ada {matchingCardsCount} kartu yang cocok
-              </div>
-              <div className="text-xs text-gray-500">
-                Ambil dari discard pile terlebih dahulu
-              </div>
-            </div>
-          ) : (
-            <button
-              onClick={handleDrawFromDeck}
-              disabled={!canDrawFromDeck || isEmpty}
-              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 border ${
-                canDrawFromDeck && !isEmpty
-                  ? 'bg-black text-white hover:bg-gray-800 border-black hover:shadow-lg'
-                  : 'bg-gray-300 text-gray-500 border-gray-300 cursor-not-allowed'
-              }`}
-              aria-label={isEmpty ? "Deck is empty" : "Draw 1 card from deck"}>
-              {isEmpty ? 'Deck Kosong' : '🎴 Ambil 1 dari Deck'}
-            </button>
-          )}
+          <button
+            onClick={handleDrawFromDeck}
+            disabled={!canDrawFromDeck || isEmpty}
+            className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 border ${
+              canDrawFromDeck && !isEmpty
+                ? 'bg-black text-white hover:bg-gray-800 border-black hover:shadow-lg'
+                : 'bg-gray-300 text-gray-500 border-gray-300 cursor-not-allowed'
+            }`}
+            aria-label={isEmpty ? "Deck is empty" : "Draw 1 card from deck"}>
+            {isEmpty ? 'Deck Kosong' : '🎴 Ambil 1 dari Deck'}
+          </button>
         </div>
       )}
 
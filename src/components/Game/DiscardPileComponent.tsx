@@ -1,40 +1,36 @@
 import React, { useState } from 'react';
-import { Card, DiscardPile } from '../../game/Card';
-import { Player } from '../../game/Player';
+import { Card } from '../../game/Card';
 import CardComponent from './CardComponent';
 
 interface DiscardPileComponentProps {
-  discardPile: DiscardPile;
-  myPlayer?: Player;
+  cards: Card[];
+  discardedBy: Record<string, string>;
   isMyTurn: boolean;
   canTakeFromDiscard: boolean;
+  pickupCounts?: number[]; // Allowed pickups from getDiscardPickupCounts, only for the viewer
   onTakeFromDiscard?: (count: number) => void;
   className?: string;
 }
 
 export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
-  discardPile,
-  myPlayer,
+  cards,
+  discardedBy,
   isMyTurn,
   canTakeFromDiscard,
+  pickupCounts,
   onTakeFromDiscard,
   className = ''
 }) => {
   const [showAllCards, setShowAllCards] = useState(false);
   const [groupByPlayer, setGroupByPlayer] = useState(false);
 
-  const allCards = discardPile.getAllCards();
-  const totalCards = discardPile.getCount();
-  const lastThreeCards = discardPile.getLastCards(3).reverse();
+  const allCards = cards;
+  const totalCards = cards.length;
+  const lastThreeCards = cards.slice(-3).reverse();
 
-  // Get matching cards for the current player
-  const getMatchingCards = () => {
-    if (!myPlayer) return [];
-    return myPlayer.getMatchingCardsSequence(allCards);
-  };
-
-  const matchingCards = getMatchingCards();
-  const topCard = discardPile.getTopCard();
+  // Top cards the player may take, as many as the largest allowed pickup
+  const maxPickup = pickupCounts && pickupCounts.length > 0 ? pickupCounts[pickupCounts.length - 1] : 0;
+  const matchingCards = maxPickup > 0 ? allCards.slice(-maxPickup) : [];
 
   const handleTakeFromDiscard = (count: number) => {
     if (onTakeFromDiscard && isMyTurn && canTakeFromDiscard) {
@@ -43,8 +39,7 @@ export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
   };
 
   const isCardMatching = (card: Card) => {
-    if (!myPlayer) return false;
-    return myPlayer.hasMatchingPair(card);
+    return matchingCards.some(matching => matching.id === card.id);
   };
 
   const getCardsToShow = () => {
@@ -59,8 +54,7 @@ export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
     const grouped: Record<string, { card: Card; originalIndex: number }[]> = {};
 
     cardsToShow.forEach((card, index) => {
-      const discardedBy = discardPile.getWhoDiscarded(card.id);
-      const playerId = discardedBy || 'unknown';
+      const playerId = discardedBy[card.id] || 'unknown';
       if (!grouped[playerId]) {
         grouped[playerId] = [];
       }
@@ -142,10 +136,10 @@ export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
       </div>
 
       {/* Matching Cards Info */}
-      {myPlayer && isMyTurn && matchingCards.length > 0 && (
+      {pickupCounts && isMyTurn && matchingCards.length > 0 && (
         <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
           <div className="text-sm text-green-700 font-medium mb-2">
-            ✅ {matchingCards.length} kartu cocok tersedia
+            ✅ {matchingCards.length} kartu bisa diambil dan langsung diturunkan
           </div>
           <div className="flex justify-center">
             {matchingCards.slice(0, 3).map((card) => (
@@ -164,21 +158,22 @@ export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
               </div>
             )}
           </div>
-          {canTakeFromDiscard && (
+          {canTakeFromDiscard && pickupCounts.map(count => (
             <button
-              onClick={() => handleTakeFromDiscard(matchingCards.length)}
+              key={count}
+              onClick={() => handleTakeFromDiscard(count)}
               className="mt-2 w-full px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-sm font-medium"
             >
-              📤 Ambil {matchingCards.length} dari Discard
+              📤 Ambil {count} dari Discard
             </button>
-          )}
+          ))}
         </div>
       )}
 
       {/* No Matching Cards */}
-      {myPlayer && isMyTurn && matchingCards.length === 0 && totalCards > 0 && (
+      {pickupCounts && isMyTurn && matchingCards.length === 0 && totalCards > 0 && (
         <div className="mb-4 text-center text-sm text-gray-600">
-          Tidak ada kartu yang cocok
+          Tidak ada kartu yang bisa langsung diturunkan
         </div>
       )}
 
@@ -212,7 +207,7 @@ export const DiscardPileComponent: React.FC<DiscardPileComponentProps> = ({
           {groupByPlayer ? (
             <div className="space-y-3 max-h-60 overflow-y-auto">
               {Object.entries(getGroupedCards()).map(([playerId, cards]) => {
-                const playerName = playerId === 'unknown' ? 'Unknown' : playerId;
+                const playerName = playerId === 'unknown' ? 'Kartu awal' : playerId;
                 return (
                   <div key={playerId} className="border border-gray-300 rounded-lg p-2">
                     <div className="text-xs font-medium text-gray-700 mb-1">
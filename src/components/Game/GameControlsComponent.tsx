@@ -1,10 +1,10 @@
 import React from 'react';
-import { Game } from '../../game/Game';
-import { Player } from '../../game/Player';
+import { GameView, PlayerView, getCurrentPlayerView, getDiscardPickupCounts, getPlayerView } from '../../game/GameView';
+import ScoreboardComponent from './ScoreboardComponent';
 
 interface GameControlsComponentProps {
-  game: Game;
-  myPlayer?: Player;
+  view: GameView;
+  myPlayer?: PlayerView;
   isMyTurn: boolean;
   selectedCards: string[];
   onDrawFromDeck?: () => void;
@@ -15,11 +15,12 @@ interface GameControlsComponentProps {
   onEndGame?: () => void;
   onRestartGame?: () => void;
   onLeaveGame?: () => void;
+  onViewReplay?: () => void;
   className?: string;
 }
 
 export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
-  game,
+  view,
   myPlayer,
   isMyTurn,
   selectedCards,
@@ -31,31 +32,35 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
   onEndGame,
   onRestartGame,
   onLeaveGame,
+  onViewReplay,
   className = ''
 }) => {
-  const currentPlayer = game.getCurrentPlayer();
-  const isFinished = game.isFinished();
-  const winner = game.getWinner() ? game.getPlayer(game.getWinner()!) : undefined;
-
-  // Get matching cards count for discard pile
-  const getMatchingCardsCount = () => {
+  const currentPlayer = getCurrentPlayerView(view);
+  const isFinished = view.status === 'finished';
+  const winner = getPlayerView(view, view.winner);
+  const match = view.match;
+  const matchWinner = match?.scoreboard.find(score => score.playerId === match.winner);
+
+  // Most cards the rules let us take off the discard pile right now
+  const getDiscardPickupCount = () => {
     if (!myPlayer) return 0;
-    const matchingCards = myPlayer.getMatchingCardsSequence(game.getDiscardPile().getAllCards());
-    return matchingCards.length;
+    const counts = getDiscardPickupCounts(view, myPlayer.id);
+    return counts.length > 0 ? counts[counts.length - 1] : 0;
   };
 
-  // Check if player can draw from deck
+  // Check if player can draw from deck; taking from the discard pile is an option, never a must
   const canDrawFromDeck = () => {
     if (!isMyTurn || !myPlayer) return false;
-    const matchingCardsCount = getMatchingCardsCount();
-    return matchingCardsCount === 0 && !game.getDeck().isEmpty();
+    return view.deckCount > 0;
   };
 
+  // Cards taken from the discard pile this turn that still have to be melded
+  const pendingMeldCount = isMyTurn ? view.pendingMeldCardIds.length : 0;
+
   // Check if player can draw from discard
   const canDrawFromDiscard = () => {
     if (!isMyTurn || !myPlayer) return false;
-    const matchingCardsCount = getMatchingCardsCount();
-    return matchingCardsCount > 0 && !game.getDiscardPile().isEmpty();
+    return getDiscardPickupCount() > 0;
   };
 
   // Check if player can meld
@@ -63,10 +68,10 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
     if (!isMyTurn || !myPlayer || selectedCards.length < 3) return false;
 
     // Check if player must meld (after drawing from discard)
-    if (game.lastDrawFromDiscard()) return true;
+    if (pendingMeldCount > 0) return true;
 
     // Optional meld if player has cards and has laid run
-    return myPlayer.hasLaidRunMeld() || selectedCards.length >= 3;
+    return myPlayer.hasLaidRun || selectedCards.length >= 3;
   };
 
   // Check if player can discard
@@ -74,14 +79,12 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
     if (!isMyTurn || !myPlayer || selectedCards.length !== 1) return false;
 
     // Special case: first player must discard from 8 to 7 cards
-    if (!game.hasFirstPlayerDiscarded() &&
-        game.getCurrentPlayerIndex() === 0 &&
-        myPlayer.getHandSize() === 8) {
+    if (!view.firstPlayerDiscarded && myPlayer.handCount === view.rules.handSize + 1) {
       return true;
     }
 
-    // Regular discard - not allowed if just drew from discard
-    return !game.lastDrawFromDiscard();
+    // Regular discard - not allowed until the cards taken from the discard pile are melded
+    return pendingMeldCount === 0;
   };
 
   const handleDrawFromDeck = () => {
@@ -91,9 +94,8 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
   };
 
   const handleDrawFromDiscard = () => {
-    const matchingCount = getMatchingCardsCount();
-    if (onDrawFromDiscard && canDrawFromDiscard() && matchingCount > 0) {
-      onDrawFromDiscard(matchingCount);
+    if (onDrawFromDiscard && canDrawFromDiscard()) {
+      onDrawFromDiscard(getDiscardPickupCount());
     }
   };
 
@@ -137,19 +139,19 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
   const getRequiredAction = () => {
     if (!isMyTurn) return null;
 
-    if (!game.hasFirstPlayerDiscarded() && game.getCurrentPlayerIndex() === 0) {
-      return 'Wajib membuang 1 kartu (8 → 7)';
+    if (!view.firstPlayerDiscarded) {
+      return `Wajib membuang 1 kartu (${view.rules.handSize + 1} → ${view.rules.handSize})`;
     }
 
-    if (game.lastDrawFromDiscard()) {
-      return 'Wajib menurunkan kombinasi';
+    if (pendingMeldCount > 0) {
+      return `Wajib menurunkan ${pendingMeldCount} kartu dari discard pile sebelum membuang`;
     }
 
     return null;
   };
 
   const requiredAction = getRequiredAction();
-  const matchingCardsCount = getMatchingCardsCount();
+  const discardPickupCount = getDiscardPickupCount();
 
   // Game Over State
   if (isFinished) {
@@ -157,36 +159,58 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
       <div className={`bg-white border border-black rounded-lg p-6 ${className}`}>
         <div className="text-center">
           <h2 className="text-2xl font-bold text-black mb-4">
-            Game Selesai! 🎮
+            {match && !match.winner ? `Ronde ${view.currentRound} Selesai!` : 'Game Selesai!'} 🎮
           </h2>
 
+          {matchWinner && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-300 rounded-lg">
+              <div className="text-lg font-bold text-black">
+                👑 Juara Match: {matchWinner.displayName}
+              </div>
+              <div className="text-sm text-gray-600">
+                Total {matchWinner.totalScore} poin
+              </div>
+            </div>
+          )}
+
           {winner && (
             <div className="mb-6">
               <div className="text-lg font-medium text-black mb-2">
                 🏆 Pemenang: {winner.displayName}
               </div>
               <div className="text-sm text-gray-600">
-                {game.getGameOverReason() === 'memukul'
+                {view.gameOverReason === 'memukul'
                   ? 'Menang dengan "Memukul"!'
                   : 'Deck habis'}
               </div>
             </div>
           )}
 
+          {/* Match Scoreboard */}
+          {match && (
+            <ScoreboardComponent
+              match={match}
+              myPlayerId={myPlayer?.id}
+              className="mb-6 text-left"
+            />
+          )}
+
           {/* Final Scores */}
-          <div className="mb-6">
-            <h3 className="text-lg font-medium text-black mb-3">Skor Akhir:</h3>
-            <div className="space-y-2">
-              {game.getPlayers().map(player => (
-                <div key={player.id} className={`flex justify-between items-center p-2 rounded ${
-                  player.id === winner?.id ? 'bg-green-50 border border-green-300' : 'bg-gray-50'
-                }`}>
-                  <span className="font-medium">{player.displayName}</span>
-                  <span className="font-bold">{player.getScore()} poin</span>
-                </div>
-              ))}
+          {!match && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-black mb-3">Skor Akhir:</h3>
+              <div className="space-y-2">
+                {view.players.map(player => (
+                  <div key={player.id} className={`flex justify-between items-center p-2 rounded ${
+                    player.id === winner?.id ? 'bg-green-50 border border-green-300' : 'bg-gray-50'
+                  }`}>
+                    <span className="font-medium">{player.displayName}</span>
+                    <span className="font-bold">{player.score} poin</span>
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Action Buttons */}
           <div className="flex justify-center space-x-4">
@@ -195,7 +219,15 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
                 onClick={handleRestartGame}
                 className="px-6 py-3 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors font-medium"
               >
-                Main Lagi
+                {match?.status === 'betweenRounds' ? 'Ronde Berikutnya' : 'Main Lagi'}
+              </button>
+            )}
+            {onViewReplay && (
+              <button
+                onClick={onViewReplay}
+                className="px-6 py-3 bg-white text-black border border-black rounded-lg hover:bg-gray-100 transition-colors font-medium"
+              >
+                Lihat Replay
               </button>
             )}
             {onLeaveGame && (
@@ -254,26 +286,25 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
         <div className="space-y-3">
           {/* Draw Actions */}
           <div className="space-y-2">
-            {matchingCardsCount > 0 ? (
+            {discardPickupCount > 0 && (
               <button
                 onClick={handleDrawFromDiscard}
                 className="w-full px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium border border-green-600"
               >
-                📤 Ambil {matchingCardsCount} dari Discard
-              </button>
-            ) : (
-              <button
-                onClick={handleDrawFromDeck}
-                disabled={game.getDeck().isEmpty()}
-                className={`w-full px-4 py-3 rounded-lg font-medium transition-colors border ${
-                  game.getDeck().isEmpty()
-                    ? 'bg-gray-300 text-gray-500 border-gray-300 cursor-not-allowed'
-                    : 'bg-black text-white hover:bg-gray-800 border-black'
-                }`}
-              >
-                🎴 Ambil 1 dari Deck
+                📤 Ambil {discardPickupCount} dari Discard
               </button>
             )}
+            <button
+              onClick={handleDrawFromDeck}
+              disabled={view.deckCount === 0}
+              className={`w-full px-4 py-3 rounded-lg font-medium transition-colors border ${
+                view.deckCount === 0
+                  ? 'bg-gray-300 text-gray-500 border-gray-300 cursor-not-allowed'
+                  : 'bg-black text-white hover:bg-gray-800 border-black'
+              }`}
+            >
+              🎴 Ambil 1 dari Deck
+            </button>
           </div>
 
           {/* Meld Action */}
@@ -292,7 +323,7 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
               onClick={handleDiscard}
               className="w-full px-4 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-medium border border-orange-600"
             >
-              {game.getCurrentPlayerIndex() === 0 && myPlayer?.getHandSize() === 8
+              {!view.firstPlayerDiscarded && myPlayer?.handCount === view.rules.handSize + 1
                 ? 'Buang Kartu Pertama'
                 : 'Buang Kartu'}
             </button>
@@ -313,10 +344,10 @@ export const GameControlsComponent: React.FC<GameControlsComponentProps> = ({
       {/* Game Info */}
       <div className="mt-4 pt-3 border-t border-gray-200">
         <div className="text-xs text-gray-600 space-y-1">
-          <div>Deck: {game.getDeck().getRemainingCount()} kartu</div>
-          <div>Discard: {game.getDiscardPile().getCount()} kartu</div>
-          <div>Round: {game.getCurrentRound()}</div>
-          <div>Status: {game.getStatus()}</div>
+          <div>Deck: {view.deckCount} kartu</div>
+          <div>Discard: {view.discardPile.length} kartu</div>
+          <div>Round: {view.currentRound}</div>
+          <div>Status: {view.status}</div>
         </div>
       </div>
 
@@ -1,10 +1,11 @@
 import React from 'react';
 import { Card } from '../../game/Card';
-import { Player } from '../../game/Player';
+import { PlayerView, canPlayerViewWin } from '../../game/GameView';
 import CardComponent from './CardComponent';
 
 interface HandComponentProps {
-  player: Player;
+  player: PlayerView;
+  title?: string;
   selectedCards: string[];
   isMyTurn: boolean;
   showCards: boolean;
@@ -17,10 +18,12 @@ interface HandComponentProps {
   canMeld?: boolean;
   canDiscard?: boolean;
   requiredAction?: 'discard' | 'meld' | 'none';
+  pendingCardIds?: string[]; // Cards taken from the discard pile that must be melded this turn
 }
 
 export const HandComponent: React.FC<HandComponentProps> = ({
   player,
+  title,
   selectedCards,
   isMyTurn,
   showCards,
@@ -32,7 +35,8 @@ export const HandComponent: React.FC<HandComponentProps> = ({
   onDiscard,
   canMeld = false,
   canDiscard = false,
-  requiredAction = 'none'
+  requiredAction = 'none',
+  pendingCardIds = []
 }) => {
   const handleCardClick = (card: Card) => {
     if (onCardSelect) {
@@ -61,13 +65,16 @@ export const HandComponent: React.FC<HandComponentProps> = ({
     }
   };
 
+  const hand = player.hand ?? [];
+  const stagedCards = player.stagedCards ?? [];
+
   const getHandStats = () => {
-    const stats = player.getHandStats();
+    const jokerCount = hand.filter(card => card.isJoker).length;
     return {
-      totalCards: stats.totalCards,
-      jokerCount: stats.jokerCount,
-      hasJokers: stats.jokerCount > 0,
-      isFull: stats.totalCards > 7
+      totalCards: player.handCount,
+      jokerCount,
+      hasJokers: jokerCount > 0,
+      isFull: player.handCount > 7
     };
   };
 
@@ -78,7 +85,7 @@ export const HandComponent: React.FC<HandComponentProps> = ({
       case 'discard':
         return '🎯 Wajib membuang 1 kartu (8 → 7)';
       case 'meld':
-        return '⚠️ Wajib menurunkan kombinasi setelah ambil dari discard pile';
+        return '⚠️ Wajib menurunkan kartu bertanda dari discard pile sebelum membuang';
       default:
         return null;
     }
@@ -87,11 +94,11 @@ export const HandComponent: React.FC<HandComponentProps> = ({
   const getActionHint = () => {
     if (!isMyTurn) return null;
 
-    if (!player.hasLaidRunMeld()) {
+    if (!player.hasLaidRun) {
       return '💡 Wajib menurunkan Urutan (Run) terlebih dahulu';
     }
 
-    if (player.canWin()) {
+    if (canPlayerViewWin(player)) {
       return '🎯 Siap Memukul! Tinggal 1 kartu lagi';
     }
 
@@ -104,7 +111,7 @@ export const HandComponent: React.FC<HandComponentProps> = ({
       <div className="flex justify-between items-center mb-4">
         <div>
           <h3 className="text-black font-medium">
-            {showCards ? 'Kartu Saya' : 'Kartu Lawan'} ({stats.totalCards})
+            {title ?? `${showCards ? 'Kartu Saya' : 'Kartu Lawan'} (${stats.totalCards})`}
           </h3>
           {stats.hasJokers && (
             <div className="text-sm text-yellow-600">
@@ -133,20 +140,49 @@ export const HandComponent: React.FC<HandComponentProps> = ({
         </div>
       )}
 
+      {/* Meld Area - cards taken from under the top of the discard pile */}
+      {showCards && stagedCards.length > 0 && (
+        <div className="mb-4 p-3 border-2 border-dashed border-orange-400 rounded-lg">
+          <div className="text-xs text-orange-700 font-medium mb-2 text-center">
+            Area Meld - wajib diturunkan
+          </div>
+          <div className="flex flex-wrap gap-2 justify-center">
+            {stagedCards.map(card => (
+              <CardComponent
+                key={card.id}
+                card={card}
+                isSelected={selectedCards.includes(card.id)}
+                isClickable={isMyTurn}
+                isDisabled={!isMyTurn}
+                isHoverable={isMyTurn}
+                onClick={handleCardClick}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Cards Display */}
       <div className="flex flex-wrap gap-2 justify-center mb-4">
         {showCards ? (
-          player.getHand().map(card => (
-            <CardComponent
+          hand.map(card => (
+            // Cards can be dragged onto a meld on the table to lay them off
+            <div
               key={card.id}
-              card={card}
-              isSelected={selectedCards.includes(card.id)}
-              isClickable={isMyTurn}
-              isDisabled={!isMyTurn}
-              isHoverable={isMyTurn}
-              showTooltip={isMyTurn}
-              onClick={handleCardClick}
-            />
+              draggable={isMyTurn}
+              onDragStart={(event) => event.dataTransfer.setData('text/plain', card.id)}
+              className={pendingCardIds.includes(card.id) ? 'rounded-lg ring-2 ring-orange-400' : undefined}
+            >
+              <CardComponent
+                card={card}
+                isSelected={selectedCards.includes(card.id)}
+                isClickable={isMyTurn}
+                isDisabled={!isMyTurn}
+                isHoverable={isMyTurn}
+                showTooltip={isMyTurn}
+                onClick={handleCardClick}
+              />
+            </div>
           ))
         ) : (
           // Hidden cards for opponents
@@ -216,7 +252,7 @@ export const HandComponent: React.FC<HandComponentProps> = ({
       )}
 
       {/* Winning Indicator */}
-      {showCards && player.canWin() && (
+      {showCards && canPlayerViewWin(player) && (
         <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
           <p className="text-green-700 font-medium text-center">
             🎯 Anda bisa menang! Tinggal 1 kartu lagi
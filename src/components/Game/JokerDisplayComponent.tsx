@@ -1,10 +1,12 @@
 import React from 'react';
 import { Card } from '../../game/Card';
+import { DEFAULT_RULE_SET, RuleSet } from '../../game/RuleSet';
 import CardComponent from './CardComponent';
 
 interface JokerDisplayComponentProps {
   jokerReferenceCard?: Card;
   jokerCards: Card[];
+  rules?: RuleSet;
   compact?: boolean;
   className?: string;
 }
@@ -12,6 +14,7 @@ interface JokerDisplayComponentProps {
 export const JokerDisplayComponent: React.FC<JokerDisplayComponentProps> = ({
   jokerReferenceCard,
   jokerCards,
+  rules = DEFAULT_RULE_SET,
   compact = false,
   className = ''
 }) => {
@@ -99,8 +102,8 @@ export const JokerDisplayComponent: React.FC<JokerDisplayComponentProps> = ({
           <ul className="text-xs space-y-1 ml-4">
             <li>• Joker bisa mengganti kartu apa pun</li>
             <li>• Bisa digunakan untuk Run (urutan) atau Set (grup)</li>
-            <li>• Nilai Joker: +10 poin jika digunakan, -25 poin jika tidak</li>
-            <li>• Nilai kemenangan: 250 poin jika menang dengan Joker</li>
+            <li>• Nilai Joker: sama dengan kartu yang digantikannya jika digunakan, -{rules.unusedJokerPenalty} poin jika tidak</li>
+            <li>• Nilai kemenangan: {rules.jokerWinningValue} poin jika menang dengan Joker</li>
           </ul>
         </div>
       </div>
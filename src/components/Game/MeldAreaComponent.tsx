@@ -1,24 +1,37 @@
-import React from 'react';
-import { Meld } from '../../game/Card';
-import { Player } from '../../game/Player';
+import React, { useState } from 'react';
+import { Card, Meld } from '../../game/Card';
+import { PlayerView } from '../../game/GameView';
+import { DEFAULT_RULE_SET, RuleSet } from '../../game/RuleSet';
+import { ScoreManager } from '../../game/ScoreManager';
 import CardComponent from './CardComponent';
 
 interface MeldAreaComponentProps {
-  player: Player;
+  player: PlayerView;
+  rules?: RuleSet;
   showPlayerName?: boolean;
   compact?: boolean;
   className?: string;
   onMeldClick?: (meld: Meld) => void;
+  // Lay off the selected cards (plus a card dropped from the hand) onto a meld
+  onExtendMeld?: (meld: Meld, droppedCardId?: string) => void;
+  // Swap a melded joker for the single selected card
+  onSwapJoker?: (meld: Meld, jokerCardId: string) => void;
+  selectedCount?: number;
 }
 
 export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
   player,
+  rules = DEFAULT_RULE_SET,
   showPlayerName = false,
   compact = false,
   className = '',
-  onMeldClick
+  onMeldClick,
+  onExtendMeld,
+  onSwapJoker,
+  selectedCount = 0
 }) => {
-  const melds = player.getMelds();
+  const melds = player.melds;
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
   const handleMeldClick = (meld: Meld) => {
     if (onMeldClick) {
@@ -26,6 +39,28 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
     }
   };
 
+  const handleDragOver = (event: React.DragEvent, meld: Meld) => {
+    if (!onExtendMeld) return;
+    event.preventDefault();
+    setDropTargetId(meld.id);
+  };
+
+  const handleDrop = (event: React.DragEvent, meld: Meld) => {
+    if (!onExtendMeld) return;
+    event.preventDefault();
+    setDropTargetId(null);
+    onExtendMeld(meld, event.dataTransfer.getData('text/plain') || undefined);
+  };
+
+  // Show which natural card a joker stands in for, e.g. "= 6♥️"
+  const getJokerLabel = (meld: Meld, card: Card) => {
+    const assignment = meld.getJokerAssignment(card.id);
+    if (!assignment) return null;
+    return `= ${new Card(assignment.suit, assignment.rank).getDisplay()}`;
+  };
+
+  const canSwapJoker = !!onSwapJoker && selectedCount === 1;
+
   const getMeldTypeLabel = (meld: Meld) => {
     if (meld.isRun()) {
       return 'Run (Urutan)';
@@ -44,8 +79,9 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
     return 'bg-gray-100 text-gray-800 border-gray-300';
   };
 
+  // Jokers count as the card they stand in for (Rul-007A)
   const getMeldValue = (meld: Meld) => {
-    return meld.cards.reduce((total, card) => total + card.value, 0);
+    return ScoreManager.calculateMeldValue(meld, rules);
   };
 
   if (melds.length === 0) {
@@ -53,7 +89,7 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
       <div className={`bg-white border border-black rounded-lg p-4 ${className}`}>
         <div className="text-center text-gray-500">
           <p className="text-sm">Belum ada kombinasi</p>
-          {!player.hasLaidRunMeld() && (
+          {!player.hasLaidRun && (
             <p className="text-xs mt-1">Wajib menurunkan Urutan (Run) terlebih dahulu</p>
           )}
         </div>
@@ -73,7 +109,7 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
             {melds.length}
           </span>
         </div>
-        {!player.hasLaidRunMeld() && (
+        {!player.hasLaidRun && (
           <div className="text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded">
             Belum ada Run wajib
           </div>
@@ -87,8 +123,13 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
             key={meld.id}
             className={`border rounded-lg p-3 transition-all duration-200 ${
               onMeldClick ? 'cursor-pointer hover:shadow-md' : ''
-            } ${compact ? 'border-gray-300' : 'border-black'}`}
+            } ${dropTargetId === meld.id
+              ? 'border-blue-500 bg-blue-50'
+              : compact ? 'border-gray-300' : 'border-black'}`}
             onClick={() => handleMeldClick(meld)}
+            onDragOver={(event) => handleDragOver(event, meld)}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(event) => handleDrop(event, meld)}
           >
             {/* Meld Header */}
             <div className="flex justify-between items-center mb-2">
@@ -112,19 +153,45 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
 
             {/* Cards in Meld */}
             <div className={`flex ${compact ? 'gap-1' : 'gap-2'} justify-center`}>
-              {meld.cards.map((card, cardIndex) => (
-                <CardComponent
-                  key={card.id}
-                  card={card}
-                  size={compact ? 'small' : 'medium'}
-                  isClickable={false}
-                  isDisabled={true}
-                  showTooltip={!compact}
-                  className={`${compact ? '' : 'transform transition-transform hover:scale-105'}`}
-                />
-              ))}
+              {meld.cards.map((card, cardIndex) => {
+                const jokerLabel = getJokerLabel(meld, card);
+                const swappable = canSwapJoker && !!jokerLabel;
+
+                return (
+                  <div key={card.id} className="flex flex-col items-center">
+                    <CardComponent
+                      card={card}
+                      size={compact ? 'small' : 'medium'}
+                      isClickable={swappable}
+                      isDisabled={!swappable}
+                      isHoverable={swappable}
+                      showTooltip={!compact}
+                      onClick={() => swappable && onSwapJoker!(meld, card.id)}
+                      className={`${compact ? '' : 'transform transition-transform hover:scale-105'} ${
+                        swappable ? 'ring-2 ring-purple-400' : ''
+                      }`}
+                    />
+                    {jokerLabel && (
+                      <span className="text-xs text-purple-600 mt-1">{jokerLabel}</span>
+                    )}
+                  </div>
+                );
+              })}
             </div>
 
+            {/* Lay off selected cards */}
+            {onExtendMeld && selectedCount > 0 && (
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onExtendMeld(meld);
+                }}
+                className="mt-2 w-full px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+              >
+                Tambahkan {selectedCount} kartu ke sini
+              </button>
+            )}
+
             {/* Meld Details (non-compact) */}
             {!compact && (
               <div className="mt-2 text-center">
@@ -156,7 +223,7 @@ export const MeldAreaComponent: React.FC<MeldAreaComponentProps> = ({
         <div className="flex justify-between items-center text-sm mt-1">
           <span className="text-gray-600">Meld bonus:</span>
           <span className="font-medium text-black">
-            +{melds.reduce((total, meld) => total + 10 + (meld.getSize() === 4 ? 5 : 0), 0)} poin
+            +{ScoreManager.calculateMeldBonus(melds, rules)} poin
           </span>
         </div>
       </div>
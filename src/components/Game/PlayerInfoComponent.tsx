@@ -1,8 +1,8 @@
 import React from 'react';
-import { Player } from '../../game/Card';
+import { PlayerView, canPlayerViewWin, hasPlayerViewWon } from '../../game/GameView';
 
 interface PlayerInfoComponentProps {
-  player: Player;
+  player: PlayerView;
   isCurrentPlayer: boolean;
   isMyPlayer: boolean;
   showDetailedInfo?: boolean;
@@ -17,26 +17,26 @@ export const PlayerInfoComponent: React.FC<PlayerInfoComponentProps> = ({
   className = ''
 }) => {
   const getConnectionStatusColor = () => {
-    return player.isConnected()
+    return player.connected
       ? 'text-green-600 bg-green-50 border-green-200'
       : 'text-red-600 bg-red-50 border-red-200';
   };
 
   const getReadyStatusColor = () => {
-    return player.isReady()
+    return player.ready
       ? 'text-green-600 bg-green-50 border-green-200'
       : 'text-gray-600 bg-gray-50 border-gray-200';
   };
 
   const getHandStats = () => {
-    const stats = player.getHandStats();
+    // Opponent hands are hidden, so jokers are only counted for the viewer
     return {
-      totalCards: stats.totalCards,
-      jokerCount: stats.jokerCount,
-      meldCount: player.getMeldCount(),
-      hasLaidRun: player.hasLaidRunMeld(),
-      canWin: player.canWin(),
-      hasWon: player.hasWon()
+      totalCards: player.handCount,
+      jokerCount: player.hand ? player.hand.filter(card => card.isJoker).length : 0,
+      meldCount: player.melds.length,
+      hasLaidRun: player.hasLaidRun,
+      canWin: canPlayerViewWin(player),
+      hasWon: hasPlayerViewWon(player)
     };
   };
 
@@ -71,7 +71,7 @@ export const PlayerInfoComponent: React.FC<PlayerInfoComponentProps> = ({
   };
 
   return (
-    <div className={`border-2 ${getBorderColor()} rounded-lg p-4 ${className}`}>
+    <div className={`border-2 ${getBorderColor()} rounded-lg p-4 ${player.connected ? '' : 'opacity-75'} ${className}`}>
       {/* Player Header */}
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center space-x-3">
@@ -94,8 +94,12 @@ export const PlayerInfoComponent: React.FC<PlayerInfoComponentProps> = ({
                 </span>
               )}
             </div>
-            <div className={`text-sm ${isMyPlayer ? 'text-gray-300' : 'text-gray-600'}`}>
-              {player.isConnected() ? 'Online' : 'Offline'}
+            <div className={`text-sm ${
+              player.connected ? (isMyPlayer ? 'text-gray-300' : 'text-gray-600') : 'text-red-500'
+            }`}>
+              {player.connected ? 'Online' : 'Offline'}
+              {/* The server plays an offline player's turn after a grace period */}
+              {!player.connected && isCurrentPlayer && ' - giliran akan dimainkan otomatis'}
             </div>
           </div>
         </div>
@@ -125,7 +129,7 @@ export const PlayerInfoComponent: React.FC<PlayerInfoComponentProps> = ({
         <div className="flex justify-between">
           <span className={isMyPlayer ? 'text-gray-300' : 'text-gray-600'}>Score:</span>
           <span className={`font-medium ${isMyPlayer ? 'text-white' : 'text-black'}`}>
-            {player.getScore()}
+            {player.score}
           </span>
         </div>
       </div>
@@ -160,13 +164,13 @@ export const PlayerInfoComponent: React.FC<PlayerInfoComponentProps> = ({
           <div className="flex justify-between">
             <span className={isMyPlayer ? 'text-gray-300' : 'text-gray-600'}>Connection:</span>
             <span className={`px-2 py-1 rounded ${getConnectionStatusColor()}`}>
-              {player.isConnected() ? 'Connected' : 'Disconnected'}
+              {player.connected ? 'Connected' : 'Disconnected'}
             </span>
           </div>
           <div className="flex justify-between">
             <span className={isMyPlayer ? 'text-gray-300' : 'text-gray-600'}>Ready:</span>
             <span className={`px-2 py-1 rounded ${getReadyStatusColor()}`}>
-              {player.isReady() ? 'Ready' : 'Not Ready'}
+              {player.ready ? 'Ready' : 'Not Ready'}
             </span>
           </div>
           <div className="flex justify-between">
@@ -0,0 +1,91 @@
+import React from 'react';
+import { MatchView } from '../../game/Match';
+import { ScoreManager } from '../../game/ScoreManager';
+
+interface ScoreboardComponentProps {
+  match: MatchView;
+  myPlayerId?: string;
+  className?: string;
+}
+
+export const ScoreboardComponent: React.FC<ScoreboardComponentProps> = ({
+  match,
+  myPlayerId,
+  className = ''
+}) => {
+  const lastRound = match.rounds[match.rounds.length - 1];
+  const jokerGrantPlayer = match.scoreboard.find(score => score.playerId === lastRound?.jokerGrant);
+
+  // Score of one player in one round, if they played it
+  const getRoundScore = (playerId: string, roundIndex: number) => {
+    return match.rounds[roundIndex]?.scores.find(score => score.playerId === playerId);
+  };
+
+  return (
+    <div className={`bg-white border border-black rounded-lg p-4 ${className}`}>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-black font-medium">Papan Skor</h3>
+        <span className="text-sm text-gray-600">
+          Ronde {match.rounds.length} / {match.settings.rounds}
+          {match.settings.targetScore !== undefined && ` • Target ${match.settings.targetScore}`}
+        </span>
+      </div>
+
+      {/* Score Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2 font-medium">Pemain</th>
+              {match.rounds.map(round => (
+                <th key={round.round} className="text-right py-2 font-medium">R{round.round}</th>
+              ))}
+              <th className="text-right py-2 font-medium">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {match.scoreboard.map((score, index) => (
+              <tr
+                key={score.playerId}
+                className={`border-b border-gray-100 ${score.playerId === myPlayerId ? 'bg-gray-50' : ''}`}
+              >
+                <td className="py-2 text-black">
+                  {index === 0 && match.rounds.length > 0 && '👑 '}
+                  {score.displayName}
+                  {score.wins > 0 && (
+                    <span className="ml-1 text-xs text-gray-500">({score.wins}x menang)</span>
+                  )}
+                </td>
+                {match.rounds.map((round, roundIndex) => {
+                  const roundScore = getRoundScore(score.playerId, roundIndex);
+                  return (
+                    <td
+                      key={round.round}
+                      className={`text-right py-2 ${ScoreManager.getScoreColor(roundScore?.totalScore ?? 0)}`}
+                    >
+                      {roundScore ? ScoreManager.formatSignedScore(roundScore.totalScore) : '-'}
+                      {roundScore?.isWinner && ' 🏆'}
+                    </td>
+                  );
+                })}
+                <td className="text-right py-2 font-bold text-black">
+                  {ScoreManager.formatScore(score.totalScore)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Joker Grant */}
+      {match.status === 'betweenRounds' && jokerGrantPlayer && (
+        <div className="mt-3 p-2 bg-yellow-50 border border-yellow-300 rounded text-xs text-yellow-800 text-center">
+          🃏 {jokerGrantPlayer.displayName} mendapat 1 Joker di ronde berikutnya (poin tertinggi ronde ini)
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreboardComponent;
@@ -1,27 +1,45 @@
-import React from 'react';
-import { TurnManager } from '../../game/TurnManager';
-import { Player } from '../../game/Player';
+import React, { useEffect, useState } from 'react';
+import { GameView, PlayerView, canPlayerViewWin, getCurrentPlayerView, getTurnOrder } from '../../game/GameView';
 
 interface TurnIndicatorComponentProps {
-  turnManager: TurnManager;
-  players: Player[];
+  view: GameView;
   isMyTurn: boolean;
-  myPlayer?: Player;
+  myPlayer?: PlayerView;
   className?: string;
 }
 
 export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
-  turnManager,
-  players,
+  view,
   isMyTurn,
   myPlayer,
   className = ''
 }) => {
-  const currentPlayer = turnManager.getCurrentPlayer();
-  const turnNumber = turnManager.getTurnNumber();
-  const roundNumber = turnManager.getRoundNumber();
-  const turnDuration = turnManager.getCurrentTurnDuration();
-  const direction = turnManager.getDirection();
+  const currentPlayer = getCurrentPlayerView(view);
+  const turnNumber = view.turnNumber;
+  const roundNumber = Math.floor((view.turnNumber - 1) / view.players.length) + 1;
+
+  // Tick every second. The countdown starts from the time left the server
+  // counted for this view, so the two clocks do not have to agree.
+  const [now, setNow] = useState(Date.now());
+  const [receivedAt, setReceivedAt] = useState(Date.now());
+  useEffect(() => {
+    setReceivedAt(Date.now());
+    setNow(Date.now());
+  }, [view]);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const turnDuration = now - view.turnStartTime;
+  const timeLeft = view.turnTimeLeft !== undefined
+    ? Math.max(0, view.turnTimeLeft - (now - receivedAt))
+    : undefined;
+  // Past the turn limit the player is using up their time bank
+  const turnLimitLeft = timeLeft !== undefined ? Math.max(0, timeLeft - currentPlayer.timeBank) : undefined;
+  const usingTimeBank = turnLimitLeft === 0 && !!timeLeft;
+  const direction = view.direction;
+  const starterCard = view.discardPile[0]; // Face-up starter card until the opening discard
 
   // Format duration
   const formatDuration = (ms: number) => {
@@ -37,40 +55,35 @@ export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
 
   // Get turn urgency color
   const getUrgencyColor = () => {
-    const seconds = turnDuration / 1000;
-    if (seconds > 60) return 'text-green-600';
-    if (seconds > 30) return 'text-yellow-600';
-    return 'text-red-600';
+    if (timeLeft === undefined) return 'text-black';
+    if (usingTimeBank || timeLeft <= 10000) return 'text-red-600';
+    if (turnLimitLeft! <= 30000) return 'text-yellow-600';
+    return 'text-green-600';
   };
 
   // Get action hint
   const getActionHint = () => {
     if (!isMyTurn) return null;
 
-    if (turnManager.lastDrawWasFromDiscard()) {
+    if (view.pendingMeldCardIds.length > 0) {
       return '⚠️ Wajib menurunkan kombinasi';
     }
 
-    if (!turnManager.hasFirstPlayerDiscarded() && turnManager.getCurrentPlayerIndex() === 0) {
+    if (!view.firstPlayerDiscarded) {
       return '🎯 Wajib membuang 1 kartu (8 → 7)';
     }
 
-    if (myPlayer && !myPlayer.hasLaidRunMeld()) {
+    if (myPlayer && !myPlayer.hasLaidRun) {
       return '💡 Wajib menurunkan Urutan (Run) terlebih dahulu';
     }
 
-    if (myPlayer && myPlayer.canWin()) {
+    if (myPlayer && canPlayerViewWin(myPlayer)) {
       return '🎯 Siap Memukul! Tinggal 1 kartu lagi';
     }
 
     return 'Pilih aksi Anda';
   };
 
-  // Get turn order
-  const getTurnOrder = () => {
-    return turnManager.getTurnOrder();
-  };
-
   return (
     <div className={`bg-white border border-black rounded-lg p-4 ${className}`}>
       {/* Main Turn Display */}
@@ -87,14 +100,24 @@ export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
         </div>
       </div>
 
-      {/* Turn Timer */}
+      {/* Turn Timer: a countdown when the room has a turn limit */}
       <div className="text-center mb-4">
         <div className={`text-2xl font-mono font-bold ${getUrgencyColor()}`}>
-          {formatDuration(turnDuration)}
+          {formatDuration(timeLeft === undefined ? turnDuration : usingTimeBank ? timeLeft : turnLimitLeft!)}
         </div>
         <div className="text-xs text-gray-500">
-          Waktu giliran
+          {timeLeft === undefined ? 'Waktu giliran' : usingTimeBank ? 'Memakai bank waktu' : 'Sisa waktu giliran'}
         </div>
+        {timeLeft !== undefined && view.rules.timeBank > 0 && !usingTimeBank && (
+          <div className="text-xs text-gray-500 mt-1">
+            Bank waktu: {formatDuration(currentPlayer.timeBank)}
+          </div>
+        )}
+        {timeLeft === 0 && (
+          <div className="text-xs text-red-600 mt-1">
+            Waktu habis, giliran dimainkan otomatis
+          </div>
+        )}
       </div>
 
       {/* Action Hint */}
@@ -123,7 +146,7 @@ export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
       <div className="border-t border-gray-200 pt-3">
         <h4 className="text-sm font-medium text-black mb-2">Urutan Giliran:</h4>
         <div className="flex justify-center space-x-2">
-          {getTurnOrder().map((player, index) => {
+          {getTurnOrder(view).map((player, index) => {
             const isCurrentPlayer = player.id === currentPlayer.id;
             const isMe = myPlayer && player.id === myPlayer.id;
 
@@ -172,13 +195,13 @@ export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
           <div className="text-center">
             <div className="text-gray-600">Rata-rata waktu:</div>
             <div className="font-medium text-black">
-              {formatDuration(turnManager.getAverageTurnDuration())}
+              {formatDuration(view.averageTurnDuration)}
             </div>
           </div>
           <div className="text-center">
             <div className="text-gray-600">Total giliran:</div>
             <div className="font-medium text-black">
-              {turnManager.getTurnNumber()}
+              {view.turnNumber}
             </div>
           </div>
         </div>
@@ -186,14 +209,20 @@ export const TurnIndicatorComponent: React.FC<TurnIndicatorComponentProps> = ({
 
       {/* Special Status Indicators */}
       <div className="mt-3 space-y-2">
-        {!turnManager.hasFirstPlayerDiscarded() && (
-          <div className="text-center">
-            <span className="px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded border border-orange-300">
-              🎯 Menunggu buangan pertama
-            </span>
+        {!view.firstPlayerDiscarded && (
+          <div className="p-2 bg-orange-50 border border-orange-300 rounded-lg text-xs text-orange-700 text-center space-y-1">
+            <div className="font-medium">🎯 Giliran pembuka</div>
+            <div>
+              {isMyTurn ? 'Anda memegang' : `${currentPlayer.displayName} memegang`} {view.rules.handSize + 1} kartu dan wajib membuang 1 kartu
+            </div>
+            {starterCard && (
+              <div>
+                Kartu awal terbuka: {starterCard.getDisplay(view.activeJokerValue)}
+              </div>
+            )}
           </div>
         )}
-        {turnManager.lastDrawWasFromDiscard() && isMyTurn && (
+        {view.pendingMeldCardIds.length > 0 && isMyTurn && (
           <div className="text-center">
             <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded border border-red-300">
               ⚠️ Wajib menurunkan kombinasi
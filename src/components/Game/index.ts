@@ -7,4 +7,5 @@ export { default as DiscardPileComponent } from './DiscardPileComponent';
 export { default as PlayerInfoComponent } from './PlayerInfoComponent';
 export { default as JokerDisplayComponent } from './JokerDisplayComponent';
 export { default as TurnIndicatorComponent } from './TurnIndicatorComponent';
-export { default as GameControlsComponent } from './GameControlsComponent';
\ No newline at end of file
+export { default as GameControlsComponent } from './GameControlsComponent';
+export { default as ScoreboardComponent } from './ScoreboardComponent';
\ No newline at end of file
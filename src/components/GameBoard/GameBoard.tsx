@@ -1,17 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../hooks/useAuthStore';
-import { subscribeToRoom } from '../../services/firebase';
-import { Game } from '../../game/Game';
+import { sendCommand, subscribeToGame } from '../../services/gameServer';
 import { Card } from '../../game/Card';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../services/firebase';
+import { GameCommand } from '../../game/GameCommand';
+import { GameView, canPlayerViewWin, getCurrentPlayerView, getDiscardPickupCounts, getPlayerView } from '../../game/GameView';
 
 const GameBoard: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
   const { user } = useAuthStore();
-  const [game, setGame] = useState<Game | null>(null);
+  const [view, setView] = useState<GameView | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [selectedCards, setSelectedCards] = useState<string[]>([]);
@@ -25,24 +24,19 @@ const GameBoard: React.FC = () => {
       return;
     }
 
-    const unsubscribe = subscribeToRoom(roomId, (data) => {
-      if (data.gameData) {
-        // Reconstruct Game object from saved data
-        const gameObj = Game.fromData(data.gameData);
-        setGame(gameObj);
-      }
+    // Same source as GameBoardNew: the game server pushes this seat's view
+    // and runs every rule, so both boards play the same game
+    const unsubscribe = subscribeToGame(roomId, (gameView) => {
+      setView(gameView);
+      setLoading(false);
+    }, (err) => {
+      setError(err.message);
       setLoading(false);
-
-      // Redirect if game is finished
-      if (data.status === 'finished') {
-        // Handle game finished state
-      }
     });
 
     return () => unsubscribe();
   }, [roomId, user, navigate]);
 
-  
   const handleCardSelect = (cardId: string) => {
     setSelectedCards(prev =>
       prev.includes(cardId)
@@ -110,29 +104,13 @@ const GameBoard: React.FC = () => {
     return sortCards(hand, sortBy);
   };
 
-  const handleDrawCard = async (fromDiscard: boolean = false, drawCount?: number) => {
-    if (!game || !user || !roomId) return;
-
-    const currentPlayer = game.getCurrentPlayer();
-    if (currentPlayer.id !== user.uid) return;
+  // Send an intent command; the server pushes the resulting state back
+  const submitCommand = async (command: GameCommand) => {
+    if (!view || !user || !roomId) return;
+    if (getCurrentPlayerView(view).id !== user.uid) return;
 
     try {
-      // Draw card using Game class
-      if (fromDiscard && drawCount) {
-        await game.drawCard(user.uid, true, drawCount);
-      } else {
-        await game.drawCard(user.uid, false);
-      }
-
-      // Update Firebase with new game state
-      if (roomId) {
-        const roomRef = doc(db, 'rooms', roomId);
-        await updateDoc(roomRef, {
-          'gameData': game.getDataForFirestore(),
-          lastUpdate: serverTimestamp()
-        });
-      }
-
+      await sendCommand(roomId, command);
       setSelectedCards([]);
       setError('');
     } catch (err: any) {
@@ -140,69 +118,19 @@ const GameBoard: React.FC = () => {
     }
   };
 
-  const handleDiscardCard = async (cardId: string) => {
-    if (!game || !user || !roomId) return;
-
-    const currentPlayer = game.getCurrentPlayer();
-    if (currentPlayer.id !== user.uid) return;
-
-    try {
-      // Discard card using Game class
-      await game.discardCard(user.uid, cardId);
-
-      // Update Firebase with new game state
-      if (roomId) {
-        const roomRef = doc(db, 'rooms', roomId);
-        await updateDoc(roomRef, {
-          'gameData': game.getDataForFirestore(),
-          lastUpdate: serverTimestamp()
-        });
-      }
-
-      setSelectedCards([]);
-      setError('');
+  const handleDrawCard = async (fromDiscard: boolean = false, drawCount?: number) => {
+    await submitCommand({ type: 'draw', fromDiscard, count: fromDiscard ? drawCount : undefined });
+  };
 
-      // Check if game is finished
-      if (game.isFinished()) {
-        // Handle game finished state
-        const winner = game.getWinner();
-        if (winner === user.uid) {
-          setError('🎉 Selamat! Anda menang dengan Memukul!');
-        }
-      }
-    } catch (err: any) {
-      setError(err.message);
-    }
+  const handleDiscardCard = async (cardId: string) => {
+    await submitCommand({ type: 'discard', cardId });
   };
 
   const handleMeldCards = async () => {
-    if (!game || !user || !roomId || selectedCards.length < 3) return;
-
-    const currentPlayer = game.getCurrentPlayer();
-    if (currentPlayer.id !== user.uid) return;
-
-    try {
-      // Create meld using Game class
-      await game.createMeld(user.uid, selectedCards);
-
-      // Update Firebase with new game state
-      if (roomId) {
-        const roomRef = doc(db, 'rooms', roomId);
-        await updateDoc(roomRef, {
-          'gameData': game.getDataForFirestore(),
-          lastUpdate: serverTimestamp()
-        });
-      }
-
-      setSelectedCards([]);
-      setError('');
-    } catch (err: any) {
-      setError(err.message);
-    }
+    if (selectedCards.length < 3) return;
+    await submitCommand({ type: 'meld', cardIds: selectedCards });
   };
 
-  
-  
   const getPlayerColor = (playerId: string) => {
     const colors = [
       'bg-blue-500',
@@ -214,7 +142,7 @@ const GameBoard: React.FC = () => {
       'bg-indigo-500',
       'bg-gray-500'
     ];
-    const playerIndex = gameData?.players.findIndex((p: any) => p.id === playerId) ?? 0;
+    const playerIndex = view?.players.findIndex(p => p.id === playerId) ?? 0;
     return colors[playerIndex % colors.length];
   };
 
@@ -226,18 +154,22 @@ const GameBoard: React.FC = () => {
     );
   }
 
-  if (!game) {
+  if (!view) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-white">
-        <div className="text-black text-xl">Game tidak ditemukan</div>
+        <div className="text-black text-xl">{error || 'Game tidak ditemukan'}</div>
       </div>
     );
   }
 
-  const currentPlayer = game.getCurrentPlayer();
-  const isMyTurn = currentPlayer?.id === user?.uid;
-  const myPlayer = game.getPlayer(user?.uid || '');
-  const gameData = game.getData();
+  const currentPlayer = getCurrentPlayerView(view);
+  const isMyTurn = view.status === 'playing' && currentPlayer.id === user?.uid;
+  const myPlayer = getPlayerView(view, user?.uid);
+  const myHand = myPlayer?.hand ?? [];
+  // Rule state comes from the engine's view, never from checks of our own
+  const mustDiscardFirst = !view.firstPlayerDiscarded && currentPlayer.handCount === view.rules.handSize + 1;
+  const mustMeld = view.pendingMeldCardIds.length > 0;
+  const pickupCounts = isMyTurn ? getDiscardPickupCounts(view, user?.uid) : [];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -248,11 +180,11 @@ const GameBoard: React.FC = () => {
             <div className="flex items-center space-x-6">
               <div>
                 <h1 className="text-2xl font-bold text-black">Room: {roomId}</h1>
-                <span className="text-sm text-gray-600">Ronde {gameData.currentRound}</span>
+                <span className="text-sm text-gray-600">Ronde {view.currentRound}</span>
               </div>
               <div className="hidden sm:block">
                 <span className="px-3 py-1 bg-black text-white text-sm rounded-full">
-                  Status: {gameData.status === 'playing' ? 'Bermain' : gameData.status}
+                  Status: {view.status === 'playing' ? 'Bermain' : view.status}
                 </span>
               </div>
             </div>
@@ -260,7 +192,7 @@ const GameBoard: React.FC = () => {
               <div className="text-lg font-bold text-black">
                 {currentPlayer?.displayName}
               </div>
-              <div className="text-sm text-gray-600">Sedang Bermain ({gameData.currentTurnPhase})</div>
+              <div className="text-sm text-gray-600">Sedang Bermain ({view.currentTurnPhase})</div>
             </div>
           </div>
         </div>
@@ -276,7 +208,7 @@ const GameBoard: React.FC = () => {
 
 
         {/* Joker Reference Card Display */}
-        {gameData.jokerReferenceCard && (
+        {view.jokerReferenceCard && (
           <div className="bg-white border-2 border-black rounded-xl shadow-lg p-6 mb-6">
             <div className="text-center">
               <h3 className="text-black font-medium mb-2">Kartu Joker</h3>
@@ -284,8 +216,8 @@ const GameBoard: React.FC = () => {
                 <div className="text-center">
                   <p className="text-sm text-gray-600 mb-2">Referensi</p>
                   <div className="w-16 h-24 bg-white border-2 border-black rounded-lg flex items-center justify-center text-2xl font-bold shadow-lg">
-                    <span className={getCardColor(gameData.jokerReferenceCard)}>
-                      {getCardDisplay(gameData.jokerReferenceCard)}
+                    <span className={getCardColor(view.jokerReferenceCard)}>
+                      {getCardDisplay(view.jokerReferenceCard)}
                     </span>
                   </div>
                 </div>
@@ -296,7 +228,7 @@ const GameBoard: React.FC = () => {
                   </div>
                 </div>
                 <div className="text-left">
-                  <p className="text-sm text-gray-600">Semua kartu {gameData.jokerReferenceCard.rank} menjadi Joker</p>
+                  <p className="text-sm text-gray-600">Semua kartu {view.jokerReferenceCard.rank} menjadi Joker</p>
                   <p className="text-xs text-gray-500">Kecuali kartu referensi di atas</p>
                 </div>
               </div>
@@ -306,7 +238,7 @@ const GameBoard: React.FC = () => {
 
         {/* Other Players */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          {gameData.players.filter(p => p.id !== user?.uid).map(player => (
+          {view.players.filter(p => p.id !== user?.uid).map(player => (
             <div key={player.id} className="bg-white border-2 border-black rounded-lg shadow-md p-4">
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-black font-medium">{player.displayName}</h3>
@@ -317,7 +249,7 @@ const GameBoard: React.FC = () => {
                 )}
               </div>
               <div className="text-sm text-gray-600">
-                Kartu: {player.hand.length} | Melds: {player.melds.length}
+                Kartu: {player.handCount} | Melds: {player.melds.length}
               </div>
               <div className="flex flex-wrap gap-1 mt-2">
                 {player.melds.map((meld, index) => (
@@ -339,18 +271,18 @@ const GameBoard: React.FC = () => {
                 <h3 className="text-black font-bold mb-3">Deck</h3>
                 <div className="inline-block">
                   <div className="relative">
-                    <div className={`w-20 h-28 ${gameData.deck.length === 0 ? 'bg-red-100 border-red-300' : 'bg-black'} border-2 border-black rounded-lg flex items-center justify-center text-white font-bold text-xl shadow-lg transition-all duration-200 ${
-                      isMyTurn && gameData.deck.length > 0 ? 'hover:scale-105 cursor-pointer' : ''
+                    <div className={`w-20 h-28 ${view.deckCount === 0 ? 'bg-red-100 border-red-300' : 'bg-black'} border-2 border-black rounded-lg flex items-center justify-center text-white font-bold text-xl shadow-lg transition-all duration-200 ${
+                      isMyTurn && view.deckCount > 0 ? 'hover:scale-105 cursor-pointer' : ''
                     }`}
-                         onClick={() => isMyTurn && gameData.deck.length > 0 && handleDrawCard(false)}>
-                      {gameData.deck.length === 0 ? (
+                         onClick={() => isMyTurn && view.deckCount > 0 && handleDrawCard(false)}>
+                      {view.deckCount === 0 ? (
                         <span className="text-red-500 text-3xl">🚫</span>
                       ) : (
-                        <span className="text-2xl">{gameData.deck.length}</span>
+                        <span className="text-2xl">{view.deckCount}</span>
                       )}
                     </div>
                     {/* Stacked cards effect */}
-                    {gameData.deck.length > 0 && (
+                    {view.deckCount > 0 && (
                       <>
                         <div className="w-20 h-28 bg-black border-2 border-black rounded-lg absolute -left-1 -top-1 opacity-30"></div>
                         <div className="w-20 h-28 bg-black border-2 border-black rounded-lg absolute -left-2 -top-2 opacity-20"></div>
@@ -359,16 +291,16 @@ const GameBoard: React.FC = () => {
                     )}
                   </div>
                   <div className="text-sm text-gray-600 mt-2 font-medium">
-                    {gameData.deck.length === 0 ? 'Deck Kosong' : `${gameData.deck.length} kartu tersisa`}
+                    {view.deckCount === 0 ? 'Deck Kosong' : `${view.deckCount} kartu tersisa`}
                   </div>
                 </div>
               {isMyTurn && (
                 <div className="mt-2 flex flex-col space-y-2">
-                  {gameData.currentTurnPhase === 'drawPhase' ? (
+                  {view.currentTurnPhase === 'drawPhase' ? (
                     // Draw phase - show draw options
                     (() => {
                       // Check if must discard first (first player with 8 cards)
-                      if (game.mustDiscardFirst()) {
+                      if (mustDiscardFirst) {
                         return (
                           <div className="space-y-2">
                             <p className="text-sm text-orange-600 font-medium">
@@ -381,54 +313,38 @@ const GameBoard: React.FC = () => {
                         );
                       }
 
-                      // Check if can draw from discard pile (need matching cards)
-                      const discardPile = game.getDiscardPile();
-                      const topCards = discardPile.getLastCards(3);
-                      const canDrawFromDiscard = topCards.some(card =>
-                        myPlayer?.getHand().some(handCard =>
-                          handCard.rank === card.rank && handCard.suit !== card.suit ||
-                          handCard.suit === card.suit && Math.abs(handCard.value - card.value) === 1
-                        )
-                      );
-
-                      if (canDrawFromDiscard && discardPile.getCount() > 0) {
-                        return (
-                          <div className="space-y-2">
-                            <p className="text-sm text-green-600 font-medium">
-                              ✅ Ada kartu yang cocok di discard pile
-                            </p>
+                      // The engine decides which pickups are allowed (GameValidator.validateDiscardPickup);
+                      // drawing from the deck is always an option
+                      return (
+                        <div className="space-y-2">
+                          {pickupCounts.map(count => (
                             <button
-                              onClick={() => handleDrawCard(true, 1)}
+                              key={count}
+                              onClick={() => handleDrawCard(true, count)}
                               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-sm border border-green-600 w-full"
                             >
-                              📤 Ambil dari Discard
+                              📤 Ambil {count} dari Discard
                             </button>
-                            <p className="text-xs text-orange-600">
-                              ⚠️ Wajib ambil dari discard pile
-                            </p>
-                          </div>
-                        );
-                      } else {
-                        return (
+                          ))}
                           <button
                             onClick={() => handleDrawCard(false)}
                             className="px-4 py-2 bg-black text-white rounded hover:bg-gray-800 transition-colors text-sm border border-black w-full"
-                            disabled={game.getDeck().isEmpty()}
+                            disabled={view.deckCount === 0}
                           >
                             🎴 Ambil 1 dari Deck
                           </button>
-                        );
-                      }
+                        </div>
+                      );
                     })()
                   ) : (
                     // Not draw phase
                     <div className="space-y-2">
                       <p className="text-sm text-gray-600">
-                        Fase: {gameData.currentTurnPhase === 'meldPhase' ? 'Menurunkan Kartu' : 'Membuang Kartu'}
+                        Fase: {view.currentTurnPhase === 'meldPhase' ? 'Menurunkan Kartu' : 'Membuang Kartu'}
                       </p>
-                      {gameData.currentTurnPhase === 'meldPhase' && (
+                      {view.currentTurnPhase === 'meldPhase' && (
                         <p className="text-xs text-gray-500">
-                          {game.lastDrawFromDiscard()
+                          {mustMeld
                             ? 'Wajib menurunkan kombinasi'
                             : 'Boleh menurunkan kombinasi'}
                         </p>
@@ -445,17 +361,10 @@ const GameBoard: React.FC = () => {
               <div className="bg-gray-50 border-2 border-black rounded-lg p-4">
                 <h3 className="text-black font-bold mb-3">Discard Pile</h3>
                 <div className="flex justify-center space-x-1">
-                {gameData.discardPile.length > 0 ? (
+                {view.discardPile.length > 0 ? (
                   <>
-                    {gameData.discardPile.slice(-3).reverse().map((card, index) => {
-                      const discardPile = game.getDiscardPile();
-                      const topCards = discardPile.getLastCards(3);
-                      const isMatching = topCards.some(topCard =>
-                        myPlayer?.getHand().some(handCard =>
-                          handCard.rank === topCard.rank && handCard.suit !== topCard.suit ||
-                          handCard.suit === topCard.suit && Math.abs(handCard.value - topCard.value) === 1
-                        )
-                      );
+                    {view.discardPile.slice(-3).reverse().map((card, index) => {
+                      const isMatching = pickupCounts.length > 0;
                       return (
                         <div key={card.id} className="relative">
                           <div
@@ -474,7 +383,7 @@ const GameBoard: React.FC = () => {
                           </div>
                           {index === 0 && (
                             <div className="absolute -top-2 -right-2 bg-black text-white text-xs rounded-full w-5 h-5 flex items-center justify-center font-bold">
-                              {gameData.discardPile.length}
+                              {view.discardPile.length}
                             </div>
                           )}
                           {isMatching && index === 0 && (
@@ -492,23 +401,18 @@ const GameBoard: React.FC = () => {
                   </div>
                 )}
               </div>
-              {isMyTurn && gameData.discardPile.length > 0 && myPlayer && (
+              {isMyTurn && view.discardPile.length > 0 && myPlayer && (
                 <div className="mt-3">
                   {(() => {
-                    const discardPile = game.getDiscardPile();
-                    const topCards = discardPile.getLastCards(3);
-                    const matchingCards = topCards.filter(card =>
-                      myPlayer?.getHand().some(handCard =>
-                        handCard.rank === card.rank && handCard.suit !== card.suit ||
-                        handCard.suit === card.suit && Math.abs(handCard.value - card.value) === 1
-                      )
-                    );
+                    // Top cards of the largest pickup the engine allows
+                    const pickupCount = Math.max(0, ...pickupCounts);
+                    const matchingCards = pickupCount > 0 ? view.discardPile.slice(-pickupCount) : [];
 
                     if (matchingCards.length > 0) {
                       return (
                         <div className="space-y-1">
                           <p className="text-sm text-green-600 font-medium">
-                            Pasangan tersedia: {matchingCards.length} kartu
+                            Bisa diambil: {matchingCards.length} kartu
                           </p>
                           <div className="flex justify-center">
                             {matchingCards.slice(0, 3).map((card) => (
@@ -532,7 +436,7 @@ const GameBoard: React.FC = () => {
                     } else {
                       return (
                         <p className="text-sm text-gray-600">
-                          Tidak ada kartu yang cocok
+                          Tidak ada kartu yang bisa diambil
                         </p>
                       );
                     }
@@ -540,7 +444,7 @@ const GameBoard: React.FC = () => {
                 </div>
               )}
               <div className="text-sm text-gray-600 mt-2 font-medium">
-                Total: {gameData.discardPile.length} kartu
+                Total: {view.discardPile.length} kartu
               </div>
               </div>
             </div>
@@ -550,25 +454,25 @@ const GameBoard: React.FC = () => {
               <div className="bg-gray-50 border-2 border-black rounded-lg p-4">
                 <h3 className="text-black font-bold mb-3">Info Game</h3>
                 <div className="space-y-2 text-sm">
-                <div>Status: {gameData.status}</div>
-                <div>Pemain: {gameData.players.length}/4</div>
-                <div>Fase: {gameData.currentTurnPhase}</div>
-                {gameData.winner && (
+                <div>Status: {view.status}</div>
+                <div>Pemain: {view.players.length}</div>
+                <div>Fase: {view.currentTurnPhase}</div>
+                {view.winner && (
                   <div className="text-black font-bold">
-                    🏆 Pemenang: {gameData.players.find(p => p.id === gameData.winner)?.displayName}
+                    🏆 Pemenang: {view.players.find(p => p.id === view.winner)?.displayName}
                   </div>
                 )}
-                {myPlayer && !myPlayer.hasLaidRunMeld() && (
+                {myPlayer && !myPlayer.hasLaidRun && (
                   <div className="text-black text-xs">
                     💡 Belum menurunkan Urutan (Run) wajib
                   </div>
                 )}
-                {game.lastDrawFromDiscard() && (
+                {mustMeld && (
                   <div className="text-black text-xs">
                     ⚠️ Wajib menurunkan kombinasi
                   </div>
                 )}
-                {game.mustDiscardFirst() && (
+                {mustDiscardFirst && (
                   <div className="text-orange-600 text-xs">
                     ⚠️ Wajib membuang kartu terlebih dahulu
                   </div>
@@ -580,12 +484,12 @@ const GameBoard: React.FC = () => {
         </div>
 
         {/* Discarded Cards Display */}
-        {gameData.discardPile.length > 0 && (
+        {view.discardPile.length > 0 && (
           <div className="bg-white border-2 border-black rounded-xl shadow-lg p-6 mb-6">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-black font-medium">Kartu yang Dibuang ({gameData.discardPile.length})</h3>
+              <h3 className="text-black font-medium">Kartu yang Dibuang ({view.discardPile.length})</h3>
               <div className="flex space-x-2">
-                {gameData.discardPile.length > 0 && (
+                {view.discardPile.length > 0 && (
                   <button
                     onClick={() => setGroupByPlayer(!groupByPlayer)}
                     className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors text-sm border border-gray-600"
@@ -605,24 +509,24 @@ const GameBoard: React.FC = () => {
               // Group by player view
               (() => {
                 const cardsToShow = showAllDiscarded
-                  ? gameData.discardPile.slice()
-                  : gameData.discardPile.slice(-20);
+                  ? view.discardPile.slice()
+                  : view.discardPile.slice(-20);
 
                 // Group cards by player
                 const cardsByPlayer: Record<string, { card: Card; originalIndex: number }[]> = {};
                 cardsToShow.forEach((card, index) => {
-                  const discardedByPlayer = gameData.discardedBy?.[card.id];
+                  const discardedByPlayer = view.discardedBy?.[card.id];
                   const playerId = discardedByPlayer || 'unknown';
                   if (!cardsByPlayer[playerId]) {
                     cardsByPlayer[playerId] = [];
                   }
-                  cardsByPlayer[playerId].push({ card, originalIndex: gameData.discardPile.length - cardsToShow.length + index });
+                  cardsByPlayer[playerId].push({ card, originalIndex: view.discardPile.length - cardsToShow.length + index });
                 });
 
                 return (
                   <div className="space-y-4">
                     {Object.entries(cardsByPlayer).map(([playerId, cards]) => {
-                      const player = gameData.players.find(p => p.id === playerId);
+                      const player = view.players.find(p => p.id === playerId);
                       const playerName = player?.displayName || 'Unknown';
                       const playerColor = player ? getPlayerColor(playerId) : 'bg-gray-200';
 
@@ -660,10 +564,10 @@ const GameBoard: React.FC = () => {
               // Chronological view
               <div className="flex flex-wrap gap-2 justify-center">
                 {showAllDiscarded
-                  ? gameData.discardPile.slice().reverse().map((card, index) => {
-                      const discardedByPlayer = gameData.discardedBy?.[card.id];
+                  ? view.discardPile.slice().reverse().map((card, index) => {
+                      const discardedByPlayer = view.discardedBy?.[card.id];
                       const playerName = discardedByPlayer
-                        ? gameData.players.find(p => p.id === discardedByPlayer)?.displayName || 'Unknown'
+                        ? view.players.find(p => p.id === discardedByPlayer)?.displayName || 'Unknown'
                         : null;
 
                       return (
@@ -679,7 +583,7 @@ const GameBoard: React.FC = () => {
                             </span>
                           </div>
                           <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2 bg-black text-white text-xs rounded px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
-                            #{gameData.discardPile.length - index}
+                            #{view.discardPile.length - index}
                           </div>
                           {playerName && (
                             <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
@@ -689,10 +593,10 @@ const GameBoard: React.FC = () => {
                         </div>
                       );
                     })
-                  : gameData.discardPile.slice(-10).reverse().map((card, index) => {
-                      const discardedByPlayer = gameData.discardedBy?.[card.id];
+                  : view.discardPile.slice(-10).reverse().map((card, index) => {
+                      const discardedByPlayer = view.discardedBy?.[card.id];
                       const playerName = discardedByPlayer
-                        ? gameData.players.find(p => p.id === discardedByPlayer)?.displayName || 'Unknown'
+                        ? view.players.find(p => p.id === discardedByPlayer)?.displayName || 'Unknown'
                         : null;
 
                       return (
@@ -708,7 +612,7 @@ const GameBoard: React.FC = () => {
                             </span>
                           </div>
                           <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2 bg-black text-white text-xs rounded px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
-                            #{gameData.discardPile.length - index}
+                            #{view.discardPile.length - index}
                           </div>
                           {playerName && (
                             <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
@@ -721,9 +625,9 @@ const GameBoard: React.FC = () => {
                 }
               </div>
             )}
-            {gameData.discardPile.length > (groupByPlayer ? 20 : 10) && !showAllDiscarded && (
+            {view.discardPile.length > (groupByPlayer ? 20 : 10) && !showAllDiscarded && (
               <div className="text-center mt-2 text-sm text-gray-600">
-                Menampilkan {groupByPlayer ? '20' : '10'} kartu terakhir dari {gameData.discardPile.length} kartu total
+                Menampilkan {groupByPlayer ? '20' : '10'} kartu terakhir dari {view.discardPile.length} kartu total
               </div>
             )}
           </div>
@@ -734,7 +638,7 @@ const GameBoard: React.FC = () => {
           <div className="bg-white border-2 border-black rounded-xl shadow-lg p-6">
             <div className="flex justify-between items-center mb-4">
               <div>
-                <h3 className="text-black font-medium">Kartu Saya ({myPlayer.getHandSize()})</h3>
+                <h3 className="text-black font-medium">Kartu Saya ({myPlayer.handCount})</h3>
                 <div className="flex space-x-2 mt-2">
                   <button
                     onClick={() => setSortBy('none')}
@@ -779,7 +683,7 @@ const GameBoard: React.FC = () => {
                 </div>
               </div>
               <div className="flex space-x-2">
-                {selectedCards.length >= 3 && isMyTurn && gameData.currentTurnPhase === 'meldPhase' && (
+                {selectedCards.length >= 3 && isMyTurn && view.currentTurnPhase === 'meldPhase' && (
                   <button
                     onClick={handleMeldCards}
                     className="px-4 py-2 bg-black text-white rounded hover:bg-gray-800 transition-colors border border-black"
@@ -788,13 +692,13 @@ const GameBoard: React.FC = () => {
                   </button>
                 )}
                 {isMyTurn && (
-                  <span className="text-black font-medium">Ini giliran Anda! ({gameData.currentTurnPhase})</span>
+                  <span className="text-black font-medium">Ini giliran Anda! ({view.currentTurnPhase})</span>
                 )}
               </div>
             </div>
 
             <div className="flex flex-wrap gap-3 justify-center">
-              {getSortedHand(myPlayer.getHand()).map(card => (
+              {getSortedHand(myHand).map(card => (
                 <button
                   key={card.id}
                   onClick={() => handleCardSelect(card.id)}
@@ -812,15 +716,25 @@ const GameBoard: React.FC = () => {
               ))}
             </div>
 
-            {myPlayer.getHandSize() > 0 && isMyTurn && (
+            {myPlayer.handCount > 0 && isMyTurn && (
               <div className="mt-4 text-center">
                 {/* Show different actions based on turn phase */}
-                {gameData.currentTurnPhase === 'drawPhase' && (
+                {view.currentTurnPhase === 'drawPhase' && (
                   <div>
-                    {game.mustDiscardFirst() ? (
-                      <p className="text-sm text-orange-600 mb-2">
-                        ⚠️ Pemain pertama wajib membuang 1 kartu terlebih dahulu
-                      </p>
+                    {mustDiscardFirst ? (
+                      <div>
+                        <p className="text-sm text-orange-600 mb-2">
+                          ⚠️ Pemain pertama wajib membuang 1 kartu terlebih dahulu
+                        </p>
+                        {selectedCards.length === 1 && (
+                          <button
+                            onClick={() => handleDiscardCard(selectedCards[0])}
+                            className="px-4 py-2 bg-black text-white rounded hover:bg-gray-800 transition-colors border border-black"
+                          >
+                            Buang Kartu
+                          </button>
+                        )}
+                      </div>
                     ) : (
                       <p className="text-sm text-gray-600 mb-2">
                         🎴 Ambil kartu dari deck atau discard pile untuk memulai giliran
@@ -829,21 +743,21 @@ const GameBoard: React.FC = () => {
                   </div>
                 )}
 
-                {gameData.currentTurnPhase === 'meldPhase' && (
+                {view.currentTurnPhase === 'meldPhase' && (
                   <div>
-                    {!myPlayer.hasLaidRunMeld() && (
+                    {!myPlayer.hasLaidRun && (
                       <p className="text-sm text-black mb-2">
                         💡 Wajib menurunkan Urutan (Run) terlebih dahulu
                       </p>
                     )}
-                    {game.lastDrawFromDiscard() && (
+                    {mustMeld && (
                       <p className="text-sm text-black mb-2">
                         ⚠️ Wajib menurunkan kombinasi setelah ambil dari discard pile
                       </p>
                     )}
 
                     <p className="text-sm text-gray-600 mb-2">
-                      Pilih kartu untuk dibuat meld (minimal 3 kartu) atau lewati
+                      Pilih kartu untuk dibuat meld (minimal 3 kartu) atau 1 kartu untuk dibuang
                     </p>
 
                     <div className="flex justify-center space-x-2">
@@ -855,33 +769,15 @@ const GameBoard: React.FC = () => {
                           Buat Meld ({selectedCards.length})
                         </button>
                       )}
-                      <button
-                        onClick={async () => {
-                          // Skip meld phase (only if not required)
-                          if (!game.lastDrawFromDiscard()) {
-                            try {
-                              game.skipMeldPhase();
-
-                              // Update Firebase with new game state
-                              if (roomId) {
-                                const roomRef = doc(db, 'rooms', roomId);
-                                await updateDoc(roomRef, {
-                                  'gameData': game.getDataForFirestore(),
-                                  lastUpdate: serverTimestamp()
-                                });
-                              }
-
-                              setError('');
-                            } catch (err: any) {
-                              setError(err.message);
-                            }
-                          }
-                        }}
-                        className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors border border-gray-600"
-                        disabled={game.lastDrawFromDiscard()}
-                      >
-                        Lewati
-                      </button>
+                      {/* Discarding ends the meld phase (Game.discardCard) */}
+                      {selectedCards.length === 1 && !mustMeld && (
+                        <button
+                          onClick={() => handleDiscardCard(selectedCards[0])}
+                          className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors border border-gray-600"
+                        >
+                          Buang Kartu
+                        </button>
+                      )}
                       {selectedCards.length > 0 && (
                         <button
                           onClick={() => setSelectedCards([])}
@@ -894,7 +790,7 @@ const GameBoard: React.FC = () => {
                   </div>
                 )}
 
-                {gameData.currentTurnPhase === 'discardPhase' && (
+                {view.currentTurnPhase === 'discardPhase' && (
                   <div>
                     <p className="text-sm text-gray-600 mb-2">
                       Pilih 1 kartu untuk dibuang
@@ -919,7 +815,7 @@ const GameBoard: React.FC = () => {
                       )}
                     </div>
 
-                    {myPlayer.canWin() && (
+                    {canPlayerViewWin(myPlayer) && (
                       <div className="mt-2 text-black text-sm font-bold">
                         🎯 Siap Memukul! Tinggal 1 kartu lagi
                       </div>
@@ -927,7 +823,7 @@ const GameBoard: React.FC = () => {
                   </div>
                 )}
 
-                {selectedCards.length > 0 && gameData.currentTurnPhase !== 'discardPhase' && (
+                {selectedCards.length > 0 && view.currentTurnPhase !== 'discardPhase' && (
                   <button
                     onClick={() => setSelectedCards([])}
                     className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors border border-gray-600"
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../hooks/useAuthStore';
+import { useSelectionStore } from '../../hooks/useSelectionStore';
 import { subscribeToRoom, updatePlayerReady } from '../../services/firebase';
-import { Game } from '../../game/Game';
-import { Player } from '../../game/Player';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../services/firebase';
+import { startGame, sendCommand, startHeartbeat, subscribeToGame } from '../../services/gameServer';
+import { Meld } from '../../game/Card';
+import { GameCommand } from '../../game/GameCommand';
+import { GameView, getCurrentPlayerView, getDiscardPickupCounts, getPlayerView } from '../../game/GameView';
 
 // Import components
 import CardComponent from '../Game/CardComponent';
@@ -22,10 +23,17 @@ const GameBoardNew: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
   const { user } = useAuthStore();
-  const [game, setGame] = useState<Game | null>(null);
+  const [view, setView] = useState<GameView | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [selectedCards, setSelectedCards] = useState<string[]>([]);
+  const { selection, setSelection, clearSelection } = useSelectionStore();
+
+  // The stored selection only counts for this game and for cards still in
+  // the hand, e.g. after the turn was played for the player while away
+  const handCardIds = new Set((view && getPlayerView(view, user?.uid)?.hand || []).map(card => card.id));
+  const selectedCards = view && selection?.gameId === view.id
+    ? selection.cardIds.filter(cardId => handCardIds.has(cardId))
+    : [];
 
   useEffect(() => {
     if (!roomId || !user) {
@@ -33,22 +41,7 @@ const GameBoardNew: React.FC = () => {
       return;
     }
 
-    const unsubscribe = subscribeToRoom(roomId, (data) => {
-      if (data.gameState) {
-        try {
-          const gameData = typeof data.gameState === 'string'
-            ? JSON.parse(data.gameState)
-            : data.gameState;
-
-          const gameInstance = Game.fromData(gameData);
-          setGame(gameInstance);
-        } catch (err) {
-          console.error('Error parsing game state:', err);
-          setError('Error loading game state');
-        }
-      }
-      setLoading(false);
-
+    const unsubscribeRoom = subscribeToRoom(roomId, (data) => {
       // Redirect if game is finished
       if (data.status === 'finished') {
         // Handle game finished state - can navigate to results page or show modal
@@ -56,132 +49,98 @@ const GameBoardNew: React.FC = () => {
       }
     });
 
-    return () => unsubscribe();
+    // Game state is pushed by the authoritative game server
+    // Each player only receives their own redacted view
+    const unsubscribeGame = subscribeToGame(roomId, (gameView) => {
+      setView(gameView);
+      setError('');
+      setLoading(false);
+    }, (err) => {
+      setError(err.message);
+      setLoading(false);
+    });
+    const stopHeartbeat = startHeartbeat(roomId);
+
+    return () => {
+      unsubscribeRoom();
+      unsubscribeGame();
+      stopHeartbeat();
+    };
   }, [roomId, user, navigate]);
 
   const handleCardSelect = (cardId: string) => {
-    setSelectedCards(prev =>
-      prev.includes(cardId)
-        ? prev.filter(id => id !== cardId)
-        : [...prev, cardId]
+    if (!view) return;
+    setSelection(view.id, selectedCards.includes(cardId)
+      ? selectedCards.filter(id => id !== cardId)
+      : [...selectedCards, cardId]
     );
   };
 
   const handleClearSelection = () => {
-    setSelectedCards([]);
+    clearSelection();
   };
 
-  const handleDrawFromDeck = async () => {
-    if (!game || !user || !roomId) return;
+  // Send an intent command; the server pushes the resulting state back
+  const submitCommand = async (command: GameCommand) => {
+    if (!view || !user || !roomId) return;
 
     try {
-      const myPlayer = game.getPlayer(user.uid);
-      if (!myPlayer || !game.getTurnManager().isPlayerTurn(user.uid)) return;
-
-      await game.drawCard(user.uid, false, 1);
-      await updateGameState();
+      await sendCommand(roomId, command);
+      setError('');
       handleClearSelection();
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const handleDrawFromDiscard = async (count: number) => {
-    if (!game || !user || !roomId) return;
+  const isPlayerTurn = (playerId?: string) => {
+    return !!view && view.status === 'playing' && getCurrentPlayerView(view).id === playerId;
+  };
 
-    try {
-      const myPlayer = game.getPlayer(user.uid);
-      if (!myPlayer || !game.getTurnManager().isPlayerTurn(user.uid)) return;
+  const handleDrawFromDeck = async () => {
+    if (!isPlayerTurn(user?.uid)) return;
+    await submitCommand({ type: 'draw', fromDiscard: false });
+  };
 
-      await game.drawCard(user.uid, true, count);
-      await updateGameState();
-      handleClearSelection();
-    } catch (err: any) {
-      setError(err.message);
-    }
+  const handleDrawFromDiscard = async (count: number) => {
+    if (!isPlayerTurn(user?.uid)) return;
+    await submitCommand({ type: 'draw', fromDiscard: true, count });
   };
 
   const handleMeld = async () => {
-    if (!game || !user || !roomId || selectedCards.length < 3) return;
-
-    try {
-      await game.createMeld(user.uid, selectedCards);
-      await updateGameState();
-      handleClearSelection();
-    } catch (err: any) {
-      setError(err.message);
-    }
+    if (selectedCards.length < 3) return;
+    await submitCommand({ type: 'meld', cardIds: selectedCards });
   };
 
-  const handleDiscard = async (cardId: string) => {
-    if (!game || !user || !roomId) return;
-
-    try {
-      await game.discardCard(user.uid, cardId);
-      await updateGameState();
-      handleClearSelection();
-    } catch (err: any) {
-      setError(err.message);
-    }
+  // Lay off the selected cards (and a card dragged from the hand) onto a meld
+  const handleExtendMeld = async (meld: Meld, droppedCardId?: string) => {
+    const cardIds = droppedCardId && !selectedCards.includes(droppedCardId)
+      ? [...selectedCards, droppedCardId]
+      : selectedCards;
+    if (cardIds.length === 0) return;
+    await submitCommand({ type: 'extend', meldId: meld.id, cardIds });
   };
 
-  const updateGameState = async () => {
-    if (!game || !roomId) return;
-
-    try {
-      const roomRef = doc(db, 'rooms', roomId);
-      const gameData = game.getDataForFirestore();
+  // Take a melded joker by putting the selected natural card in its place
+  const handleSwapJoker = async (meld: Meld, jokerCardId: string) => {
+    if (selectedCards.length !== 1) return;
+    await submitCommand({ type: 'swapJoker', meldId: meld.id, jokerCardId, cardId: selectedCards[0] });
+  };
 
-      await updateDoc(roomRef, {
-        'gameState': gameData,
-        lastUpdate: serverTimestamp()
-      });
-    } catch (err: any) {
-      setError(err.message);
-    }
+  const handleDiscard = async (cardId: string) => {
+    await submitCommand({ type: 'discard', cardId });
   };
 
   const handleLeaveGame = () => {
     navigate('/');
   };
 
-  const handleEndGame = async () => {
-    if (!game || !roomId) return;
-
-    try {
-      // Mark game as finished
-      const roomRef = doc(db, 'rooms', roomId);
-      await updateDoc(roomRef, {
-        'status': 'finished',
-        'gameState': {
-          ...game.getDataForFirestore(),
-          status: 'finished' as const
-        },
-        lastUpdate: serverTimestamp()
-      });
-    } catch (err: any) {
-      setError(err.message);
-    }
-  };
-
   const handleRestartGame = async () => {
-    if (!game || !roomId) return;
+    if (!roomId) return;
 
     try {
-      // Create new game with same players
-      const playerIds = game.getPlayers().map(p => p.id);
-      const displayNames = game.getPlayers().map(p => p.displayName);
-      const newGame = new Game(playerIds, displayNames);
-      newGame.start();
-
-      const roomRef = doc(db, 'rooms', roomId);
-      await updateDoc(roomRef, {
-        'gameState': newGame.getDataForFirestore(),
-        'status': 'playing',
-        lastUpdate: serverTimestamp()
-      });
-
-      setGame(newGame);
+      // Only the host may restart; the server deals a fresh game
+      await startGame(roomId);
       handleClearSelection();
     } catch (err: any) {
       setError(err.message);
@@ -196,7 +155,7 @@ const GameBoardNew: React.FC = () => {
     );
   }
 
-  if (!game) {
+  if (!view) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-white">
         <div className="text-black text-xl">Game tidak ditemukan</div>
@@ -204,20 +163,26 @@ const GameBoardNew: React.FC = () => {
     );
   }
 
-  const myPlayer = game.getPlayer(user?.uid || '');
-  const isMyTurn = game.getTurnManager().isPlayerTurn(user?.uid || '');
-  const currentPlayer = game.getCurrentPlayer();
-  const otherPlayers = game.getPlayers().filter(p => p.id !== user?.uid);
+  const myPlayer = getPlayerView(view, user?.uid);
+  const isMyTurn = isPlayerTurn(user?.uid);
+  const currentPlayer = getCurrentPlayerView(view);
+  const otherPlayers = view.players.filter(p => p.id !== user?.uid);
+  // 1 to 5 opponents depending on the seat count
+  const opponentColumns = otherPlayers.length === 1 ? '' : otherPlayers.length > 3 ? 'sm:grid-cols-3' : 'sm:grid-cols-2';
+  const pickupCounts = getDiscardPickupCounts(view, user?.uid);
+  const canExtendMelds = isMyTurn && !!myPlayer?.hasLaidRun;
+  const tableMelds = otherPlayers.filter(p => p.melds.length > 0);
+  const jokerGrantPlayer = getPlayerView(view, view.jokerGrant);
 
   // Get required action for hand component
   const getRequiredAction = () => {
     if (!isMyTurn) return 'none';
 
-    if (!game.hasFirstPlayerDiscarded() && game.getCurrentPlayerIndex() === 0) {
+    if (!view.firstPlayerDiscarded) {
       return 'discard';
     }
 
-    if (game.lastDrawFromDiscard()) {
+    if (view.pendingMeldCardIds.length > 0) {
       return 'meld';
     }
 
@@ -232,7 +197,17 @@ const GameBoardNew: React.FC = () => {
           <div className="flex justify-between items-center py-4">
             <div className="flex items-center space-x-4">
               <h1 className="text-xl font-bold text-black">Room: {roomId}</h1>
-              <span className="text-gray-600">Ronde {game.getCurrentRound()}</span>
+              <span className="text-gray-600">
+                Ronde {view.currentRound}{view.match && ` / ${view.match.settings.rounds}`}
+              </span>
+              {view.players[view.dealerIndex] && (
+                <span className="text-sm text-gray-600">Dealer: {view.players[view.dealerIndex].displayName}</span>
+              )}
+              {jokerGrantPlayer && (
+                <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded border border-yellow-300">
+                  🃏 Joker untuk {jokerGrantPlayer.id === user?.uid ? 'Anda' : jokerGrantPlayer.displayName}
+                </span>
+              )}
             </div>
             <button
               onClick={handleLeaveGame}
@@ -257,21 +232,21 @@ const GameBoardNew: React.FC = () => {
           <div className="space-y-6">
             {/* Turn Indicator */}
             <TurnIndicatorComponent
-              turnManager={game.getTurnManager()}
-              players={game.getPlayers()}
+              view={view}
               isMyTurn={isMyTurn}
               myPlayer={myPlayer}
             />
 
             {/* Joker Display */}
             <JokerDisplayComponent
-              jokerReferenceCard={game.getJokerReferenceCard()}
-              jokerCards={game.getJokerCards()}
+              jokerReferenceCard={view.jokerReferenceCard}
+              jokerCards={view.jokerCards}
+              rules={view.rules}
             />
 
             {/* Game Controls */}
             <GameControlsComponent
-              game={game}
+              view={view}
               myPlayer={myPlayer}
               isMyTurn={isMyTurn}
               selectedCards={selectedCards}
@@ -280,16 +255,16 @@ const GameBoardNew: React.FC = () => {
               onMeld={handleMeld}
               onDiscard={handleDiscard}
               onClearSelection={handleClearSelection}
-              onEndGame={handleEndGame}
               onRestartGame={handleRestartGame}
               onLeaveGame={handleLeaveGame}
+              onViewReplay={() => navigate(`/replay/${view.id}`)}
             />
           </div>
 
           {/* Middle Column - Main Game Area */}
           <div className="space-y-6">
             {/* Other Players */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className={`grid grid-cols-1 ${opponentColumns} gap-4`}>
               {otherPlayers.map(player => (
                 <PlayerInfoComponent
                   key={player.id}
@@ -305,31 +280,50 @@ const GameBoardNew: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Deck */}
               <DeckComponent
-                deck={game.getDeck()}
+                deckCount={view.deckCount}
                 isMyTurn={isMyTurn}
-                canDrawFromDeck={isMyTurn && myPlayer?.getMatchingCardsSequence(game.getDiscardPile().getAllCards()).length === 0}
+                canDrawFromDeck={isMyTurn}
                 onDrawFromDeck={handleDrawFromDeck}
-                matchingCardsCount={myPlayer?.getMatchingCardsSequence(game.getDiscardPile().getAllCards()).length || 0}
+                discardPickupCount={pickupCounts.length > 0 ? pickupCounts[pickupCounts.length - 1] : 0}
               />
 
               {/* Discard Pile */}
               <DiscardPileComponent
-                discardPile={game.getDiscardPile()}
-                myPlayer={myPlayer}
+                cards={view.discardPile}
+                discardedBy={view.discardedBy}
                 isMyTurn={isMyTurn}
-                canTakeFromDiscard={isMyTurn && myPlayer?.getMatchingCardsSequence(game.getDiscardPile().getAllCards()).length > 0}
+                canTakeFromDiscard={isMyTurn && pickupCounts.length > 0}
+                pickupCounts={pickupCounts}
                 onTakeFromDiscard={handleDrawFromDiscard}
               />
             </div>
 
             {/* My Melds */}
-            {myPlayer && myPlayer.getMeldCount() > 0 && (
+            {myPlayer && myPlayer.melds.length > 0 && (
               <MeldAreaComponent
                 player={myPlayer}
+                rules={view.rules}
                 showPlayerName={false}
                 compact={true}
+                onExtendMeld={canExtendMelds ? handleExtendMeld : undefined}
+                onSwapJoker={canExtendMelds ? handleSwapJoker : undefined}
+                selectedCount={selectedCards.length}
               />
             )}
+
+            {/* Other Players' Melds - cards can be laid off on these too */}
+            {tableMelds.map(player => (
+              <MeldAreaComponent
+                key={player.id}
+                player={player}
+                rules={view.rules}
+                showPlayerName={true}
+                compact={true}
+                onExtendMeld={canExtendMelds ? handleExtendMeld : undefined}
+                onSwapJoker={canExtendMelds ? handleSwapJoker : undefined}
+                selectedCount={selectedCards.length}
+              />
+            ))}
           </div>
 
           {/* Right Column - My Hand */}
@@ -343,6 +337,7 @@ const GameBoardNew: React.FC = () => {
                 onCardSelect={handleCardSelect}
                 showControls={false}
                 requiredAction={getRequiredAction()}
+                pendingCardIds={view.pendingMeldCardIds}
               />
             )}
           </div>
@@ -352,11 +347,15 @@ const GameBoardNew: React.FC = () => {
         <div className="mt-8 bg-gray-50 border border-gray-200 rounded-lg p-4">
           <h4 className="text-sm font-medium text-gray-700 mb-2">📋 Aturan Penting:</h4>
           <ul className="text-xs text-gray-600 space-y-1">
-            <li>• Kombinasi pertama yang wajib diturunkan adalah Urutan (Run)</li>
+            {view.rules.firstMeldMustBeRun && (
+              <li>• Kombinasi pertama yang wajib diturunkan adalah Urutan (Run)</li>
+            )}
             <li>• Jika ambil dari discard pile, WAJIB langsung menurunkan kombinasi</li>
-            <li>• Pemain pertama mulai dengan 8 kartu, wajib membuang 1 kartu</li>
+            <li>• Pemain pertama dipilih acak dan mulai dengan {view.rules.handSize + 1} kartu, wajib membuang 1 kartu untuk mengakhiri gilirannya</li>
             <li>• Menang dengan "Memukul" - tersisa 1 kartu di tangan</li>
             <li>• Joker bisa mengganti kartu apa pun untuk kombinasi</li>
+            <li>• Setelah menurunkan Urutan, kartu bisa ditambahkan ke kombinasi mana pun di meja (Set maksimal {view.rules.maxSetSize} kartu)</li>
+            <li>• Joker di meja bisa ditukar dengan kartu asli yang digantikannya: pilih 1 kartu lalu klik Joker-nya</li>
           </ul>
         </div>
       </main>
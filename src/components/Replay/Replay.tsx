@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../hooks/useAuthStore';
+import { fetchGameEvents } from '../../services/gameServer';
+import { Game } from '../../game/Game';
+import { GameEvent } from '../../game/GameEvent';
+import { GameView, getPlayerView, hydrateGameView } from '../../game/GameView';
+
+import HandComponent from '../Game/HandComponent';
+import MeldAreaComponent from '../Game/MeldAreaComponent';
+import DiscardPileComponent from '../Game/DiscardPileComponent';
+import JokerDisplayComponent from '../Game/JokerDisplayComponent';
+
+// Delay between events while playing
+const PLAYBACK_INTERVAL = 1200;
+
+interface ReplayStep {
+  event: GameEvent;
+  view: GameView; // State after the event, with every hand included
+}
+
+// Describe what happened in an event
+const describeEvent = (event: GameEvent, view: GameView): string => {
+  if (event.type === 'start') {
+    return 'Game dimulai, kartu dibagikan';
+  }
+
+  const name = getPlayerView(view, event.playerId)?.displayName || 'Pemain';
+  const { command } = event;
+
+  switch (command.type) {
+    case 'draw':
+      return command.fromDiscard
+        ? `${name} mengambil ${command.count ?? 1} kartu dari discard pile`
+        : `${name} mengambil 1 kartu dari deck`;
+    case 'meld':
+      return `${name} menurunkan kombinasi ${command.cardIds.length} kartu`;
+    case 'extend':
+      return `${name} menambah ${command.cardIds.length} kartu ke kombinasi`;
+    case 'swapJoker':
+      return `${name} menukar Joker di kombinasi dengan kartu dari tangan`;
+    case 'discard': {
+      const card = view.discardPile[view.discardPile.length - 1];
+      return `${name} membuang ${card ? card.getDisplay(view.activeJokerValue) : 'kartu'}`;
+    }
+  }
+};
+
+const Replay: React.FC = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [steps, setSteps] = useState<ReplayStep[]>([]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [revealAll, setRevealAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Load the event log and rebuild the state after every event
+  useEffect(() => {
+    if (!gameId || !user) {
+      navigate('/');
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadReplay = async () => {
+      try {
+        const events = await fetchGameEvents(gameId);
+        const replaySteps: ReplayStep[] = [];
+        await Game.replay(events, undefined, (game, event) => {
+          replaySteps.push({ event, view: hydrateGameView(game.getViewFor(user.uid, true)) });
+        });
+
+        if (!cancelled) {
+          setSteps(replaySteps);
+          setIndex(0);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReplay();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, user, navigate]);
+
+  // Advance one event at a time while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    if (index >= steps.length - 1) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setIndex(index + 1), PLAYBACK_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, index, steps.length]);
+
+  const handleStepBack = () => {
+    setPlaying(false);
+    setIndex(prev => Math.max(0, prev - 1));
+  };
+
+  const handleStepForward = () => {
+    setPlaying(false);
+    setIndex(prev => Math.min(steps.length - 1, prev + 1));
+  };
+
+  const handleTogglePlay = () => {
+    // Restart from the beginning when playing from the last event
+    if (!playing && index >= steps.length - 1) {
+      setIndex(0);
+    }
+    setPlaying(prev => !prev);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-black text-xl">Memuat replay...</div>
+      </div>
+    );
+  }
+
+  if (error || steps.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-white px-4">
+        <div className="bg-black border border-black text-white px-6 py-4 rounded-lg mb-4 max-w-md text-center">
+          {error || 'Replay tidak ditemukan'}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          Kembali
+        </button>
+      </div>
+    );
+  }
+
+  const { event, view } = steps[index];
+  const currentPlayerId = view.status === 'playing' ? view.players[view.currentPlayerIndex]?.id : undefined;
+  const winner = getPlayerView(view, view.winner);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-black">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-bold text-black">Replay Game {view.id}</h1>
+              <span className="text-gray-600">Ronde {view.currentRound}</span>
+            </div>
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              Keluar
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        {/* Timeline Controls */}
+        <div className="mb-6 bg-white border border-black rounded-lg p-4">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-3">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleStepBack}
+                disabled={index === 0}
+                className="px-3 py-2 border border-black rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40"
+              >
+                ⏮ Mundur
+              </button>
+              <button
+                onClick={handleTogglePlay}
+                className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                {playing ? '⏸ Pause' : '▶ Play'}
+              </button>
+              <button
+                onClick={handleStepForward}
+                disabled={index >= steps.length - 1}
+                className="px-3 py-2 border border-black rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40"
+              >
+                Maju ⏭
+              </button>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={revealAll}
+                onChange={e => setRevealAll(e.target.checked)}
+              />
+              <span>Tampilkan semua kartu</span>
+            </label>
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={steps.length - 1}
+            value={index}
+            onChange={e => {
+              setPlaying(false);
+              setIndex(Number(e.target.value));
+            }}
+            className="w-full"
+          />
+
+          <div className="flex justify-between items-center mt-2 text-sm">
+            <span className="text-black font-medium">{describeEvent(event, view)}</span>
+            <span className="text-gray-600">
+              Event {index + 1} / {steps.length}
+            </span>
+          </div>
+
+          {view.status === 'finished' && winner && (
+            <div className="mt-3 p-2 bg-green-50 border border-green-300 rounded text-sm text-center">
+              🏆 Pemenang: {winner.displayName}
+              {view.gameOverReason === 'memukul' ? ' (Memukul)' : ' (Deck habis)'}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Table */}
+          <div className="space-y-6">
+            <JokerDisplayComponent
+              jokerReferenceCard={view.jokerReferenceCard}
+              jokerCards={view.jokerCards}
+              rules={view.rules}
+            />
+
+            <div className="bg-white border border-black rounded-lg p-4 text-center text-sm text-gray-600">
+              Deck: {view.deckCount} kartu
+            </div>
+
+            <DiscardPileComponent
+              cards={view.discardPile}
+              discardedBy={view.discardedBy}
+              isMyTurn={false}
+              canTakeFromDiscard={false}
+            />
+          </div>
+
+          {/* Players */}
+          <div className="lg:col-span-2 space-y-6">
+            {view.players.map(player => (
+              <div key={player.id} className="space-y-3">
+                <HandComponent
+                  player={player}
+                  title={`${player.displayName}${player.id === currentPlayerId ? ' (giliran)' : ''} - ${player.handCount} kartu`}
+                  selectedCards={[]}
+                  isMyTurn={false}
+                  showCards={revealAll || player.id === user?.uid}
+                  showControls={false}
+                />
+                {player.melds.length > 0 && (
+                  <MeldAreaComponent
+                    player={player}
+                    rules={view.rules}
+                    showPlayerName={false}
+                    compact={true}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Replay;
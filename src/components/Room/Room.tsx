@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../hooks/useAuthStore';
-import { subscribeToRoom, updatePlayerReady } from '../../services/firebase';
-import { Game } from '../../game/Game';
-import { doc, updateDoc } from 'firebase/firestore';
-import { db } from '../../services/firebase';
+import { addBotToRoom, removeBotFromRoom, subscribeToRoom, updatePlayerReady, updateRoomSeats } from '../../services/firebase';
+import { startGame, startHeartbeat } from '../../services/gameServer';
+import { DEFAULT_MATCH_SETTINGS, MatchSettings, getMatchRules } from '../../game/Match';
+import { BOT_LEVELS, BotLevel } from '../../game/BotPlayer';
+import { DEFAULT_RULE_SET, MAX_PLAYERS, MIN_PLAYERS, RULE_SET_PRESETS, describeRuleSet, getRuleSet } from '../../game/RuleSet';
+import { GameValidator } from '../../game/GameValidator';
 
 interface RoomData {
   id: string;
@@ -15,7 +17,9 @@ interface RoomData {
     displayName: string;
     ready: boolean;
     connected: boolean;
+    bot?: BotLevel;
   }>;
+  spectatorIds?: string[];
   maxPlayers: number;
   gameStarted: boolean;
 }
@@ -28,6 +32,10 @@ const Room: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [startingGame, setStartingGame] = useState(false);
+  const [matchSettings, setMatchSettings] = useState<MatchSettings>(DEFAULT_MATCH_SETTINGS);
+  const [botLevel, setBotLevel] = useState<BotLevel>('greedy');
+  // The preset with the turn timer picked for the room
+  const ruleSet = getRuleSet(matchSettings.ruleSetId) ? getMatchRules(matchSettings) : DEFAULT_RULE_SET;
 
   useEffect(() => {
     if (!roomId || !user) {
@@ -44,8 +52,12 @@ const Room: React.FC = () => {
         navigate(`/game/${roomId}`);
       }
     });
+    const stopHeartbeat = startHeartbeat(roomId);
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      stopHeartbeat();
+    };
   }, [roomId, user, navigate]);
 
   const handleReadyToggle = async () => {
@@ -62,7 +74,7 @@ const Room: React.FC = () => {
   };
 
   const handleStartGame = async () => {
-    if (!roomData || !user) return;
+    if (!roomData || !user || !roomId) return;
 
     // Check if current user is host
     if (roomData.hostId !== user.uid) {
@@ -77,9 +89,10 @@ const Room: React.FC = () => {
       return;
     }
 
-    // Check if exactly 4 players (GMS-001)
-    if (roomData.players.length !== 4) {
-      setError('Game membutuhkan tepat 4 pemain untuk dimulai');
+    // Check the seat count (GMS-001)
+    const seats = GameValidator.validateGameStart(roomData.players.length);
+    if (!seats.valid) {
+      setError(seats.error!);
       return;
     }
 
@@ -87,20 +100,8 @@ const Room: React.FC = () => {
     setError('');
 
     try {
-      // Initialize game state
-      const playerIds = roomData.players.map(p => p.id);
-      const displayNames = roomData.players.map(p => p.displayName);
-      const game = new Game(playerIds, displayNames);
-      game.start();
-
-      // Update room with game state
-      const roomRef = doc(db, 'rooms', roomId);
-      await updateDoc(roomRef, {
-        status: 'playing',
-        gameStarted: true,
-        gameState: game.getDataForFirestore(),
-        startedAt: new Date().toISOString()
-      });
+      // The game server deals the cards and marks the room as playing
+      await startGame(roomId, matchSettings);
 
       // Navigate to game page
       navigate(`/game/${roomId}`);
@@ -110,6 +111,38 @@ const Room: React.FC = () => {
     }
   };
 
+  const handleAddBot = async () => {
+    if (!roomId) return;
+
+    try {
+      await addBotToRoom(roomId, botLevel);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSeatsChange = async (maxPlayers: number) => {
+    if (!roomId) return;
+
+    try {
+      await updateRoomSeats(roomId, maxPlayers);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRemoveBot = async (botId: string) => {
+    if (!roomId) return;
+
+    try {
+      await removeBotFromRoom(roomId, botId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleLeaveRoom = async () => {
     navigate('/');
   };
@@ -144,7 +177,9 @@ const Room: React.FC = () => {
   const isHost = roomData.hostId === user?.uid;
   const currentPlayer = roomData.players.find(p => p.id === user?.uid);
   const allReady = roomData.players.every(p => p.ready);
-  const canStartGame = isHost && allReady && roomData.players.length === 4;
+  const canStartGame = isHost && allReady && roomData.players.length >= MIN_PLAYERS;
+  const openSeats = roomData.maxPlayers - roomData.players.length;
+  const spectatorCount = roomData.spectatorIds?.length ?? 0;
 
   return (
     <div className="min-h-screen flex flex-col bg-white">
@@ -152,7 +187,10 @@ const Room: React.FC = () => {
       <header className="bg-white border-b border-black">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center py-4">
-            <h1 className="text-2xl font-bold text-black">Room: {roomId}</h1>
+            <div className="flex items-center space-x-4">
+              <h1 className="text-2xl font-bold text-black">Room: {roomId}</h1>
+              <span className="text-sm text-gray-600">👁 {spectatorCount} penonton</span>
+            </div>
             <button
               onClick={handleLeaveRoom}
               className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
@@ -185,9 +223,25 @@ const Room: React.FC = () => {
 
           {/* Players List */}
           <div className="bg-white border border-black rounded-lg p-6">
-            <h3 className="text-xl font-semibold text-black mb-4">
-              Pemain ({roomData.players.length}/4)
-            </h3>
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-semibold text-black">
+                Pemain ({roomData.players.length}/{roomData.maxPlayers})
+              </h3>
+              {isHost && !roomData.gameStarted && (
+                <select
+                  value={roomData.maxPlayers}
+                  onChange={e => handleSeatsChange(Number(e.target.value))}
+                  className="px-3 py-2 border border-black rounded-lg text-black text-sm"
+                  title="Jumlah kursi"
+                >
+                  {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i)
+                    .filter(seats => seats >= roomData.players.length)
+                    .map(seats => (
+                      <option key={seats} value={seats}>{seats} kursi</option>
+                    ))}
+                </select>
+              )}
+            </div>
 
             <div className="space-y-3">
               {roomData.players.map((player, index) => (
@@ -221,6 +275,11 @@ const Room: React.FC = () => {
                             Host
                           </span>
                         )}
+                        {player.bot && (
+                          <span className="ml-2 px-2 py-1 text-xs rounded border bg-gray-200 text-black border-gray-400">
+                            🤖 Bot
+                          </span>
+                        )}
                         {player.id === user?.uid && (
                           <span className={`ml-2 px-2 py-1 text-xs rounded border ${
                             player.id === user?.uid
@@ -232,7 +291,7 @@ const Room: React.FC = () => {
                         )}
                       </div>
                       <div className={`text-sm ${
-                        player.id === user?.uid ? 'text-gray-300' : 'text-gray-600'
+                        !player.connected ? 'text-red-500' : player.id === user?.uid ? 'text-gray-300' : 'text-gray-600'
                       }`}>
                         {player.connected ? 'Online' : 'Offline'}
                       </div>
@@ -257,20 +316,121 @@ const Room: React.FC = () => {
                         Not Ready
                       </span>
                     )}
+                    {player.bot && isHost && !roomData.gameStarted && (
+                      <button
+                        onClick={() => handleRemoveBot(player.id)}
+                        className="px-2 py-1 text-sm text-gray-600 hover:text-black"
+                        title="Hapus bot"
+                      >
+                        ✕
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
 
-              {roomData.players.length < 4 && (
+              {openSeats > 0 && (
                 <div className="border-2 border-dashed border-gray-400 rounded-lg p-4 text-center text-gray-600">
                   <div className="text-sm">
-                    Menunggu {4 - roomData.players.length} pemain lagi...
+                    {openSeats} kursi kosong, menunggu pemain lain...
                   </div>
+                  {isHost && !roomData.gameStarted && (
+                    <div className="flex justify-center items-center space-x-2 mt-3">
+                      <select
+                        value={botLevel}
+                        onChange={e => setBotLevel(e.target.value as BotLevel)}
+                        className="px-3 py-2 border border-black rounded-lg text-black text-sm"
+                      >
+                        {BOT_LEVELS.map(bot => (
+                          <option key={bot.level} value={bot.level}>{bot.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleAddBot}
+                        className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors text-sm"
+                      >
+                        🤖 Tambah Bot
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           </div>
 
+          {/* Match Settings */}
+          {isHost && !roomData.gameStarted && (
+            <div className="bg-white border border-black rounded-lg p-6">
+              <h4 className="text-lg font-semibold text-black mb-3">Pengaturan Match</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-sm text-gray-600">
+                  Jumlah ronde
+                  <select
+                    value={matchSettings.rounds}
+                    onChange={e => setMatchSettings({ ...matchSettings, rounds: Number(e.target.value) })}
+                    className="mt-1 w-full px-3 py-2 border border-black rounded-lg text-black"
+                  >
+                    {[1, 3, 5, 7, 10].map(rounds => (
+                      <option key={rounds} value={rounds}>{rounds} ronde</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-600">
+                  Target skor (opsional)
+                  <input
+                    type="number"
+                    min={1}
+                    value={matchSettings.targetScore ?? ''}
+                    onChange={e => setMatchSettings({
+                      ...matchSettings,
+                      targetScore: e.target.value ? Number(e.target.value) : undefined
+                    })}
+                    placeholder="Tanpa target"
+                    className="mt-1 w-full px-3 py-2 border border-black rounded-lg text-black"
+                  />
+                </label>
+                <label className="col-span-2 text-sm text-gray-600">
+                  Aturan permainan
+                  <select
+                    value={ruleSet.id}
+                    onChange={e => setMatchSettings({ ...matchSettings, ruleSetId: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 border border-black rounded-lg text-black"
+                  >
+                    {RULE_SET_PRESETS.map(rules => (
+                      <option key={rules.id} value={rules.id}>{rules.name}</option>
+                    ))}
+                  </select>
+                  <span className="mt-1 block text-xs text-gray-500">{ruleSet.description}</span>
+                </label>
+                <label className="text-sm text-gray-600">
+                  Batas waktu giliran
+                  <select
+                    value={ruleSet.turnTimeLimit}
+                    onChange={e => setMatchSettings({ ...matchSettings, turnTimeLimit: Number(e.target.value) })}
+                    className="mt-1 w-full px-3 py-2 border border-black rounded-lg text-black"
+                  >
+                    {[0, 30, 60, 90, 120].map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds ? `${seconds} detik` : 'Tanpa batas'}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-600">
+                  Bank waktu per pemain
+                  <select
+                    value={ruleSet.timeBank}
+                    onChange={e => setMatchSettings({ ...matchSettings, timeBank: Number(e.target.value) })}
+                    disabled={ruleSet.turnTimeLimit === 0}
+                    className="mt-1 w-full px-3 py-2 border border-black rounded-lg text-black disabled:opacity-50"
+                  >
+                    {[0, 60, 120, 300].map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds ? `${seconds / 60} menit` : 'Tanpa bank'}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="space-y-4">
             {error && (
@@ -311,25 +471,24 @@ const Room: React.FC = () => {
               </div>
             )}
 
-            {isHost && roomData.players.length < 4 && (
+            {isHost && roomData.players.length < MIN_PLAYERS && (
               <div className="text-center text-sm text-black font-medium">
-                Game membutuhkan tepat 4 pemain untuk dimulai
+                Game membutuhkan minimal {MIN_PLAYERS} pemain untuk dimulai - isi kursi kosong dengan bot
               </div>
             )}
           </div>
 
           {/* Game Rules Preview */}
           <div className="bg-white border border-black rounded-lg p-6">
-            <h4 className="text-lg font-semibold text-black mb-3">Aturan Game Rummy Spesial</h4>
+            <h4 className="text-lg font-semibold text-black mb-3">Aturan Game: {ruleSet.name}</h4>
             <ul className="text-sm text-gray-600 space-y-2">
-              <li>• Game dimainkan oleh tepat 4 pemain</li>
-              <li>• Setiap pemain mendapat 7 kartu di awal</li>
-              <li>• 1 kartu acak menjadi referensi, 3 kartu kembarannya menjadi Joker</li>
-              <li>• Kombinasi pertama yang wajib diturunkan adalah Urutan (Run)</li>
-              <li>• Bisa ambil 1-3 kartu terakhir dari discard pile WAJIB langsung menurunkan kombinasi</li>
+              <li>• Game dimainkan oleh {MIN_PLAYERS}-{MAX_PLAYERS} pemain</li>
+              <li>• 1 kartu acak menjadi referensi, kartu kembarannya menjadi Joker</li>
+              {describeRuleSet(ruleSet, roomData.players.length).map(line => (
+                <li key={line}>• {line}</li>
+              ))}
               <li>• Atau ambil 1 kartu dari deck</li>
               <li>• Menang dengan "Memukul" - tersisa 1 kartu di tangan</li>
-              <li>• Poin kemenangan: 2-10=50, J/Q/K=100, A=150, Joker=250</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../hooks/useAuthStore';
+import { leaveWatch, subscribeToRoom, watchRoom } from '../../services/firebase';
+import { subscribeToGame } from '../../services/gameServer';
+import { GameView, getCurrentPlayerView, getPlayerView } from '../../game/GameView';
+
+import HandComponent from '../Game/HandComponent';
+import MeldAreaComponent from '../Game/MeldAreaComponent';
+import DiscardPileComponent from '../Game/DiscardPileComponent';
+import JokerDisplayComponent from '../Game/JokerDisplayComponent';
+import TurnIndicatorComponent from '../Game/TurnIndicatorComponent';
+import ScoreboardComponent from '../Game/ScoreboardComponent';
+
+interface WatchedRoom {
+  gameStarted: boolean;
+  playerIds?: string[];
+  spectatorIds?: string[];
+}
+
+// Watch a room's table without a seat. The server sends every hand hidden
+// while a round is played and shows them all once it is over.
+const Watch: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [room, setRoom] = useState<WatchedRoom | null>(null);
+  const [view, setView] = useState<GameView | null>(null);
+  const [joined, setJoined] = useState(false);
+  const [error, setError] = useState('');
+
+  // Join the room's spectators while the page is open
+  useEffect(() => {
+    if (!roomId || !user) {
+      navigate('/');
+      return;
+    }
+
+    let unsubscribeRoom: (() => void) | undefined;
+    let cancelled = false;
+
+    watchRoom(roomId, user.uid)
+      .then(() => {
+        if (cancelled) return;
+        setJoined(true);
+        unsubscribeRoom = subscribeToRoom(roomId, (data) => {
+          // Players watch their own seat from the table
+          if (data.playerIds?.includes(user.uid) && data.gameStarted) {
+            navigate(`/game/${roomId}`);
+            return;
+          }
+          setRoom(data);
+        });
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribeRoom?.();
+      leaveWatch(roomId, user.uid).catch(() => undefined);
+    };
+  }, [roomId, user, navigate]);
+
+  // The game server only has a table once the host started the game
+  const gameStarted = !!room?.gameStarted;
+  useEffect(() => {
+    if (!roomId || !joined || !gameStarted) return;
+
+    return subscribeToGame(roomId, (gameView) => {
+      setView(gameView);
+      setError('');
+    }, (err) => {
+      setError(err.message);
+    });
+  }, [roomId, joined, gameStarted]);
+
+  const spectatorCount = room?.spectatorIds?.length ?? 0;
+
+  if (error && !view) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-white px-4">
+        <div className="bg-black border border-black text-white px-6 py-4 rounded-lg mb-4 max-w-md text-center">
+          {error}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          Kembali
+        </button>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-black text-xl">
+          {room && !room.gameStarted ? 'Menunggu game dimulai...' : 'Memuat meja...'}
+        </div>
+      </div>
+    );
+  }
+
+  const currentPlayerId = view.status === 'playing' ? getCurrentPlayerView(view).id : undefined;
+  const winner = getPlayerView(view, view.winner);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-black">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-bold text-black">Menonton Room: {roomId}</h1>
+              <span className="text-gray-600">
+                Ronde {view.currentRound}{view.match && ` / ${view.match.settings.rounds}`}
+              </span>
+              <span className="text-sm text-gray-600">👁 {spectatorCount} penonton</span>
+            </div>
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              Keluar
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        {error && (
+          <div className="mb-4 bg-black text-white px-4 py-3 rounded-lg text-sm text-center border border-black">
+            {error}
+          </div>
+        )}
+
+        {view.status === 'finished' && winner && (
+          <div className="mb-4 p-2 bg-green-50 border border-green-300 rounded text-sm text-center">
+            🏆 Pemenang: {winner.displayName}
+            {view.gameOverReason === 'memukul' ? ' (Memukul)' : ' (Deck habis)'}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Table */}
+          <div className="space-y-6">
+            <TurnIndicatorComponent view={view} isMyTurn={false} />
+
+            <JokerDisplayComponent
+              jokerReferenceCard={view.jokerReferenceCard}
+              jokerCards={view.jokerCards}
+              rules={view.rules}
+            />
+
+            <div className="bg-white border border-black rounded-lg p-4 text-center text-sm text-gray-600">
+              Deck: {view.deckCount} kartu
+            </div>
+
+            <DiscardPileComponent
+              cards={view.discardPile}
+              discardedBy={view.discardedBy}
+              isMyTurn={false}
+              canTakeFromDiscard={false}
+            />
+
+            {view.match && <ScoreboardComponent match={view.match} />}
+          </div>
+
+          {/* Players - hands are shown once the round is over */}
+          <div className="lg:col-span-2 space-y-6">
+            {view.players.map(player => (
+              <div key={player.id} className="space-y-3">
+                <HandComponent
+                  player={player}
+                  title={`${player.displayName}${player.id === currentPlayerId ? ' (giliran)' : ''} - ${player.handCount} kartu`}
+                  selectedCards={[]}
+                  isMyTurn={false}
+                  showCards={!!player.hand}
+                  showControls={false}
+                />
+                {player.melds.length > 0 && (
+                  <MeldAreaComponent
+                    player={player}
+                    rules={view.rules}
+                    showPlayerName={false}
+                    compact={true}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Watch;
@@ -0,0 +1,281 @@
+import { Card, RANKS } from './Card';
+import { GameCommand } from './GameCommand';
+import { GameView, PlayerView, getCurrentPlayerView, hydrateGameView } from './GameView';
+import { GameValidator, ValidationResult } from './GameValidator';
+import { RandomSource, randomInt } from './Random';
+import { MonteCarloBot } from './MonteCarloBot';
+
+// Computer players. A bot sees exactly what a human in its seat would (its
+// own GameView) and answers three questions: where to draw from, which melds
+// to lay down and which card to discard. runBotTurn turns those answers into
+// ordinary commands, so bots go through the same validation as everyone else.
+
+// 'autoPlay' is not offered for a seat: the server uses it to finish the
+// turn of a player who went offline
+export type BotLevel = 'random' | 'greedy' | 'expert' | 'autoPlay';
+
+export const BOT_LEVELS: { level: BotLevel; label: string }[] = [
+  { level: 'random', label: 'Bot Mudah' },
+  { level: 'greedy', label: 'Bot Sedang' },
+  { level: 'expert', label: 'Bot Sulit' }
+];
+
+export interface BotContext {
+  view: GameView;
+  player: PlayerView; // The bot's own seat
+  hand: Card[];
+  random: RandomSource;
+}
+
+export interface DrawChoice {
+  fromDiscard: boolean;
+  count?: number;
+}
+
+// A hand card to add to a meld on the table
+export interface LayOff {
+  meldId: string;
+  card: Card;
+}
+
+export interface BotPlayer {
+  readonly level: BotLevel;
+  chooseDraw(context: BotContext): DrawChoice;
+  chooseMelds(context: BotContext): Card[][];
+  chooseLayOffs?(context: BotContext): LayOff[];
+  chooseDiscard(context: BotContext): Card;
+}
+
+// Applies a command for the bot and reports whether it was accepted
+export type BotCommandRunner = (command: GameCommand) => Promise<ValidationResult>;
+
+// Safety net against a strategy that never ends its turn
+const MAX_BOT_STEPS = 20;
+
+export const isJokerCard = (card: Card, view: GameView): boolean => {
+  return card.isJoker || card.isActiveJoker(view.activeJokerValue);
+};
+
+// Find two hand cards that form a meld with `card` (Rul-001: only a run
+// until the player has laid one)
+export const findMeldWithCard = (card: Card, hand: Card[], view: GameView, hasLaidRun: boolean): Card[] | undefined => {
+  const others = hand.filter(other => other.id !== card.id);
+
+  for (let i = 0; i < others.length; i++) {
+    for (let j = i + 1; j < others.length; j++) {
+      const cards = [card, others[i], others[j]];
+      const meld = GameValidator.isValidMeld(cards, view.activeJokerValue, view.rules);
+      if (meld.valid && (hasLaidRun || meld.type === 'run')) {
+        return cards;
+      }
+    }
+  }
+  return undefined;
+};
+
+// Melds from GameValidator.getMeldSuggestions the player is allowed to lay down now
+export const getAllowedMelds = (context: BotContext): Card[][] => {
+  const { view, player, hand } = context;
+  const suggestions = GameValidator.getMeldSuggestions(hand, view.activeJokerValue, view.rules);
+  if (player.hasLaidRun) return suggestions;
+
+  // Only runs until the first one is down
+  return suggestions.filter(cards => GameValidator.isValidRun(cards, view.activeJokerValue, view.rules));
+};
+
+// Can the top discard be melded straight away (GMM-003)?
+const canMeldTopDiscard = (context: BotContext): boolean => {
+  const { view, player, hand } = context;
+  const top = view.discardPile[view.discardPile.length - 1];
+  return !!top && !!findMeldWithCard(top, hand, view, player.hasLaidRun);
+};
+
+// How many hand cards could end up in a meld with this one
+export const countConnections = (card: Card, hand: Card[]): number => {
+  const rank = RANKS.indexOf(card.rank);
+  return hand.filter(other => other.id !== card.id && (
+    other.rank === card.rank ||
+    (other.suit === card.suit && Math.abs(RANKS.indexOf(other.rank) - rank) <= 2)
+  )).length;
+};
+
+// Easy bot: legal but aimless
+export class RandomBot implements BotPlayer {
+  readonly level: BotLevel = 'random';
+
+  chooseDraw(context: BotContext): DrawChoice {
+    if (canMeldTopDiscard(context) && context.random() < 0.5) {
+      return { fromDiscard: true, count: 1 };
+    }
+    return { fromDiscard: false };
+  }
+
+  chooseMelds(context: BotContext): Card[][] {
+    return getAllowedMelds(context).filter(() => context.random() < 0.5);
+  }
+
+  chooseDiscard(context: BotContext): Card {
+    const { view, hand, random } = context;
+    const candidates = hand.filter(card => !isJokerCard(card, view));
+    const pool = candidates.length > 0 ? candidates : hand;
+    return pool[randomInt(random, pool.length)];
+  }
+}
+
+// Medium bot: takes every meld it can and throws away its loosest card
+export class GreedyBot implements BotPlayer {
+  readonly level: BotLevel = 'greedy';
+
+  chooseDraw(context: BotContext): DrawChoice {
+    return { fromDiscard: canMeldTopDiscard(context), count: 1 };
+  }
+
+  chooseMelds(context: BotContext): Card[][] {
+    return getAllowedMelds(context);
+  }
+
+  chooseDiscard(context: BotContext): Card {
+    const { view, hand } = context;
+    const candidates = hand.filter(card => !isJokerCard(card, view));
+    const pool = candidates.length > 0 ? candidates : hand;
+
+    // Fewest connections first, then the highest value
+    return [...pool].sort((a, b) =>
+      countConnections(a, hand) - countConnections(b, hand) || view.rules.cardValues[b.rank] - view.rules.cardValues[a.rank]
+    )[0];
+  }
+}
+
+// Stand-in for a disconnected player: draws from the deck, lays nothing
+// down and throws away the highest-value card
+export class AutoPlayBot implements BotPlayer {
+  readonly level: BotLevel = 'autoPlay';
+
+  chooseDraw(): DrawChoice {
+    return { fromDiscard: false };
+  }
+
+  chooseMelds(): Card[][] {
+    return [];
+  }
+
+  chooseDiscard(context: BotContext): Card {
+    const { view, hand } = context;
+    const candidates = hand.filter(card => !isJokerCard(card, view));
+    const pool = candidates.length > 0 ? candidates : hand;
+    return [...pool].sort((a, b) => view.rules.cardValues[b.rank] - view.rules.cardValues[a.rank])[0];
+  }
+}
+
+export const createBot = (level: BotLevel): BotPlayer => {
+  switch (level) {
+    case 'autoPlay':
+      return new AutoPlayBot();
+    case 'expert':
+      return new MonteCarloBot();
+    case 'greedy':
+      return new GreedyBot();
+    case 'random':
+    default:
+      return new RandomBot();
+  }
+};
+
+// The meld that uses the cards just taken from the discard pile (GMM-003)
+const getPendingMeld = (context: BotContext): Card[] | undefined => {
+  const { view, player, hand } = context;
+  const pending = view.pendingMeldCardIds
+    .map(cardId => [...hand, ...player.stagedCards].find(card => card.id === cardId))
+    .filter(Boolean) as Card[];
+  if (pending.length === 0) return undefined;
+
+  // Several cards from the pile were only takeable because they form a meld
+  if (pending.length > 1) return pending;
+  return findMeldWithCard(pending[0], hand, view, player.hasLaidRun);
+};
+
+// Lay-offs of the cards just taken from the discard pile onto every meld on
+// the table; a single card may have been takeable only this way (GMM-003)
+const getPendingLayOffs = (context: BotContext): GameCommand[] => {
+  const { view, hand } = context;
+  const tableMelds = view.players.flatMap(owner => owner.melds);
+  return hand
+    .filter(card => view.pendingMeldCardIds.includes(card.id))
+    .flatMap(card => tableMelds.map((meld): GameCommand => ({ type: 'extend', meldId: meld.id, cardIds: [card.id] })));
+};
+
+// Commands to try for the bot's next step, best first
+const getCandidateCommands = (bot: BotPlayer, context: BotContext): GameCommand[] => {
+  const { view, hand } = context;
+  const discards = (): GameCommand[] => {
+    const preferred = bot.chooseDiscard(context);
+    return [preferred, ...hand.filter(card => card.id !== preferred.id)]
+      .map(card => ({ type: 'discard', cardId: card.id }));
+  };
+
+  // Opening turn: discard from 8 cards (GMS-002B)
+  if (!view.firstPlayerDiscarded) {
+    return discards();
+  }
+
+  if (view.currentTurnPhase === 'drawPhase') {
+    const choice = bot.chooseDraw(context);
+    const deckDraw: GameCommand = { type: 'draw', fromDiscard: false };
+    // A single discard is only taken when it can be melded this turn
+    const canTake = (choice.count ?? 1) > 1 || canMeldTopDiscard(context);
+    return choice.fromDiscard && canTake
+      ? [{ type: 'draw', fromDiscard: true, count: choice.count ?? 1 }, deckDraw]
+      : [deckDraw];
+  }
+
+  // The discards are only accepted once the pending cards cannot be melded
+  // any more, so the turn always ends
+  if (view.pendingMeldCardIds.length > 0) {
+    const meld = getPendingMeld(context);
+    const pendingMeld: GameCommand[] = meld ? [{ type: 'meld', cardIds: meld.map(card => card.id) }] : [];
+    return [...pendingMeld, ...getPendingLayOffs(context), ...discards()];
+  }
+
+  if (view.currentTurnPhase !== 'meldPhase') {
+    return discards();
+  }
+
+  const melds: GameCommand[] = bot.chooseMelds(context)
+    .map(cards => ({ type: 'meld', cardIds: cards.map(card => card.id) }));
+  const layOffs: GameCommand[] = (bot.chooseLayOffs?.(context) ?? [])
+    .map(layOff => ({ type: 'extend', meldId: layOff.meldId, cardIds: [layOff.card.id] }));
+  return [...melds, ...layOffs, ...discards()];
+};
+
+// Play one whole turn for a bot seat. getView must return the bot's current
+// view; apply runs a command through the normal game validation.
+export const runBotTurn = async (
+  bot: BotPlayer,
+  getView: () => GameView,
+  apply: BotCommandRunner,
+  random: RandomSource = Math.random
+): Promise<void> => {
+  for (let step = 0; step < MAX_BOT_STEPS; step++) {
+    const view = hydrateGameView(getView());
+    const player = view.players.find(p => p.id === view.viewerId);
+    if (!player || view.status !== 'playing' || getCurrentPlayerView(view).id !== player.id) {
+      return;
+    }
+
+    const context: BotContext = { view, player, hand: player.hand ?? [], random };
+    let applied = false;
+    for (const command of getCandidateCommands(bot, context)) {
+      const result = await apply(command);
+      if (result.valid) {
+        applied = true;
+        break;
+      }
+    }
+
+    if (!applied) {
+      throw new Error(`Bot ${player.id} has no valid move`);
+    }
+  }
+
+  throw new Error('Bot did not finish its turn');
+};
@@ -1,31 +1,35 @@
 // Core game classes for Rummy game with OOP design
 
+import { RandomSource, randomInt } from './Random';
+import { DEFAULT_RULE_SET, RuleSet } from './RuleSet';
+
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
 export type MeldType = 'set' | 'run';
 
-// Card values for scoring (Rul-007 - basic values for cards in hand)
-const CARD_VALUES: Record<Rank, number> = {
-  'A': 15, '2': 5, '3': 5, '4': 5, '5': 5, '6': 5, '7': 5, '8': 5, '9': 5, '10': 5, 'J': 10, 'Q': 10, 'K': 10
-};
+export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
 
-// Winning card values (Rul-005 - when player "Memukul" with 1 card left)
-const WINNING_CARD_VALUES: Record<Rank, number> = {
-  'A': 150, '2': 50, '3': 50, '4': 50, '5': 50, '6': 50, '7': 50, '8': 50, '9': 50, '10': 50, 'J': 100, 'Q': 100, 'K': 100
-};
+// The natural card a joker stands in for inside a meld
+export interface JokerAssignment {
+  suit: Suit;
+  rank: Rank;
+}
 
 export class Card {
   readonly id: string;
   readonly suit: Suit;
   readonly rank: Rank;
-  readonly value: number;
+  readonly value: number; // Value under the default rules; scoring uses the game's RuleSet
+  readonly ordinal: number; // Rank order, A=1 to K=13; runs use this, never the value
   readonly isJoker: boolean;
 
-  constructor(suit: Suit, rank: Rank, isJoker: boolean = false) {
-    this.id = `${suit}-${rank}`;
+  constructor(suit: Suit, rank: Rank, isJoker: boolean = false, id?: string) {
+    this.id = id ?? `${suit}-${rank}`;
     this.suit = suit;
     this.rank = rank;
-    this.value = CARD_VALUES[rank];
+    this.value = DEFAULT_RULE_SET.cardValues[rank];
+    this.ordinal = RANKS.indexOf(rank) + 1;
     this.isJoker = isJoker;
   }
 
@@ -34,6 +38,11 @@ export class Card {
     return new Card(suit, rank, true);
   }
 
+  // Rebuild a card from serialized data, keeping its id
+  static fromData(data: { id: string; suit: Suit; rank: Rank; isJoker: boolean }): Card {
+    return new Card(data.suit, data.rank, data.isJoker, data.id);
+  }
+
   // Get display string for the card
   getDisplay(jokerValue?: string): string {
     if (this.isActiveJoker(jokerValue)) return `${this.rank}🃏`;
@@ -55,9 +64,9 @@ export class Card {
   }
 
   // Get winning score value
-  getWinningValue(): number {
-    if (this.isJoker) return 250;
-    return WINNING_CARD_VALUES[this.rank];
+  getWinningValue(rules: RuleSet = DEFAULT_RULE_SET): number {
+    if (this.isJoker) return rules.jokerWinningValue;
+    return rules.winningCardValues[this.rank];
   }
 
   // Check if card matches another card by rank
@@ -67,7 +76,7 @@ export class Card {
 
   // Check if card forms sequence with another card
   formsSequenceWith(other: Card): boolean {
-    return this.suit === other.suit && Math.abs(this.value - other.value) === 1;
+    return this.suit === other.suit && Math.abs(this.ordinal - other.ordinal) === 1;
   }
 
   // Check if card is an active joker based on the joker value
@@ -77,34 +86,41 @@ export class Card {
 
   // Create a copy of the card
   copy(): Card {
-    return new Card(this.suit, this.rank, this.isJoker);
+    return new Card(this.suit, this.rank, this.isJoker, this.id);
   }
 }
 
 export class Deck {
   private cards: Card[] = [];
 
-  constructor() {
-    this.initialize();
+  constructor(deckCount: number = 1) {
+    this.initialize(deckCount);
   }
 
-  // Initialize a standard 52-card deck
-  private initialize(): void {
-    const suits: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
-    const ranks: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-
+  // Initialize `deckCount` standard 52-card decks. Cards of the first deck
+  // keep their plain `suit-rank` id, later decks add the deck number.
+  private initialize(deckCount: number): void {
     this.cards = [];
-    suits.forEach(suit => {
-      ranks.forEach(rank => {
-        this.cards.push(new Card(suit, rank));
+    for (let deck = 1; deck <= deckCount; deck++) {
+      SUITS.forEach(suit => {
+        RANKS.forEach(rank => {
+          this.cards.push(new Card(suit, rank, false, deck === 1 ? undefined : `${suit}-${rank}-${deck}`));
+        });
       });
-    });
+    }
+  }
+
+  // Deck holding exactly the given cards
+  static fromCards(cards: Card[]): Deck {
+    const deck = new Deck(0);
+    deck.addCards(cards);
+    return deck;
   }
 
   // Shuffle deck using Fisher-Yates algorithm
-  shuffle(): void {
+  shuffle(random: RandomSource = Math.random): void {
     for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = randomInt(random, i + 1);
       [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
     }
   }
@@ -115,6 +131,12 @@ export class Deck {
     return drawnCards;
   }
 
+  // Take the first card matching a predicate out of the deck
+  drawWhere(predicate: (card: Card) => boolean): Card | undefined {
+    const index = this.cards.findIndex(predicate);
+    return index === -1 ? undefined : this.cards.splice(index, 1)[0];
+  }
+
   // Get remaining cards count
   getRemainingCount(): number {
     return this.cards.length;
@@ -137,9 +159,7 @@ export class Deck {
 
   // Get deck copy
   copy(): Deck {
-    const newDeck = new Deck();
-    newDeck.cards = this.cards.map(card => card.copy());
-    return newDeck;
+    return Deck.fromCards(this.cards.map(card => card.copy()));
   }
 }
 
@@ -148,12 +168,53 @@ export class Meld {
   readonly type: MeldType;
   readonly cards: Card[];
   readonly playerId: string;
-
-  constructor(type: MeldType, cards: Card[], playerId: string) {
-    this.id = `meld-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  readonly jokerAssignments: Record<string, JokerAssignment>; // joker cardId -> card it represents
+
+  constructor(
+    type: MeldType,
+    cards: Card[],
+    playerId: string,
+    id?: string,
+    jokerAssignments: Record<string, JokerAssignment> = {}
+  ) {
+    this.id = id ?? `meld-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     this.type = type;
     this.cards = cards;
     this.playerId = playerId;
+    this.jokerAssignments = jokerAssignments;
+  }
+
+  // Rebuild a meld from serialized data, keeping its id
+  static fromData(data: {
+    id: string;
+    type: MeldType;
+    cards: any[];
+    playerId: string;
+    jokerAssignments?: Record<string, JokerAssignment>;
+  }): Meld {
+    return new Meld(
+      data.type,
+      data.cards.map(card => Card.fromData(card)),
+      data.playerId,
+      data.id,
+      data.jokerAssignments || {}
+    );
+  }
+
+  // Create a new meld with extra cards laid off on this one
+  extend(cards: Card[], jokerAssignments: Record<string, JokerAssignment>): Meld {
+    return new Meld(this.type, [...this.cards, ...cards], this.playerId, this.id, jokerAssignments);
+  }
+
+  // Create a new meld with a joker replaced by the natural card it represents
+  swapJoker(jokerCardId: string, card: Card, jokerAssignments: Record<string, JokerAssignment>): Meld {
+    const cards = this.cards.map(c => c.id === jokerCardId ? card : c);
+    return new Meld(this.type, cards, this.playerId, this.id, jokerAssignments);
+  }
+
+  // Get the card a joker in this meld stands in for
+  getJokerAssignment(cardId: string): JokerAssignment | undefined {
+    return this.jokerAssignments[cardId];
   }
 
   // Check if this is a run meld
@@ -186,10 +247,21 @@ export class DiscardPile {
   private cards: Card[] = [];
   private discardedBy: Record<string, string> = {}; // cardId -> playerId
 
-  // Add card to discard pile
-  addCard(card: Card, playerId: string): void {
+  // Pile holding the given cards. `discardedBy` may also name cards that
+  // have since been taken off the pile.
+  static fromCards(cards: Card[], discardedBy: Record<string, string>): DiscardPile {
+    const pile = new DiscardPile();
+    pile.cards = [...cards];
+    pile.discardedBy = { ...discardedBy };
+    return pile;
+  }
+
+  // Add card to discard pile (no player for the face-up starter card)
+  addCard(card: Card, playerId?: string): void {
     this.cards.push(card);
-    this.discardedBy[card.id] = playerId;
+    if (playerId) {
+      this.discardedBy[card.id] = playerId;
+    }
   }
 
   // Get top card (last discarded)
@@ -228,6 +300,11 @@ export class DiscardPile {
     return this.discardedBy[cardId];
   }
 
+  // Get who discarded each card (cardId -> playerId)
+  getDiscardedBy(): Record<string, string> {
+    return { ...this.discardedBy };
+  }
+
   // Get cards by player
   getCardsByPlayer(playerId: string): Card[] {
     return this.cards.filter(card => this.discardedBy[card.id] === playerId);
@@ -0,0 +1,76 @@
+import { Card } from './Card';
+import { Game, GameData, GameOverReason, RoundSetup } from './Game';
+import { GameCommand } from './GameCommand';
+import { GameValidator, ValidationResult } from './GameValidator';
+import { GameView, hydrateGameView } from './GameView';
+import { generateSeed } from './Random';
+import { DEFAULT_RULE_SET, RuleSet } from './RuleSet';
+import { ScoreManager } from './ScoreManager';
+
+// The rules engine as plain functions. Every call takes the canonical
+// GameData and hands back a new one, so callers never hold a live Game.
+// Underneath it is the same Game, GameValidator and ScoreManager the game
+// server and the bots use; there is no second set of rules anywhere.
+
+export type GameState = GameData;
+
+// Deal a new game (GMS-001 to GMS-003)
+export const initializeGame = (
+  playerIds: string[],
+  displayNames: string[],
+  seed: number = generateSeed(),
+  rules: RuleSet = DEFAULT_RULE_SET,
+  setup: RoundSetup = {}
+): GameState => {
+  const game = new Game(playerIds, displayNames, seed, setup, rules);
+  game.start();
+  return game.getData();
+};
+
+// Check a command against the state without applying it
+export const validateAction = (state: GameState, playerId: string, command: GameCommand): ValidationResult => {
+  return GameValidator.validateCommand(Game.fromData(state), playerId, command);
+};
+
+// Apply a command and return the next state; the given state is left as is
+export const applyAction = async (state: GameState, playerId: string, command: GameCommand): Promise<GameState> => {
+  const game = Game.fromData(state);
+  const validation = GameValidator.validateCommand(game, playerId, command);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  await game.applyCommand(playerId, command);
+  return game.getData();
+};
+
+// What one seat may see of the state (no viewer: every hand hidden)
+export const getView = (state: GameState, viewerId?: string): GameView => {
+  return hydrateGameView(Game.fromData(state).getViewFor(viewerId));
+};
+
+// Rul-004 (Memukul) or Rul-006 (deck empty)
+export const isGameOver = (state: GameState): {
+  gameOver: boolean;
+  winner?: string;
+  reason?: GameOverReason;
+} => {
+  if (state.status !== 'finished') return { gameOver: false };
+  return { gameOver: true, winner: state.winner, reason: state.gameOverReason };
+};
+
+// Score of the cards left in a hand (Rul-007, Rul-007B)
+export const calculateHandScore = (hand: Card[], rules: RuleSet = DEFAULT_RULE_SET): number => {
+  return ScoreManager.calculateHandScore(hand, rules);
+};
+
+// Points for going out on `finalCard` (Rul-005)
+export const calculateWinningScore = (finalCard: Card, rules: RuleSet = DEFAULT_RULE_SET): number => {
+  return ScoreManager.calculateWinningScore(finalCard, rules);
+};
+
+// Round scores of a finished game, including who earns the joker grant
+export const calculateRoundScores = (state: GameState) => {
+  const game = Game.fromData(state);
+  return ScoreManager.calculateRoundScores(game, game.getWinner());
+};
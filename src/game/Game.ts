@@ -1,17 +1,39 @@
-import { Card, Deck, DiscardPile } from './Card';
+import { Card, Deck, DiscardPile, Meld } from './Card';
 import { Player, PlayerData } from './Player';
-import { TurnManager } from './TurnManager';
+import { TurnData, TurnManager } from './TurnManager';
 import { ScoreManager } from './ScoreManager';
-import { GameValidator } from './GameValidator';
+import { GameValidator, REPEATED_CARD_ERROR } from './GameValidator';
+import { GameCommand, normalizeCommand } from './GameCommand';
+import { GameEvent } from './GameEvent';
+import { GameView } from './GameView';
+import { RandomSource, createRandom, generateSeed, randomInt } from './Random';
+import { DEFAULT_RULE_SET, RuleSet, getRequiredDecks } from './RuleSet';
 
 export type GameStatus = 'lobby' | 'playing' | 'finished';
 export type GameOverReason = 'memukul' | 'deck_empty';
 export type TurnPhase = 'drawPhase' | 'meldPhase' | 'discardPhase';
 
+// How a round of a match is dealt. A single game leaves these unset.
+export interface RoundSetup {
+  round?: number;
+  dealerIndex?: number; // The player after the dealer opens; random if unset
+  jokerGrant?: string; // Player dealt one Joker, from the previous round's scores
+}
+
+// Version of the GameData layout. Bump it with every change to the stored
+// fields and add a migration for the previous version in GameSchema.ts.
+export const GAME_SCHEMA_VERSION = 5;
+
 export interface GameData {
+  schemaVersion: number;
+  stateVersion: number; // Bumped on every change; a save must be based on the stored version
   id: string;
+  seed: number; // RNG seed - reveals the deal, never send to clients
   status: GameStatus;
   currentRound: number;
+  dealerIndex: number;
+  jokerGrant?: string;
+  rules: RuleSet;
   players: PlayerData[];
   deck: Card[];
   discardPile: Card[];
@@ -20,7 +42,9 @@ export interface GameData {
   activeJokerValue?: string;
   currentPlayerIndex: number;
   currentTurnPhase: TurnPhase;
-  turnStartTime: number;
+  startTime: number;
+  turnHistory: TurnData[];
+  currentTurn: TurnData;
   winner?: string;
   gameOverReason?: GameOverReason;
   lastAction?: {
@@ -33,13 +57,18 @@ export interface GameData {
   discardedBy: Record<string, string>;
   firstPlayerDiscarded: boolean;
   lastDrawFromDiscard: boolean;
+  pendingMeldCardIds: string[];
   direction: 1 | -1;
+  events: GameEvent[];
 }
 
 export class Game {
   private id: string;
   private status: GameStatus;
   private currentRound: number;
+  private dealerIndex: number = 0;
+  private setup: RoundSetup;
+  private rules: RuleSet;
   private players: Player[];
   private deck: Deck;
   private discardPile: DiscardPile;
@@ -58,8 +87,19 @@ export class Game {
     drawCount?: number;
   };
   private startTime: number;
-
-  constructor(playerIds: string[], displayNames: string[]) {
+  private seed: number;
+  private random: RandomSource;
+  private events: GameEvent[] = [];
+  private stateVersion: number = 0;
+  private pendingMeldCardIds: string[] = []; // Cards taken from the discard pile this turn, not yet melded
+
+  constructor(
+    playerIds: string[],
+    displayNames: string[],
+    seed: number = generateSeed(),
+    setup: RoundSetup = {},
+    rules: RuleSet = DEFAULT_RULE_SET
+  ) {
     // Validate game start
     const validation = GameValidator.validateGameStart(playerIds.length);
     if (!validation.valid) {
@@ -68,16 +108,20 @@ export class Game {
 
     this.id = this.generateGameId();
     this.status = 'lobby';
-    this.currentRound = 1;
+    this.currentRound = setup.round ?? 1;
+    this.setup = setup;
+    this.rules = rules;
     this.startTime = Date.now();
+    this.seed = seed;
+    this.random = createRandom(seed);
 
     // Create players
     this.players = playerIds.map((id, index) =>
       new Player(id, displayNames[index])
     );
 
-    // Initialize deck and discard pile
-    this.deck = new Deck();
+    // Initialize deck and discard pile; big tables play with a second deck
+    this.deck = new Deck(getRequiredDecks(rules, playerIds.length));
     this.discardPile = new DiscardPile();
 
     // Initialize turn manager
@@ -97,27 +141,39 @@ export class Game {
 
     this.status = 'playing';
     this.initializeGame();
+
+    this.recordEvent({
+      seq: this.events.length,
+      type: 'start',
+      timestamp: Date.now(),
+      gameId: this.id,
+      seed: this.seed,
+      players: this.players.map(player => ({ id: player.id, displayName: player.displayName })),
+      round: this.setup.round !== undefined ? { ...this.setup } : undefined,
+      rules: this.rules
+    });
   }
 
   // Initialize game state
   private initializeGame(): void {
     // Shuffle deck
-    this.deck.shuffle();
+    this.deck.shuffle(this.random);
 
     // Setup joker system according to PRD
     this.setupJokerSystem();
 
+    // Reset turn manager for game start
+    this.turnManager.reset();
+
     // Deal cards to players
     this.dealCards();
 
-    // Reset turn manager for game start
-    this.turnManager.reset();
+    // Every player starts with the whole time bank
+    this.players.forEach(player => player.setTimeBank(this.rules.timeBank * 1000));
 
-    // All players start in draw phase (no special first player rules)
+    // The first player opens by discarding its extra card (GMS-002B);
+    // everyone else starts in draw phase
     this.currentTurnPhase = 'drawPhase';
-
-    // Debug game state after initialization
-    this.debugGameState();
   }
 
   // Setup joker system according to PRD
@@ -125,30 +181,27 @@ export class Game {
     const allCards = this.deck.getCards();
 
     // Step 1: draw 1 random card as 'jokerDeterminer'
-    const randomIndex = Math.floor(Math.random() * allCards.length);
+    const randomIndex = randomInt(this.random, allCards.length);
     const jokerDeterminer = allCards[randomIndex];
 
     // Step 2: mark all same-value cards as 'activeJoker'
     const activeJokerCards = allCards.filter(card => card.rank === jokerDeterminer.rank);
 
-    // Step 3: remove jokerDeterminer from deck
-    const remainingCards = allCards.filter(card => card.id !== jokerDeterminer.id);
+    // Step 3: remove jokerDeterminer and its twins from deck
+    const remainingCards = allCards.filter(card => card.rank !== jokerDeterminer.rank);
 
-    // Step 4: shuffle remaining 51 cards
-    this.deck = new Deck();
-    this.deck.addCards(remainingCards);
+    // Step 4: shuffle remaining 51 cards (103 with two decks)
+    this.deck = Deck.fromCards(remainingCards);
 
-    // Step 5: Add joker cards back to deck for dealing
+    // Step 5: Add the twins back to deck as jokers for dealing
     const jokerCardsWithUniqueIds = activeJokerCards
       .filter(card => card.id !== jokerDeterminer.id)
       .map((card, index) => {
-        const jokerCard = new Card(card.suit, card.rank, true);
-        (jokerCard as any).id = `${card.id}-joker-${index}`; // Create unique ID
-        return jokerCard;
+        return new Card(card.suit, card.rank, true, `${card.id}-joker-${index}`);
       });
 
     this.deck.addCards(jokerCardsWithUniqueIds);
-    this.deck.shuffle();
+    this.deck.shuffle(this.random);
 
     // Store joker reference card and active joker value for display
     this.jokerReferenceCard = jokerDeterminer;
@@ -158,25 +211,56 @@ export class Game {
     this.jokerCards = jokerCardsWithUniqueIds;
   }
 
-  // Deal cards to players (Gin Rummy style - 7 cards each)
+  // Deal cards to players (RuleSet.handSize each, 7 in Remi Renjana)
   private dealCards(): void {
-    // Start with Player 1 (index 0) as first player
-    this.turnManager.setCurrentPlayerIndex(0);
+    const handSize = this.rules.handSize;
+
+    // The joker grant is dealt as one of the player's cards, while the deck has one
+    const grantedJoker = this.setup.jokerGrant ? this.deck.drawWhere(card => card.isJoker) : undefined;
 
-    // Give each player 7 cards
     this.players.forEach((player) => {
-      const cards = this.deck.draw(7); // All players get 7 cards
-      player.addCards(cards);
+      if (grantedJoker && player.id === this.setup.jokerGrant) {
+        player.addCards([grantedJoker, ...this.deck.draw(handSize - 1)]);
+      } else {
+        player.addCards(this.deck.draw(handSize));
+      }
       player.sortHand();
+
+      // House rules without Rul-001 let any meld open
+      if (!this.rules.firstMeldMustBeRun) {
+        player.waiveRunRequirement();
+      }
     });
+
+    // GMS-002A: turn one card face up to start the discard pile
+    this.deck.draw(1).forEach(card => this.discardPile.addCard(card));
+
+    // GMS-002B: the player after the dealer (random for a single game) gets
+    // an extra card and must open by discarding
+    const playerCount = this.players.length;
+    const firstPlayerIndex = this.setup.dealerIndex !== undefined
+      ? (this.setup.dealerIndex + 1) % playerCount
+      : randomInt(this.random, playerCount);
+    this.dealerIndex = (firstPlayerIndex - 1 + playerCount) % playerCount;
+    this.turnManager.setCurrentPlayerIndex(firstPlayerIndex);
+
+    const firstPlayer = this.players[firstPlayerIndex];
+    firstPlayer.addCards(this.deck.draw(1));
+    firstPlayer.sortHand();
   }
 
   // Get game data as plain object
   getData(): GameData {
     const data: GameData = {
+      schemaVersion: GAME_SCHEMA_VERSION,
+      stateVersion: this.stateVersion,
       id: this.id,
+      seed: this.seed,
       status: this.status,
       currentRound: this.currentRound,
+      dealerIndex: this.dealerIndex,
+      jokerGrant: this.setup.jokerGrant,
+      rules: this.rules,
       players: this.players.map(player => player.getData()),
       deck: this.deck.getCards().map(card => this.serializeCard(card)),
       discardPile: this.discardPile.getAllCards().map(card => this.serializeCard(card)),
@@ -185,13 +269,15 @@ export class Game {
       activeJokerValue: this.activeJokerValue,
       currentPlayerIndex: this.turnManager.getCurrentPlayerIndex(),
       currentTurnPhase: this.currentTurnPhase,
-      turnStartTime: this.turnManager.getCurrentTurnActions().length > 0
-        ? this.turnManager.getCurrentTurnActions()[0].timestamp
-        : Date.now(),
-      discardedBy: {},
+      startTime: this.startTime,
+      turnHistory: this.turnManager.getTurnHistory(),
+      currentTurn: this.turnManager.getCurrentTurn(),
+      discardedBy: this.discardPile.getDiscardedBy(),
       firstPlayerDiscarded: this.turnManager.hasFirstPlayerDiscarded(),
       lastDrawFromDiscard: this.turnManager.lastDrawWasFromDiscard(),
-      direction: this.turnManager.getDirection()
+      pendingMeldCardIds: [...this.pendingMeldCardIds],
+      direction: this.turnManager.getDirection(),
+      events: this.getEvents()
     };
 
     // Only include winner and gameOverReason if they exist
@@ -210,6 +296,59 @@ export class Game {
     return data;
   }
 
+  // Get the redacted state a single viewer may see: their own hand only,
+  // opponent hand counts, and no deck order. Without a viewer no hand is shown.
+  // `revealAllHands` is for replays of finished games.
+  getViewFor(viewerId?: string, revealAllHands: boolean = false): GameView {
+    const view: GameView = {
+      id: this.id,
+      stateVersion: this.stateVersion,
+      viewerId,
+      status: this.status,
+      currentRound: this.currentRound,
+      dealerIndex: this.dealerIndex,
+      jokerGrant: this.setup.jokerGrant,
+      rules: this.rules,
+      players: this.players.map(player => {
+        const data = player.getData();
+        return {
+          id: data.id,
+          displayName: data.displayName,
+          handCount: data.hand.length,
+          hand: revealAllHands || player.id === viewerId ? data.hand : undefined,
+          melds: data.melds,
+          score: data.score,
+          ready: data.ready,
+          connected: data.connected,
+          hasLaidRun: data.hasLaidRun,
+          stagedCards: data.stagedCards,
+          timeBank: data.timeBank
+        };
+      }),
+      deckCount: this.deck.getRemainingCount(),
+      discardPile: this.discardPile.getAllCards().map(card => this.serializeCard(card)),
+      discardedBy: this.discardPile.getDiscardedBy(),
+      jokerCards: this.jokerCards.map(card => this.serializeCard(card)),
+      jokerReferenceCard: this.jokerReferenceCard ? this.serializeCard(this.jokerReferenceCard) : undefined,
+      activeJokerValue: this.activeJokerValue,
+      currentPlayerIndex: this.turnManager.getCurrentPlayerIndex(),
+      currentTurnPhase: this.currentTurnPhase,
+      turnStartTime: this.turnManager.getCurrentTurnStartTime(),
+      turnTimeLeft: this.getTurnTimeLeft(),
+      turnNumber: this.turnManager.getTurnNumber(),
+      averageTurnDuration: this.turnManager.getAverageTurnDuration(),
+      firstPlayerDiscarded: this.turnManager.hasFirstPlayerDiscarded(),
+      lastDrawFromDiscard: this.turnManager.lastDrawWasFromDiscard(),
+      pendingMeldCardIds: [...this.pendingMeldCardIds],
+      direction: this.turnManager.getDirection(),
+      winner: this.winner,
+      gameOverReason: this.gameOverReason,
+      lastAction: this.lastAction
+    };
+
+    return this.removeUndefinedValues(view);
+  }
+
   // Get game data cleaned for Firestore (removes undefined values)
   getDataForFirestore(): any {
     const data = this.getData();
@@ -251,9 +390,9 @@ export class Game {
     };
   }
 
-  // Deserialize plain data back to Card object
+  // Deserialize plain data back to Card object, keeping its id
   deserializeCard(cardData: any): Card {
-    return new Card(cardData.suit, cardData.rank, cardData.isJoker);
+    return Card.fromData(cardData);
   }
 
   // Getters
@@ -261,6 +400,20 @@ export class Game {
     return this.id;
   }
 
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Number of changes made to the game so far
+  getStateVersion(): number {
+    return this.stateVersion;
+  }
+
+  // Get the event log (reveals the deal - server side only while playing)
+  getEvents(): GameEvent[] {
+    return [...this.events];
+  }
+
   getStatus(): GameStatus {
     return this.status;
   }
@@ -269,6 +422,22 @@ export class Game {
     return this.currentRound;
   }
 
+  getDealerIndex(): number {
+    return this.dealerIndex;
+  }
+
+  getJokerGrant(): string | undefined {
+    return this.setup.jokerGrant;
+  }
+
+  getRules(): RuleSet {
+    return this.rules;
+  }
+
+  getRoundSetup(): RoundSetup {
+    return { ...this.setup };
+  }
+
   getPlayers(): Player[] {
     return [...this.players];
   }
@@ -277,6 +446,15 @@ export class Game {
     return this.players.find(player => player.id === playerId);
   }
 
+  // Find a meld on the table, whoever laid it
+  findMeld(meldId: string): Meld | undefined {
+    for (const player of this.players) {
+      const meld = player.getMelds().find(m => m.id === meldId);
+      if (meld) return meld;
+    }
+    return undefined;
+  }
+
   getDeck(): Deck {
     return this.deck;
   }
@@ -301,10 +479,10 @@ export class Game {
     return this.currentTurnPhase;
   }
 
-  // Check if current player must discard (first player with 8 cards)
+  // Check if current player must discard (first player with the extra card)
   mustDiscardFirst(): boolean {
     const currentPlayer = this.getCurrentPlayer();
-    return currentPlayer.getHandSize() === 8 && !this.turnManager.hasFirstPlayerDiscarded();
+    return currentPlayer.getHandSize() === this.rules.handSize + 1 && !this.turnManager.hasFirstPlayerDiscarded();
   }
 
   // Debug methods for checking game state
@@ -317,14 +495,16 @@ export class Game {
   }
 
   getTotalCardsInPlay(): number {
-    const playerCards = this.players.reduce((total, player) => total + player.getHandSize(), 0);
+    // Hands plus the cards taken from the discard pile that wait in the meld area
+    const playerCards = this.players.reduce((total, player) =>
+      total + player.getHandSize() + player.getStagedCards().length, 0);
     const meldCards = this.players.reduce((total, player) => {
       return total + player.getMelds().reduce((meldTotal, meld) => meldTotal + meld.cards.length, 0);
     }, 0);
     return playerCards + meldCards + this.getDeckCount() + this.getDiscardPileCount();
   }
 
-  // For debugging: print game state
+  // For debugging: print game state (not called by the engine itself)
   debugGameState(): void {
     console.log('=== GAME STATE DEBUG ===');
     console.log('Deck size:', this.getDeckCount());
@@ -333,7 +513,7 @@ export class Game {
     console.log('Current turn phase:', this.currentTurnPhase);
     console.log('Current player index:', this.getCurrentPlayerIndex());
     console.log('Total cards in play:', this.getTotalCardsInPlay());
-    console.log('Expected total: 51 (52 - 1 jokerDeterminer)');
+    console.log(`Expected total: ${52 * getRequiredDecks(this.rules, this.players.length) - 1} (52 per deck - 1 jokerDeterminer)`);
     console.log('First player discarded:', this.turnManager.hasFirstPlayerDiscarded());
     console.log('Current player must discard:', this.mustDiscardFirst());
 
@@ -378,6 +558,49 @@ export class Game {
     return this.turnManager.getCurrentPlayer();
   }
 
+  // Mark a player online or offline; returns whether that changed
+  setPlayerConnected(playerId: string, connected: boolean): boolean {
+    const player = this.getPlayer(playerId);
+    if (!player || player.isConnected() === connected) return false;
+
+    player.setConnected(connected);
+    return true;
+  }
+
+  // When the current turn times out: the turn limit plus what is left of
+  // the player's time bank. Undefined without a limit.
+  getTurnDeadline(): number | undefined {
+    if (!this.isPlaying() || this.rules.turnTimeLimit <= 0) return undefined;
+    return this.turnManager.getCurrentTurnStartTime() +
+      this.rules.turnTimeLimit * 1000 +
+      this.getCurrentPlayer().getTimeBank();
+  }
+
+  getTurnTimeLeft(now: number = Date.now()): number | undefined {
+    const deadline = this.getTurnDeadline();
+    return deadline === undefined ? undefined : Math.max(0, deadline - now);
+  }
+
+  hasTurnTimedOut(now: number = Date.now()): boolean {
+    return this.getTurnTimeLeft(now) === 0;
+  }
+
+  // Take the time a turn ran past the limit from the player's time bank
+  private chargeTimeBank(player: Player): void {
+    if (this.rules.turnTimeLimit <= 0) return;
+
+    const overtime = this.turnManager.getCurrentTurnDuration() - this.rules.turnTimeLimit * 1000;
+    if (overtime > 0) {
+      player.setTimeBank(player.getTimeBank() - overtime);
+    }
+  }
+
+  // Is the current player offline and has made no move for graceMs?
+  isCurrentPlayerAway(graceMs: number): boolean {
+    const player = this.getCurrentPlayer();
+    return this.isPlaying() && !this.turnManager.canPlayerAct(player.id) && this.turnManager.isTurnIdle(graceMs);
+  }
+
   getCurrentPlayerIndex(): number {
     return this.turnManager.getCurrentPlayerIndex();
   }
@@ -407,6 +630,11 @@ export class Game {
     return this.turnManager.hasFirstPlayerDiscarded();
   }
 
+  // Cards taken from the discard pile that must still be melded this turn (GMM-003)
+  getPendingMeldCardIds(): string[] {
+    return [...this.pendingMeldCardIds];
+  }
+
   lastDrawFromDiscard(): boolean {
     return this.turnManager.lastDrawWasFromDiscard();
   }
@@ -429,9 +657,9 @@ export class Game {
     let drawnCards: Card[] = [];
 
     if (fromDiscard && drawCount && drawCount > 0) {
-      // Validate discard pile draw rules (1-3 cards)
-      if (drawCount < 1 || drawCount > 3) {
-        throw new Error('Can only take 1-3 cards from discard pile');
+      // Validate discard pile draw rules (1-3 cards in Remi Renjana)
+      if (drawCount < 1 || drawCount > this.rules.maxDiscardPickup) {
+        throw new Error(`Can only take 1-${this.rules.maxDiscardPickup} cards from discard pile`);
       }
 
       // Check if enough cards available in discard pile
@@ -445,7 +673,7 @@ export class Game {
         const cardsToTake = this.discardPile.getLastCards(drawCount);
 
         // Validate that these cards can form a valid meld
-        const meldValidation = GameValidator.isValidMeld(cardsToTake, this.activeJokerValue);
+        const meldValidation = GameValidator.isValidMeld(cardsToTake, this.activeJokerValue, this.rules);
         if (!meldValidation.valid) {
           throw new Error('Must be able to form a valid meld when taking multiple cards from discard pile');
         }
@@ -455,18 +683,13 @@ export class Game {
       drawnCards = this.discardPile.takeCards(drawCount);
       this.turnManager.setLastDrawFromDiscard(true);
 
-      // If taking more than 1 card, only top card goes to hand, others must be melded
-      if (drawCount > 1) {
-        // Extra cards must be able to form valid meld with top card or existing cards
-        // For simplicity, we'll add them to hand and require meld in meld phase
-        player.addCards(drawnCards);
+      // GMM-002A: only the top card goes to hand, the cards under it are
+      // placed in the meld area
+      player.addCards(drawnCards.slice(-1));
+      player.stageCards(drawnCards.slice(0, -1));
 
-        // Mark that this player has pending meld requirement
-        // This will be enforced in meld phase
-        this.turnManager.setLastDrawFromDiscard(true);
-      } else {
-        player.addCards(drawnCards);
-      }
+      // GMM-003: every card taken must be melded before discarding
+      this.pendingMeldCardIds = drawnCards.map(card => card.id);
     } else {
       // Draw from deck
       drawnCards = this.deck.draw(1);
@@ -499,28 +722,34 @@ export class Game {
     const player = this.getPlayer(playerId);
     if (!player) throw new Error('Player not found');
 
-    // Special handling for first player with 8 cards - they can discard immediately
-    const isFirstPlayerWithEightCards = player.getHandSize() === 8 && !this.turnManager.hasFirstPlayerDiscarded();
-
-    if (!isFirstPlayerWithEightCards) {
-      // For all other cases, validate turn phase
-      if (this.currentTurnPhase !== 'discardPhase') {
-        throw new Error('Can only discard cards during discard phase');
-      }
-    }
+    // Special handling for the opening player's extra card - they can discard immediately
+    const isOpeningDiscard = player.getHandSize() === this.rules.handSize + 1 && !this.turnManager.hasFirstPlayerDiscarded();
 
+    // Validate before the meld phase is ended below, so a rejected discard
+    // leaves the turn as it was
     const validation = GameValidator.validateAction(this, playerId, 'discard', cardId);
     if (!validation.valid) {
       throw new Error(validation.error);
     }
 
+    if (!isOpeningDiscard) {
+      // For all other cases, validate turn phase. Discarding during the
+      // meld phase ends it, so every step of a turn is a logged command.
+      if (this.currentTurnPhase === 'meldPhase') {
+        this.skipMeldPhase();
+      }
+      if (this.currentTurnPhase !== 'discardPhase') {
+        throw new Error('Can only discard cards during discard phase');
+      }
+    }
+
     const card = player.removeCard(cardId);
     if (!card) throw new Error('Card not found in hand');
 
     this.discardPile.addCard(card, playerId);
 
-    // Mark first player discard if this is the first discard by player with 8 cards
-    if (isFirstPlayerWithEightCards) {
+    // Mark first player discard if this is the first discard of the opening player
+    if (isOpeningDiscard) {
       this.turnManager.setFirstPlayerDiscarded(true);
     }
 
@@ -529,7 +758,7 @@ export class Game {
       this.winner = playerId;
       this.gameOverReason = 'memukul';
       this.status = 'finished';
-      player.setScore(player.getScore() + ScoreManager.calculateWinningScore(card));
+      player.setScore(player.getScore() + ScoreManager.calculateWinningScore(card, this.rules));
     }
 
     // Record action
@@ -546,17 +775,11 @@ export class Game {
       cardId
     };
 
-    // For first player with 8 cards, move to draw phase after discard
-    // For others, move to next turn
+    // Move to next turn (the opening discard of the extra card also ends the turn)
     if (!this.isFinished()) {
-      if (isFirstPlayerWithEightCards) {
-        // First player goes to draw phase after discarding from 8 to 7 cards
-        this.currentTurnPhase = 'drawPhase';
-      } else {
-        // Normal turn progression
-        this.turnManager.nextTurn();
-        this.startNewTurn();
-      }
+      this.chargeTimeBank(player);
+      this.turnManager.nextTurn();
+      this.startNewTurn();
     }
 
     // Check game over condition
@@ -572,31 +795,35 @@ export class Game {
     const player = this.getPlayer(playerId);
     if (!player) throw new Error('Player not found');
 
-    const meldCards = cardIds.map(id => player.getHand().find(c => c.id === id)).filter(Boolean) as Card[];
+    if (GameValidator.hasRepeatedCards(cardIds)) {
+      throw new Error(REPEATED_CARD_ERROR);
+    }
+
+    const meldCards = cardIds.map(id => player.getMeldableCards().find(c => c.id === id)).filter(Boolean) as Card[];
     const validation = GameValidator.validateAction(this, playerId, 'meld', undefined, meldCards);
     if (!validation.valid) {
       throw new Error(validation.error);
     }
 
-    // Check meld requirement if player drew multiple cards from discard pile
-    if (this.turnManager.lastDrawWasFromDiscard() && this.lastAction?.drawCount && this.lastAction.drawCount > 1) {
-      // Player must create a meld that includes at least some of the drawn cards
-      // This is a simplified implementation - a full implementation would track which cards were drawn
-      console.log('Player must meld after drawing multiple cards from discard pile');
-    }
-
-    // Remove cards from hand
+    // Remove cards from hand (and the meld area)
     player.removeCards(cardIds);
 
     // Determine meld type
-    const meldValidation = GameValidator.isValidMeld(meldCards, this.activeJokerValue);
+    const meldValidation = GameValidator.isValidMeld(meldCards, this.activeJokerValue, this.rules);
     if (!meldValidation.valid) {
       throw new Error('Invalid meld');
     }
 
-    // Create meld
-    const meld = new (await import('./Card')).Meld(meldValidation.type!, meldCards, playerId);
+    // Create meld with an id that is stable across replays
+    const meld = new Meld(
+      meldValidation.type!,
+      meldCards,
+      playerId,
+      this.nextMeldId(),
+      GameValidator.getJokerAssignments(meldValidation.type!, meldCards, this.activeJokerValue, this.rules)
+    );
     player.addMeld(meld);
+    this.clearMeldedPendingCards();
 
     // Record action
     this.turnManager.recordAction({
@@ -616,6 +843,162 @@ export class Game {
     this.checkGameOver();
   }
 
+  // Lay off cards from hand onto an existing meld. The meld keeps its owner;
+  // the cards count as melded by the player who laid them off.
+  async extendMeld(playerId: string, meldId: string, cardIds: string[]): Promise<void> {
+    // Validate turn phase
+    if (this.currentTurnPhase !== 'meldPhase') {
+      throw new Error('Can only extend melds during meld phase');
+    }
+
+    const player = this.getPlayer(playerId);
+    if (!player) throw new Error('Player not found');
+
+    if (GameValidator.hasRepeatedCards(cardIds)) {
+      throw new Error(REPEATED_CARD_ERROR);
+    }
+
+    const cards = cardIds.map(id => player.getMeldableCards().find(c => c.id === id)).filter(Boolean) as Card[];
+    const validation = GameValidator.validateAction(this, playerId, 'extend', undefined, cards, undefined, meldId);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const meld = this.findMeld(meldId)!;
+    const owner = this.getPlayer(meld.playerId);
+    if (!owner) throw new Error('Meld owner not found');
+
+    player.removeCards(cardIds);
+    const assignments = GameValidator.getJokerAssignments(meld.type, [...meld.cards, ...cards], this.activeJokerValue, this.rules);
+    owner.replaceMeld(meld.extend(cards, assignments));
+    this.clearMeldedPendingCards();
+
+    // Record action
+    this.turnManager.recordAction({
+      type: 'meld',
+      playerId,
+      timestamp: Date.now(),
+      details: { meldId, cardIds }
+    });
+
+    this.lastAction = {
+      type: 'meld',
+      playerId,
+      meldId
+    };
+
+    // Check game over condition
+    this.checkGameOver();
+  }
+
+  // Swap a melded joker for the natural card it stands in for; the joker
+  // goes to the player's hand.
+  async swapJoker(playerId: string, meldId: string, jokerCardId: string, cardId: string): Promise<void> {
+    // Validate turn phase
+    if (this.currentTurnPhase !== 'meldPhase') {
+      throw new Error('Can only swap jokers during meld phase');
+    }
+
+    const player = this.getPlayer(playerId);
+    if (!player) throw new Error('Player not found');
+
+    const card = player.getMeldableCards().find(c => c.id === cardId);
+    const validation = GameValidator.validateAction(
+      this,
+      playerId,
+      'swapJoker',
+      jokerCardId,
+      card ? [card] : [],
+      undefined,
+      meldId
+    );
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const meld = this.findMeld(meldId)!;
+    const owner = this.getPlayer(meld.playerId);
+    if (!owner) throw new Error('Meld owner not found');
+
+    const joker = meld.cards.find(c => c.id === jokerCardId)!;
+    const swappedCards = meld.cards.map(c => c.id === jokerCardId ? card! : c);
+    const assignments = GameValidator.getJokerAssignments(meld.type, swappedCards, this.activeJokerValue, this.rules);
+
+    player.removeCards([cardId]);
+    player.addCards([joker]);
+    owner.replaceMeld(meld.swapJoker(jokerCardId, card!, assignments));
+    this.clearMeldedPendingCards();
+
+    // Record action
+    this.turnManager.recordAction({
+      type: 'meld',
+      playerId,
+      timestamp: Date.now(),
+      details: { meldId, cardId, cardIds: [jokerCardId] }
+    });
+
+    this.lastAction = {
+      type: 'meld',
+      playerId,
+      meldId,
+      cardId
+    };
+  }
+
+  // Apply an intent command to the game and append it to the event log
+  async applyCommand(playerId: string, command: GameCommand): Promise<void> {
+    switch (command.type) {
+      case 'draw':
+        await this.drawCard(playerId, command.fromDiscard, command.fromDiscard ? command.count ?? 1 : undefined);
+        break;
+      case 'meld':
+        await this.createMeld(playerId, command.cardIds);
+        break;
+      case 'extend':
+        await this.extendMeld(playerId, command.meldId, command.cardIds);
+        break;
+      case 'swapJoker':
+        await this.swapJoker(playerId, command.meldId, command.jokerCardId, command.cardId);
+        break;
+      case 'discard':
+        await this.discardCard(playerId, command.cardId);
+        break;
+    }
+
+    this.recordEvent({
+      seq: this.events.length,
+      type: 'command',
+      timestamp: Date.now(),
+      playerId,
+      command: normalizeCommand(command)
+    });
+  }
+
+  // Drop pending discard-pile cards that are now part of a meld
+  private clearMeldedPendingCards(): void {
+    this.pendingMeldCardIds = this.pendingMeldCardIds.filter(cardId => !this.findMeldContaining(cardId));
+  }
+
+  private findMeldContaining(cardId: string): Meld | undefined {
+    for (const player of this.players) {
+      const meld = player.getMelds().find(m => m.containsCard(cardId));
+      if (meld) return meld;
+    }
+    return undefined;
+  }
+
+  // Append an immutable event to the log
+  private recordEvent(event: GameEvent): void {
+    this.events.push(Object.freeze(event));
+    this.stateVersion++;
+  }
+
+  // Meld ids are numbered per game so a replay produces the same ids
+  private nextMeldId(): string {
+    const meldCount = this.players.reduce((total, player) => total + player.getMeldCount(), 0);
+    return `${this.id}-meld-${meldCount + 1}`;
+  }
+
   // Check if game is over
   private checkGameOver(): void {
     if (this.isFinished()) return;
@@ -654,10 +1037,12 @@ export class Game {
 
   // Create copy of game
   copy(): Game {
-    const newGame = new Game(this.players.map(p => p.id), this.players.map(p => p.displayName));
+    const newGame = new Game(this.players.map(p => p.id), this.players.map(p => p.displayName), this.seed, {}, this.rules);
     newGame.id = this.id;
     newGame.status = this.status;
     newGame.currentRound = this.currentRound;
+    newGame.dealerIndex = this.dealerIndex;
+    newGame.setup = { ...this.setup };
     newGame.players = this.players.map(p => p.copy());
     newGame.deck = this.deck.copy();
     newGame.discardPile = this.discardPile;
@@ -670,6 +1055,9 @@ export class Game {
     newGame.gameOverReason = this.gameOverReason;
     newGame.lastAction = this.lastAction;
     newGame.startTime = this.startTime;
+    newGame.events = [...this.events];
+    newGame.stateVersion = this.stateVersion;
+    newGame.pendingMeldCardIds = [...this.pendingMeldCardIds];
     return newGame;
   }
 
@@ -678,24 +1066,29 @@ export class Game {
     return Math.random().toString(36).substring(2, 9);
   }
 
-  // Create game from data
+  // Create game from data. Data from storage goes through parseGameData
+  // (GameSchema.ts) first, which checks it and migrates older versions.
   static fromData(data: GameData): Game {
     const game = new Game(
       data.players.map(p => p.id),
-      data.players.map(p => p.displayName)
+      data.players.map(p => p.displayName),
+      data.seed,
+      {},
+      data.rules
     );
 
     game.id = data.id;
     game.status = data.status;
     game.currentRound = data.currentRound;
+    game.dealerIndex = data.dealerIndex;
+    game.startTime = data.startTime;
+    game.setup = { round: data.currentRound, dealerIndex: data.dealerIndex, jokerGrant: data.jokerGrant };
     game.players = data.players.map(Player.fromData);
-    game.deck = new Deck();
-    game.deck.addCards(data.deck.map(cardData => game.deserializeCard(cardData)));
-    game.discardPile = new DiscardPile();
-    data.discardPile.forEach(cardData => {
-      const card = game.deserializeCard(cardData);
-      game.discardPile.addCard(card, 'system');
-    });
+    game.deck = Deck.fromCards(data.deck.map(cardData => game.deserializeCard(cardData)));
+    game.discardPile = DiscardPile.fromCards(
+      data.discardPile.map(cardData => game.deserializeCard(cardData)),
+      data.discardedBy
+    );
     game.jokerCards = data.jokerCards.map(cardData => game.deserializeCard(cardData));
     game.jokerReferenceCard = data.jokerReferenceCard ? game.deserializeCard(data.jokerReferenceCard) : undefined;
     game.activeJokerValue = data.activeJokerValue;
@@ -703,12 +1096,51 @@ export class Game {
     game.winner = data.winner;
     game.gameOverReason = data.gameOverReason;
     game.lastAction = data.lastAction || undefined;
+    game.events = data.events.map(event => Object.freeze(event));
+    game.stateVersion = data.stateVersion;
+    game.pendingMeldCardIds = [...data.pendingMeldCardIds];
+    game.turnManager = TurnManager.fromData(game.players, data);
 
-    // Reconstruct turn manager
-    game.turnManager = new TurnManager(game.players, data.currentPlayerIndex);
-    game.turnManager.setFirstPlayerDiscarded(data.firstPlayerDiscarded);
-    game.turnManager.setLastDrawFromDiscard(data.lastDrawFromDiscard);
+    return game;
+  }
+  // Rebuild a game by replaying its event log. Pass `uptoSeq` to stop after
+  // that event and inspect the game at an earlier point; `onEvent` is called
+  // after each event is applied.
+  static async replay(
+    events: GameEvent[],
+    uptoSeq?: number,
+    onEvent?: (game: Game, event: GameEvent) => void
+  ): Promise<Game> {
+    const [startEvent, ...commandEvents] = events;
+    if (!startEvent || startEvent.type !== 'start') {
+      throw new Error('Event log must begin with a start event');
+    }
+
+    const game = new Game(
+      startEvent.players.map(p => p.id),
+      startEvent.players.map(p => p.displayName),
+      startEvent.seed,
+      startEvent.round,
+      startEvent.rules ?? DEFAULT_RULE_SET
+    );
+    game.id = startEvent.gameId;
+    game.start();
+    onEvent?.(game, startEvent);
+
+    for (const event of commandEvents) {
+      if (uptoSeq !== undefined && event.seq > uptoSeq) break;
+      if (event.type !== 'command') {
+        throw new Error(`Unexpected ${event.type} event at seq ${event.seq}`);
+      }
+      await game.applyCommand(event.playerId, event.command);
+      onEvent?.(game, event);
+    }
+
+    // Keep the original events (and timestamps) rather than the re-recorded ones
+    game.events = events
+      .filter(event => uptoSeq === undefined || event.seq <= uptoSeq)
+      .map(event => Object.freeze(event));
 
     return game;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+// Intent commands sent by clients to the authoritative game server.
+// Clients never send game state, only what they want to do.
+
+export interface DrawCommand {
+  type: 'draw';
+  fromDiscard: boolean;
+  count?: number; // Number of cards to take from the discard pile (1 to RuleSet.maxDiscardPickup)
+}
+
+export interface MeldCommand {
+  type: 'meld';
+  cardIds: string[];
+}
+
+// Lay off cards from hand onto any meld on the table
+export interface ExtendMeldCommand {
+  type: 'extend';
+  meldId: string;
+  cardIds: string[];
+}
+
+// Take a melded joker into hand by putting the natural card it represents in its place
+export interface SwapJokerCommand {
+  type: 'swapJoker';
+  meldId: string;
+  jokerCardId: string;
+  cardId: string;
+}
+
+export interface DiscardCommand {
+  type: 'discard';
+  cardId: string;
+}
+
+export type GameCommand = DrawCommand | MeldCommand | ExtendMeldCommand | SwapJokerCommand | DiscardCommand;
+
+export type GameCommandType = GameCommand['type'];
+
+// Check that an untrusted payload has the shape of a command
+export const isGameCommand = (value: any): value is GameCommand => {
+  if (!value || typeof value !== 'object') return false;
+
+  switch (value.type) {
+    case 'draw':
+      return typeof value.fromDiscard === 'boolean' &&
+        (value.count === undefined || Number.isInteger(value.count));
+    case 'meld':
+      return Array.isArray(value.cardIds) && value.cardIds.every((id: unknown) => typeof id === 'string');
+    case 'extend':
+      return typeof value.meldId === 'string' &&
+        Array.isArray(value.cardIds) && value.cardIds.every((id: unknown) => typeof id === 'string');
+    case 'swapJoker':
+      return typeof value.meldId === 'string' &&
+        typeof value.jokerCardId === 'string' &&
+        typeof value.cardId === 'string';
+    case 'discard':
+      return typeof value.cardId === 'string';
+    default:
+      return false;
+  }
+};
+
+// Copy only the known fields of a command, e.g. before storing it
+export const normalizeCommand = (command: GameCommand): GameCommand => {
+  switch (command.type) {
+    case 'draw':
+      return command.count === undefined
+        ? { type: 'draw', fromDiscard: command.fromDiscard }
+        : { type: 'draw', fromDiscard: command.fromDiscard, count: command.count };
+    case 'meld':
+      return { type: 'meld', cardIds: [...command.cardIds] };
+    case 'extend':
+      return { type: 'extend', meldId: command.meldId, cardIds: [...command.cardIds] };
+    case 'swapJoker':
+      return { type: 'swapJoker', meldId: command.meldId, jokerCardId: command.jokerCardId, cardId: command.cardId };
+    case 'discard':
+      return { type: 'discard', cardId: command.cardId };
+  }
+};
@@ -0,0 +1,31 @@
+import { GameCommand } from './GameCommand';
+import { RoundSetup } from './Game';
+import { RuleSet } from './RuleSet';
+
+// Ordered, append-only log of everything that happened in a game.
+// The start event's seed and seating fully determine the initial deal, so
+// replaying the log from the start rebuilds the game at any point.
+// The log reveals the deck order - keep it server side until the game ends.
+
+export interface GameStartEvent {
+  seq: number;
+  type: 'start';
+  timestamp: number;
+  gameId: string;
+  seed: number;
+  players: { id: string; displayName: string }[];
+  round?: RoundSetup; // Match round settings, absent for a single game
+  rules?: RuleSet; // Absent in logs from before rule sets, meaning the default rules
+}
+
+export interface GameCommandEvent {
+  seq: number;
+  type: 'command';
+  timestamp: number;
+  playerId: string;
+  command: GameCommand;
+}
+
+export type GameEvent = GameStartEvent | GameCommandEvent;
+
+export type GameEventType = GameEvent['type'];
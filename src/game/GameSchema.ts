@@ -0,0 +1,462 @@
+import { Card, JokerAssignment, Meld, MeldType, RANKS, Rank, SUITS, Suit } from './Card';
+import { GAME_SCHEMA_VERSION, GameData, GameOverReason, GameStatus, TurnPhase } from './Game';
+import { isGameCommand, normalizeCommand } from './GameCommand';
+import { GameEvent } from './GameEvent';
+import { PlayerData } from './Player';
+import { DEFAULT_RULE_SET, MAX_PLAYERS, MIN_PLAYERS, RuleSet, getRuleSet } from './RuleSet';
+import { TurnAction, TurnData } from './TurnManager';
+
+// Stored GameData is checked here before a Game is built from it. Documents
+// written by older versions are migrated one version at a time up to
+// GAME_SCHEMA_VERSION; anything malformed, or newer than this build knows,
+// is rejected with a GameDataError naming the offending field.
+// Documents without a schemaVersion are version 1.
+
+export class GameDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameDataError';
+  }
+}
+
+type Raw = Record<string, any>;
+
+const GAME_STATUSES: GameStatus[] = ['lobby', 'playing', 'finished'];
+const GAME_OVER_REASONS: GameOverReason[] = ['memukul', 'deck_empty'];
+const TURN_PHASES: TurnPhase[] = ['drawPhase', 'meldPhase', 'discardPhase'];
+const MELD_TYPES: MeldType[] = ['set', 'run'];
+const ACTION_TYPES: TurnAction['type'][] = ['draw', 'discard', 'meld'];
+
+const isRecord = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Firestore keeps nulls, so null counts as a missing optional field
+const isMissing = (value: unknown): value is null | undefined => value === undefined || value === null;
+
+const fail = (path: string, expected: string): never => {
+  throw new GameDataError(`Invalid GameData at ${path}: expected ${expected}`);
+};
+
+const expectRecord = (value: unknown, path: string): Raw =>
+  isRecord(value) ? value : fail(path, 'an object');
+
+const expectArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : fail(path, 'an array');
+
+const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'a string');
+
+const expectBoolean = (value: unknown, path: string): boolean =>
+  typeof value === 'boolean' ? value : fail(path, 'a boolean');
+
+const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const expectInteger = (value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? value as number
+    : fail(path, `an integer from ${min} to ${max}`);
+
+const expectOneOf = <T>(value: unknown, options: readonly T[], path: string): T =>
+  options.includes(value as T) ? value as T : fail(path, `one of ${options.join(', ')}`);
+
+const expectStrings = (value: unknown, path: string): string[] =>
+  expectArray(value, path).map((item, index) => expectString(item, `${path}[${index}]`));
+
+// Only the given keys may be present
+const expectKeys = (value: Raw, keys: readonly string[], path: string): void => {
+  const unknown = Object.keys(value).find(key => !keys.includes(key));
+  if (unknown !== undefined) {
+    throw new GameDataError(`Invalid GameData at ${path}: unknown field ${unknown}`);
+  }
+};
+
+const parseCard = (value: unknown, path: string): Card => {
+  const card = expectRecord(value, path);
+  return Card.fromData({
+    id: expectString(card.id, `${path}.id`),
+    suit: expectOneOf<Suit>(card.suit, SUITS, `${path}.suit`),
+    rank: expectOneOf<Rank>(card.rank, RANKS, `${path}.rank`),
+    isJoker: expectBoolean(card.isJoker, `${path}.isJoker`)
+  });
+};
+
+const parseCards = (value: unknown, path: string): Card[] =>
+  expectArray(value, path).map((card, index) => parseCard(card, `${path}[${index}]`));
+
+const parseJokerAssignments = (value: unknown, path: string): Record<string, JokerAssignment> => {
+  const assignments: Record<string, JokerAssignment> = {};
+  Object.entries(expectRecord(value, path)).forEach(([cardId, assignment]) => {
+    const entry = expectRecord(assignment, `${path}.${cardId}`);
+    assignments[cardId] = {
+      rank: expectOneOf<Rank>(entry.rank, RANKS, `${path}.${cardId}.rank`),
+      suit: expectOneOf<Suit>(entry.suit, SUITS, `${path}.${cardId}.suit`)
+    };
+  });
+  return assignments;
+};
+
+const parseMeld = (value: unknown, path: string): Meld => {
+  const meld = expectRecord(value, path);
+  return Meld.fromData({
+    id: expectString(meld.id, `${path}.id`),
+    type: expectOneOf<MeldType>(meld.type, MELD_TYPES, `${path}.type`),
+    cards: parseCards(meld.cards, `${path}.cards`),
+    playerId: expectString(meld.playerId, `${path}.playerId`),
+    jokerAssignments: isMissing(meld.jokerAssignments)
+      ? {}
+      : parseJokerAssignments(meld.jokerAssignments, `${path}.jokerAssignments`)
+  });
+};
+
+const parsePlayer = (value: unknown, path: string): PlayerData => {
+  const player = expectRecord(value, path);
+  return {
+    id: expectString(player.id, `${path}.id`),
+    displayName: expectString(player.displayName, `${path}.displayName`),
+    hand: parseCards(player.hand, `${path}.hand`),
+    melds: expectArray(player.melds, `${path}.melds`).map((meld, index) => parseMeld(meld, `${path}.melds[${index}]`)),
+    score: expectNumber(player.score, `${path}.score`),
+    ready: expectBoolean(player.ready, `${path}.ready`),
+    connected: expectBoolean(player.connected, `${path}.connected`),
+    hasLaidRun: expectBoolean(player.hasLaidRun, `${path}.hasLaidRun`),
+    stagedCards: parseCards(player.stagedCards, `${path}.stagedCards`),
+    timeBank: expectInteger(player.timeBank, `${path}.timeBank`, 0)
+  };
+};
+
+// A RuleSet needs every field of the default rules, with the same types
+const parseRules = (value: unknown, path: string): RuleSet => {
+  const rules = expectRecord(value, path);
+  const parsed: Raw = {};
+  Object.entries(DEFAULT_RULE_SET).forEach(([key, defaultValue]) => {
+    const field = `${path}.${key}`;
+    if (typeof defaultValue === 'object') {
+      const values = expectRecord(rules[key], field);
+      parsed[key] = Object.fromEntries(RANKS.map(rank => [rank, expectNumber(values[rank], `${field}.${rank}`)]));
+    } else if (typeof defaultValue === 'number') {
+      parsed[key] = expectNumber(rules[key], field);
+    } else if (typeof defaultValue === 'boolean') {
+      parsed[key] = expectBoolean(rules[key], field);
+    } else {
+      parsed[key] = expectString(rules[key], field);
+    }
+  });
+  return parsed as RuleSet;
+};
+
+const ACTION_DETAILS: Record<keyof TurnAction['details'], (value: unknown, path: string) => unknown> = {
+  cardId: expectString,
+  cardIds: expectStrings,
+  drawCount: (value, path) => expectInteger(value, path, 1),
+  meldId: expectString
+};
+
+const parseAction = (value: unknown, path: string): TurnAction => {
+  const action = expectRecord(value, path);
+  const details = expectRecord(action.details, `${path}.details`);
+  expectKeys(details, Object.keys(ACTION_DETAILS), `${path}.details`);
+
+  // Details keep the order they were stored in
+  const parsed: Raw = {};
+  Object.entries(details).forEach(([key, detail]) => {
+    if (!isMissing(detail)) parsed[key] = ACTION_DETAILS[key as keyof TurnAction['details']](detail, `${path}.details.${key}`);
+  });
+
+  return {
+    type: expectOneOf(action.type, ACTION_TYPES, `${path}.type`),
+    playerId: expectString(action.playerId, `${path}.playerId`),
+    timestamp: expectNumber(action.timestamp, `${path}.timestamp`),
+    details: parsed
+  };
+};
+
+const parseTurn = (value: unknown, path: string, playerCount: number): TurnData => {
+  const turn = expectRecord(value, path);
+  const parsed: TurnData = {
+    playerIndex: expectInteger(turn.playerIndex, `${path}.playerIndex`, 0, playerCount - 1),
+    startTime: expectNumber(turn.startTime, `${path}.startTime`),
+    actions: expectArray(turn.actions, `${path}.actions`).map((action, index) => parseAction(action, `${path}.actions[${index}]`))
+  };
+
+  if (!isMissing(turn.endTime)) parsed.endTime = expectNumber(turn.endTime, `${path}.endTime`);
+  return parsed;
+};
+
+const parseEvent = (value: unknown, path: string, index: number): GameEvent => {
+  const event = expectRecord(value, path);
+  const seq = expectInteger(event.seq, `${path}.seq`, index, index);
+  const timestamp = expectNumber(event.timestamp, `${path}.timestamp`);
+
+  // The log starts with the deal, every later event is a command
+  if (index === 0) {
+    expectOneOf(event.type, ['start'], `${path}.type`);
+    const parsed: GameEvent = {
+      seq,
+      type: 'start',
+      timestamp,
+      gameId: expectString(event.gameId, `${path}.gameId`),
+      seed: expectInteger(event.seed, `${path}.seed`),
+      players: expectArray(event.players, `${path}.players`).map((player, playerIndex) => {
+        const seat = expectRecord(player, `${path}.players[${playerIndex}]`);
+        return {
+          id: expectString(seat.id, `${path}.players[${playerIndex}].id`),
+          displayName: expectString(seat.displayName, `${path}.players[${playerIndex}].displayName`)
+        };
+      })
+    };
+
+    if (!isMissing(event.round)) {
+      const round = expectRecord(event.round, `${path}.round`);
+      parsed.round = {};
+      if (!isMissing(round.round)) parsed.round.round = expectInteger(round.round, `${path}.round.round`, 1);
+      if (!isMissing(round.dealerIndex)) parsed.round.dealerIndex = expectInteger(round.dealerIndex, `${path}.round.dealerIndex`, 0);
+      if (!isMissing(round.jokerGrant)) parsed.round.jokerGrant = expectString(round.jokerGrant, `${path}.round.jokerGrant`);
+    }
+    if (!isMissing(event.rules)) parsed.rules = parseRules(event.rules, `${path}.rules`);
+    return parsed;
+  }
+
+  expectOneOf(event.type, ['command'], `${path}.type`);
+  if (!isGameCommand(event.command)) fail(`${path}.command`, 'a game command');
+  return {
+    seq,
+    type: 'command',
+    timestamp,
+    playerId: expectString(event.playerId, `${path}.playerId`),
+    command: normalizeCommand(event.command)
+  };
+};
+
+const parseLastAction = (value: unknown, path: string): NonNullable<GameData['lastAction']> => {
+  const action = expectRecord(value, path);
+  const parsed: NonNullable<GameData['lastAction']> = {
+    type: expectOneOf(action.type, ACTION_TYPES, `${path}.type`),
+    playerId: expectString(action.playerId, `${path}.playerId`)
+  };
+
+  if (!isMissing(action.cardId)) parsed.cardId = expectString(action.cardId, `${path}.cardId`);
+  if (!isMissing(action.meldId)) parsed.meldId = expectString(action.meldId, `${path}.meldId`);
+  if (!isMissing(action.drawCount)) parsed.drawCount = expectInteger(action.drawCount, `${path}.drawCount`, 1);
+  return parsed;
+};
+
+// Cards in the deck, the discard pile, the hands, the meld areas and the
+// melds. The joker cards and the reference card are copies of some of these.
+const getCardsInPlay = (data: Pick<GameData, 'deck' | 'discardPile' | 'players'>): Card[] => [
+  ...data.deck,
+  ...data.discardPile,
+  ...data.players.flatMap(player => [
+    ...player.hand,
+    ...player.stagedCards,
+    ...player.melds.flatMap(meld => meld.cards)
+  ])
+];
+
+const GAME_DATA_KEYS: (keyof GameData)[] = [
+  'schemaVersion', 'stateVersion', 'id', 'seed', 'status', 'currentRound', 'dealerIndex', 'jokerGrant', 'rules', 'players',
+  'deck', 'discardPile', 'jokerCards', 'jokerReferenceCard', 'activeJokerValue', 'currentPlayerIndex',
+  'currentTurnPhase', 'startTime', 'turnHistory', 'currentTurn', 'winner', 'gameOverReason', 'lastAction',
+  'discardedBy', 'firstPlayerDiscarded', 'lastDrawFromDiscard', 'pendingMeldCardIds', 'direction', 'events'
+];
+
+// Give cards that share an id the id they were dealt with and return the
+// jokers in play. Version 1 rebuilt cards without their ids, so the joker
+// twins and the cards of a second deck came back as plain `suit-rank`.
+const renumberCardsInPlay = (data: Raw): Raw[] => {
+  const seen = new Set<string>();
+  const jokers: Raw[] = [];
+  const nextFreeId = (card: Raw): string => {
+    const base = card.isJoker ? `${card.suit}-${card.rank}-joker-` : `${card.suit}-${card.rank}-`;
+    let index = card.isJoker ? 0 : 2;
+    while (seen.has(`${base}${index}`)) index++;
+    return `${base}${index}`;
+  };
+  const renumber = (card: unknown): unknown => {
+    if (!isRecord(card) || typeof card.id !== 'string') return card;
+    const id = seen.has(card.id) ? nextFreeId(card) : card.id;
+    const renumbered = id === card.id ? card : { ...card, id };
+    seen.add(id);
+    if (card.isJoker === true) jokers.push(renumbered);
+    return renumbered;
+  };
+  const renumberAll = (cards: unknown): unknown => Array.isArray(cards) ? cards.map(renumber) : cards;
+
+  data.deck = renumberAll(data.deck);
+  data.discardPile = renumberAll(data.discardPile);
+  if (!Array.isArray(data.players)) return jokers;
+
+  data.players = data.players.map(player => {
+    if (!isRecord(player)) return player;
+    return {
+      ...player,
+      hand: renumberAll(player.hand),
+      stagedCards: renumberAll(player.stagedCards),
+      melds: Array.isArray(player.melds)
+        ? player.melds.map(meld => {
+          if (!isRecord(meld) || !Array.isArray(meld.cards)) return meld;
+          const cards = meld.cards.map(renumber);
+          // Joker assignments follow their joker to its new id
+          const jokerAssignments: Raw = {};
+          meld.cards.forEach((card, index) => {
+            const id = (cards[index] as Raw)?.id;
+            if (isRecord(card) && isRecord(meld.jokerAssignments) && meld.jokerAssignments[card.id]) {
+              jokerAssignments[id] = meld.jokerAssignments[card.id];
+            }
+          });
+          return { ...meld, cards, jokerAssignments };
+        })
+        : player.melds
+    };
+  });
+  return jokers;
+};
+
+// Fields a stored RuleSet is missing come from its preset
+const withPresetDefaults = (rules: Raw): Raw => ({ ...(getRuleSet(rules.id) ?? DEFAULT_RULE_SET), ...rules });
+
+// Complete the RuleSet of the game and of its start event
+const withCompleteRules = (data: Raw): Raw => ({
+  ...data,
+  rules: isRecord(data.rules) ? withPresetDefaults(data.rules) : data.rules,
+  events: Array.isArray(data.events)
+    ? data.events.map(event => isRecord(event) && isRecord(event.rules)
+      ? { ...event, rules: withPresetDefaults(event.rules) }
+      : event)
+    : data.events
+});
+
+// Migrations by the version they upgrade from
+const MIGRATIONS: Record<number, (data: Raw) => Raw> = {
+  // v1 -> v2: fields added after the first stored games, the turn history
+  // instead of a single turnStartTime, and unique card ids
+  1: ({ turnStartTime, ...data }) => {
+    const startTime = typeof turnStartTime === 'number' ? turnStartTime : Date.now();
+    const rules = isRecord(data.rules) ? withPresetDefaults(data.rules) : DEFAULT_RULE_SET;
+    const migrated: Raw = {
+      ...data,
+      seed: data.seed ?? 0, // Only used for the deal, which is long done
+      dealerIndex: data.dealerIndex ?? 0,
+      rules,
+      players: Array.isArray(data.players)
+        ? data.players.map(player => isRecord(player) ? { ...player, stagedCards: player.stagedCards ?? [] } : player)
+        : data.players,
+      discardedBy: data.discardedBy ?? {},
+      pendingMeldCardIds: data.pendingMeldCardIds ?? [],
+      direction: data.direction ?? 1,
+      events: data.events ?? [],
+      startTime,
+      turnHistory: [],
+      currentTurn: { playerIndex: data.currentPlayerIndex, startTime, actions: [] }
+    };
+
+    migrated.jokerCards = renumberCardsInPlay(migrated);
+    return migrated;
+  },
+
+  // v2 -> v3: RuleSet.aceLow, aceHigh and runsWrapAround
+  2: withCompleteRules,
+
+  // v3 -> v4: stateVersion, counted like Game does: one per event
+  3: data => ({
+    ...data,
+    stateVersion: Array.isArray(data.events) ? data.events.length : 0
+  }),
+
+  // v4 -> v5: RuleSet.turnTimeLimit and timeBank, and each player's time bank
+  4: data => ({
+    ...withCompleteRules(data),
+    players: Array.isArray(data.players)
+      ? data.players.map(player => isRecord(player) ? { ...player, timeBank: player.timeBank ?? 0 } : player)
+      : data.players
+  })
+};
+
+// Upgrade stored data to GAME_SCHEMA_VERSION without checking it further
+export const migrateGameData = (raw: unknown): Raw => {
+  let data = expectRecord(raw, 'GameData');
+  let version = isMissing(data.schemaVersion) ? 1 : expectInteger(data.schemaVersion, 'schemaVersion', 1);
+  if (version > GAME_SCHEMA_VERSION) {
+    throw new GameDataError(
+      `GameData schemaVersion ${version} is newer than the supported version ${GAME_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < GAME_SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  return { ...data, schemaVersion: version };
+};
+
+// Check stored data, migrating older versions first. Throws a GameDataError
+// for anything a Game could not be built from.
+export const parseGameData = (raw: unknown): GameData => {
+  const data = migrateGameData(raw);
+  expectKeys(data, GAME_DATA_KEYS, 'GameData');
+
+  const players = expectArray(data.players, 'players');
+  if (players.length < MIN_PLAYERS || players.length > MAX_PLAYERS) {
+    fail('players', `${MIN_PLAYERS} to ${MAX_PLAYERS} players`);
+  }
+
+  const parsed: GameData = {
+    schemaVersion: data.schemaVersion,
+    stateVersion: expectInteger(data.stateVersion, 'stateVersion', 0),
+    id: expectString(data.id, 'id'),
+    seed: expectInteger(data.seed, 'seed'),
+    status: expectOneOf(data.status, GAME_STATUSES, 'status'),
+    currentRound: expectInteger(data.currentRound, 'currentRound', 1),
+    dealerIndex: expectInteger(data.dealerIndex, 'dealerIndex', 0, players.length - 1),
+    rules: parseRules(data.rules, 'rules'),
+    players: players.map((player, index) => parsePlayer(player, `players[${index}]`)),
+    deck: parseCards(data.deck, 'deck'),
+    discardPile: parseCards(data.discardPile, 'discardPile'),
+    jokerCards: parseCards(data.jokerCards, 'jokerCards'),
+    currentPlayerIndex: expectInteger(data.currentPlayerIndex, 'currentPlayerIndex', 0, players.length - 1),
+    currentTurnPhase: expectOneOf(data.currentTurnPhase, TURN_PHASES, 'currentTurnPhase'),
+    startTime: expectNumber(data.startTime, 'startTime'),
+    turnHistory: expectArray(data.turnHistory, 'turnHistory')
+      .map((turn, index) => parseTurn(turn, `turnHistory[${index}]`, players.length)),
+    currentTurn: parseTurn(data.currentTurn, 'currentTurn', players.length),
+    discardedBy: Object.fromEntries(Object.entries(expectRecord(data.discardedBy, 'discardedBy'))
+      .map(([cardId, playerId]) => [cardId, expectString(playerId, `discardedBy.${cardId}`)])),
+    firstPlayerDiscarded: expectBoolean(data.firstPlayerDiscarded, 'firstPlayerDiscarded'),
+    lastDrawFromDiscard: expectBoolean(data.lastDrawFromDiscard, 'lastDrawFromDiscard'),
+    pendingMeldCardIds: expectStrings(data.pendingMeldCardIds, 'pendingMeldCardIds'),
+    direction: expectOneOf<1 | -1>(data.direction, [1, -1], 'direction'),
+    events: expectArray(data.events, 'events').map((event, index) => parseEvent(event, `events[${index}]`, index))
+  };
+
+  if (!isMissing(data.jokerGrant)) parsed.jokerGrant = expectString(data.jokerGrant, 'jokerGrant');
+  if (!isMissing(data.jokerReferenceCard)) parsed.jokerReferenceCard = parseCard(data.jokerReferenceCard, 'jokerReferenceCard');
+  if (!isMissing(data.activeJokerValue)) parsed.activeJokerValue = expectOneOf(data.activeJokerValue, RANKS, 'activeJokerValue');
+  if (!isMissing(data.winner)) parsed.winner = expectString(data.winner, 'winner');
+  if (!isMissing(data.gameOverReason)) parsed.gameOverReason = expectOneOf(data.gameOverReason, GAME_OVER_REASONS, 'gameOverReason');
+  if (!isMissing(data.lastAction)) parsed.lastAction = parseLastAction(data.lastAction, 'lastAction');
+
+  // Every card in play exists once; the joker cards are among them
+  const cardIds = new Set<string>();
+  getCardsInPlay(parsed).forEach(card => {
+    if (cardIds.has(card.id)) {
+      throw new GameDataError(`Invalid GameData: card ${card.id} appears more than once`);
+    }
+    cardIds.add(card.id);
+  });
+  parsed.jokerCards.forEach((card, index) => {
+    if (!cardIds.has(card.id)) fail(`jokerCards[${index}].id`, 'a card in play');
+  });
+  parsed.pendingMeldCardIds.forEach((cardId, index) => {
+    if (!cardIds.has(cardId)) fail(`pendingMeldCardIds[${index}]`, 'a card in play');
+  });
+
+  const playerIds = parsed.players.map(player => player.id);
+  if (new Set(playerIds).size !== playerIds.length) {
+    throw new GameDataError('Invalid GameData: player ids are not unique');
+  }
+  if (parsed.winner !== undefined && !playerIds.includes(parsed.winner)) {
+    fail('winner', 'a player id');
+  }
+
+  return parsed;
+};
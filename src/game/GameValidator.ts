@@ -1,6 +1,9 @@
-import { Card, Meld, MeldType } from './Card';
+import { Card, JokerAssignment, Meld, MeldType, RANKS, Rank, SUITS } from './Card';
 import { Player } from './Player';
 import { Game } from './Game';
+import { GameCommand } from './GameCommand';
+import { MatchSettings } from './Match';
+import { DEFAULT_RULE_SET, MAX_PLAYERS, MIN_PLAYERS, RuleSet, getRuleSet } from './RuleSet';
 
 export interface ValidationResult {
   valid: boolean;
@@ -8,13 +11,19 @@ export interface ValidationResult {
   warnings?: string[];
 }
 
+export const REPEATED_CARD_ERROR = 'Kartu yang sama tidak boleh dipilih dua kali';
+
 export class GameValidator {
-  // Check if cards form a valid run (sequence of same suit, 3+ cards)
-  static isValidRun(cards: Card[], jokerValue?: string): boolean {
-    if (cards.length < 3) return false;
+  // A command may name each card only once
+  static hasRepeatedCards(cardIds: string[]): boolean {
+    return new Set(cardIds).size !== cardIds.length;
+  }
+
+  // Check if cards form a valid run (sequence of same suit, 3+ cards). Runs
+  // follow the rank order (Card.ordinal); where the ace may sit is up to the rules.
+  static isValidRun(cards: Card[], jokerValue?: string, rules: RuleSet = DEFAULT_RULE_SET): boolean {
+    if (cards.length < 3 || cards.length > rules.maxRunSize) return false;
 
-    // Check if any card is an active joker
-    const activeJokerCards = cards.filter(card => jokerValue && card.isActiveJoker(jokerValue));
     const nonJokerCards = cards.filter(card => !(jokerValue && card.isActiveJoker(jokerValue)));
 
     // Special case: 4 Ace cards are considered a valid run
@@ -22,39 +31,54 @@ export class GameValidator {
     const aceCount = nonJokerCards.filter(card => card.rank === 'A').length;
     if (allAces && aceCount === 4) return true;
 
-    const sortedCards = [...nonJokerCards].sort((a, b) => a.value - b.value);
-    if (sortedCards.length === 0) return false; // All jokers not allowed
-
-    const suit = sortedCards[0].suit;
+    if (nonJokerCards.length === 0) return false; // All jokers not allowed
 
     // Check if all non-joker cards have same suit
-    if (!sortedCards.every(card => card.suit === suit)) return false;
-
-    // Check if cards form consecutive sequence (allowing jokers to fill gaps)
-    let expectedValue = sortedCards[0].value;
-    let jokersAvailable = activeJokerCards.length;
-
-    for (let i = 0; i < sortedCards.length; i++) {
-      const currCard = sortedCards[i];
-
-      if (currCard.value === expectedValue) {
-        expectedValue++;
-      } else if (jokersAvailable > 0) {
-        // Use a joker to fill the gap
-        jokersAvailable--;
-        expectedValue++;
-        i--; // Check this card again with new expected value
-      } else {
-        return false;
-      }
+    const suit = nonJokerCards[0].suit;
+    if (!nonJokerCards.every(card => card.suit === suit)) return false;
+
+    // Jokers fill the gaps and extend the run at either end
+    return this.getRunJokerRanks(nonJokerCards, cards.length, rules) !== undefined;
+  }
+
+  // Ranks the jokers of a run of `length` cards stand in for, or undefined if
+  // the natural cards do not fit in one run. Every stretch of ranks the rules
+  // allow is tried; the jokers fill the gaps first, then extend the run
+  // upwards, and downwards only where the run cannot go higher.
+  private static getRunJokerRanks(naturals: Card[], length: number, rules: RuleSet): Rank[] | undefined {
+    // Positions 1-13 are A-K, 14 is the ace above the King. Wrapping runs go
+    // round the 13 ranks, so a run may start at any rank.
+    if (rules.runsWrapAround && length > RANKS.length) return undefined;
+    const rankAt = (position: number): Rank => RANKS[(position - 1) % RANKS.length];
+    const firstStart = rules.runsWrapAround || rules.aceLow ? 1 : 2;
+    const lastStart = rules.runsWrapAround
+      ? RANKS.length
+      : (rules.aceHigh ? RANKS.length + 1 : RANKS.length) - length + 1;
+
+    let best: { ranks: Rank[]; taken: Set<number>; top: number } | undefined;
+    for (let start = firstStart; start <= lastStart; start++) {
+      const ranks = Array.from({ length }, (_, index) => rankAt(start + index));
+      const taken = new Set<number>();
+      let top = -1;
+
+      const fits = naturals.every(card => {
+        const slot = ranks.findIndex((rank, index) => rank === card.rank && !taken.has(index));
+        if (slot < 0) return false;
+        taken.add(slot);
+        top = Math.max(top, slot);
+        return true;
+      });
+
+      // The lower the highest natural card, the more jokers sit above it
+      if (fits && (!best || top < best.top)) best = { ranks, taken, top };
     }
 
-    return true;
+    return best && best.ranks.filter((_, index) => !best!.taken.has(index));
   }
 
   // Check if cards form a valid set (same rank, different suits)
-  static isValidSet(cards: Card[], jokerValue?: string): boolean {
-    if (cards.length < 3 || cards.length > 4) return false;
+  static isValidSet(cards: Card[], jokerValue?: string, rules: RuleSet = DEFAULT_RULE_SET): boolean {
+    if (cards.length < 3 || cards.length > rules.maxSetSize) return false;
 
     // Check if any card is an active joker
     const activeJokerCards = cards.filter(card => jokerValue && card.isActiveJoker(jokerValue));
@@ -75,20 +99,54 @@ export class GameValidator {
   }
 
   // Check if cards form a valid meld
-  static isValidMeld(cards: Card[], jokerValue?: string): { valid: boolean; type?: MeldType } {
-    if (this.isValidRun(cards, jokerValue)) return { valid: true, type: 'run' };
-    if (this.isValidSet(cards, jokerValue)) return { valid: true, type: 'set' };
+  static isValidMeld(cards: Card[], jokerValue?: string, rules: RuleSet = DEFAULT_RULE_SET): { valid: boolean; type?: MeldType } {
+    if (this.isValidRun(cards, jokerValue, rules)) return { valid: true, type: 'run' };
+    if (this.isValidSet(cards, jokerValue, rules)) return { valid: true, type: 'set' };
     return { valid: false };
   }
 
+  // Work out which card each joker in a meld stands in for. Set jokers take
+  // the missing suits; run jokers fill gaps first, then extend the run upwards
+  // (or downwards once it cannot go higher under the rules).
+  static getJokerAssignments(
+    type: MeldType,
+    cards: Card[],
+    jokerValue?: string,
+    rules: RuleSet = DEFAULT_RULE_SET
+  ): Record<string, JokerAssignment> {
+    const jokers = cards.filter(card => card.isActiveJoker(jokerValue));
+    const naturals = cards.filter(card => !card.isActiveJoker(jokerValue));
+    const assignments: Record<string, JokerAssignment> = {};
+
+    if (jokers.length === 0 || naturals.length === 0) return assignments;
+
+    if (type === 'set') {
+      const rank = naturals[0].rank;
+      const missingSuits = SUITS.filter(suit => !naturals.some(card => card.suit === suit));
+      jokers.forEach((joker, index) => {
+        assignments[joker.id] = { rank, suit: missingSuits[index % missingSuits.length] };
+      });
+      return assignments;
+    }
+
+    const suit = naturals[0].suit;
+    const ranks = this.getRunJokerRanks(naturals, cards.length, rules) ?? [];
+    jokers.forEach((joker, index) => {
+      if (ranks[index]) assignments[joker.id] = { rank: ranks[index], suit };
+    });
+
+    return assignments;
+  }
+
   // Validate player action
   static validateAction(
     game: Game,
     playerId: string,
-    action: 'draw' | 'discard' | 'meld',
+    action: 'draw' | 'discard' | 'meld' | 'extend' | 'swapJoker',
     cardId?: string,
     meldCards?: Card[],
-    drawFromDiscardCount?: number
+    drawFromDiscardCount?: number,
+    meldId?: string
   ): ValidationResult {
     // Check if it's player's turn
     if (game.getCurrentPlayer().id !== playerId) {
@@ -112,6 +170,72 @@ export class GameValidator {
       case 'meld':
         return this.validateMeldAction(game, currentPlayer, meldCards);
 
+      case 'extend':
+        return this.validateExtendMeldAction(game, currentPlayer, meldId, meldCards);
+
+      case 'swapJoker':
+        return this.validateSwapJokerAction(game, currentPlayer, meldId, cardId, meldCards?.[0]);
+
+      default:
+        return { valid: false, error: 'Aksi tidak valid' };
+    }
+  }
+
+  // Validate an intent command received from a client
+  static validateCommand(game: Game, playerId: string, command: GameCommand): ValidationResult {
+    const player = game.getPlayer(playerId);
+    if (!player) {
+      return { valid: false, error: 'Pemain tidak ada di game ini' };
+    }
+
+    switch (command.type) {
+      case 'draw':
+        return this.validateAction(
+          game,
+          playerId,
+          'draw',
+          undefined,
+          undefined,
+          command.fromDiscard ? command.count ?? 1 : undefined
+        );
+
+      case 'meld': {
+        if (this.hasRepeatedCards(command.cardIds)) {
+          return { valid: false, error: REPEATED_CARD_ERROR };
+        }
+        const meldCards = command.cardIds
+          .map(id => player.getMeldableCards().find(card => card.id === id))
+          .filter(Boolean) as Card[];
+        if (meldCards.length !== command.cardIds.length) {
+          return { valid: false, error: 'Semua kartu harus ada di tangan' };
+        }
+        return this.validateAction(game, playerId, 'meld', undefined, meldCards);
+      }
+
+      case 'extend': {
+        if (this.hasRepeatedCards(command.cardIds)) {
+          return { valid: false, error: REPEATED_CARD_ERROR };
+        }
+        const extendCards = command.cardIds
+          .map(id => player.getMeldableCards().find(card => card.id === id))
+          .filter(Boolean) as Card[];
+        if (extendCards.length !== command.cardIds.length) {
+          return { valid: false, error: 'Semua kartu harus ada di tangan' };
+        }
+        return this.validateAction(game, playerId, 'extend', undefined, extendCards, undefined, command.meldId);
+      }
+
+      case 'swapJoker': {
+        const card = player.getMeldableCards().find(c => c.id === command.cardId);
+        if (!card) {
+          return { valid: false, error: 'Kartu tidak ada di tangan' };
+        }
+        return this.validateAction(game, playerId, 'swapJoker', command.jokerCardId, [card], undefined, command.meldId);
+      }
+
+      case 'discard':
+        return this.validateAction(game, playerId, 'discard', command.cardId);
+
       default:
         return { valid: false, error: 'Aksi tidak valid' };
     }
@@ -123,8 +247,8 @@ export class GameValidator {
     player: Player,
     drawFromDiscardCount?: number
   ): ValidationResult {
-    // Check if first player needs to discard first (8 cards and hasn't discarded yet)
-    const isFirstPlayerTurn = player.getHandSize() === 8 && !game.hasFirstPlayerDiscarded();
+    // Check if first player needs to discard first (dealt one extra card and hasn't discarded yet)
+    const isFirstPlayerTurn = player.getHandSize() === game.getRules().handSize + 1 && !game.hasFirstPlayerDiscarded();
 
     if (isFirstPlayerTurn) {
       return { valid: false, error: 'Pemain pertama wajib membuang 1 kartu terlebih dahulu sebelum mengambil kartu' };
@@ -132,27 +256,15 @@ export class GameValidator {
 
     if (drawFromDiscardCount !== undefined) {
       // Drawing from discard pile
-      if (drawFromDiscardCount < 1 || drawFromDiscardCount > 3) {
-        return { valid: false, error: 'Hanya dapat mengambil 1-3 kartu dari discard pile' };
-      }
-
-      if (game.getDiscardPile().getCount() < drawFromDiscardCount) {
-        return { valid: false, error: 'Tidak cukup kartu di discard pile' };
-      }
-
-      // Additional check: if no cards have been discarded yet, can't draw from discard pile
-      if (game.getDiscardPile().getCount() === 0) {
-        return { valid: false, error: 'Belum ada kartu yang dibuang, tidak bisa mengambil dari discard pile' };
-      }
-
-      // If taking more than 1 card, must be able to form valid meld
-      if (drawFromDiscardCount > 1) {
-        const cardsToTake = game.getDiscardPile().getLastCards(drawFromDiscardCount);
-        const meldValidation = this.isValidMeld(cardsToTake, game.getActiveJokerValue());
-        if (!meldValidation.valid) {
-          return { valid: false, error: 'Harus dapat membentuk kombinasi valid saat mengambil >1 kartu' };
-        }
-      }
+      return this.validateDiscardPickup(
+        drawFromDiscardCount,
+        game.getDiscardPile().getAllCards(),
+        player.getHand(),
+        game.getPlayers().flatMap(owner => owner.getMelds()),
+        player.hasLaidRunMeld(),
+        game.getActiveJokerValue(),
+        game.getRules()
+      );
     } else {
       // Drawing from deck
       if (game.getDeck().isEmpty()) {
@@ -177,17 +289,18 @@ export class GameValidator {
       return { valid: false, error: 'Kartu tidak ada di tangan' };
     }
 
-    // Check if it's the first player's first turn (must discard from 8 to 7 cards)
-    const isFirstPlayerTurn = player.getHandSize() === 8 && !game.hasFirstPlayerDiscarded();
+    // Check if it's the first player's first turn (must discard the extra card)
+    const isFirstPlayerTurn = player.getHandSize() === game.getRules().handSize + 1 && !game.hasFirstPlayerDiscarded();
 
     if (isFirstPlayerTurn) {
       // This is the mandatory first discard, allow any card
       return { valid: true };
     }
 
-    // Additional validation for regular discard
-    if (game.lastDrawFromDiscard() && game.getLastAction()?.drawCount && game.getLastAction()!.drawCount! > 1) {
-      return { valid: false, error: 'Anda harus menurunkan kombinasi terlebih dahulu setelah mengambil >1 kartu dari discard pile' };
+    // GMM-003: cards taken from the discard pile must be melded first, as
+    // long as they still can be; otherwise the turn could never end
+    if (game.getPendingMeldCardIds().length > 0 && this.canMeldPendingCards(game, player)) {
+      return { valid: false, error: 'Kartu yang diambil dari discard pile wajib diturunkan dalam kombinasi terlebih dahulu' };
     }
 
     // Check if player can discard joker that was used in meld
@@ -214,16 +327,16 @@ export class GameValidator {
       return { valid: false, error: 'Pilih kartu untuk meld' };
     }
 
-    // Check if all cards are in player's hand
+    // Check if all cards are in player's hand (or staged in the meld area)
     const allCardsInHand = meldCards.every(card =>
-      player.hasCard(card.id)
+      player.hasMeldableCard(card.id)
     );
     if (!allCardsInHand) {
       return { valid: false, error: 'Semua kartu harus ada di tangan' };
     }
 
     // Check if meld is valid
-    const meldValidation = this.isValidMeld(meldCards, game.getActiveJokerValue());
+    const meldValidation = this.isValidMeld(meldCards, game.getActiveJokerValue(), game.getRules());
     if (!meldValidation.valid) {
       return { valid: false, error: 'Kombinasi tidak valid' };
     }
@@ -236,10 +349,257 @@ export class GameValidator {
     return { valid: true };
   }
 
-  // Validate game start
+  // Validate laying off cards onto an existing meld (own or an opponent's)
+  private static validateExtendMeldAction(
+    game: Game,
+    player: Player,
+    meldId?: string,
+    cards?: Card[]
+  ): ValidationResult {
+    if (!cards || cards.length === 0) {
+      return { valid: false, error: 'Pilih kartu untuk ditambahkan ke kombinasi' };
+    }
+
+    if (!cards.every(card => player.hasMeldableCard(card.id))) {
+      return { valid: false, error: 'Semua kartu harus ada di tangan' };
+    }
+
+    const meld = meldId ? game.findMeld(meldId) : undefined;
+    if (!meld) {
+      return { valid: false, error: 'Kombinasi tidak ditemukan' };
+    }
+
+    // Rul-001 applies here too: a player must lay their own run first
+    if (!player.hasLaidRunMeld()) {
+      return { valid: false, error: 'Turunkan Urutan (Run) sendiri sebelum menambah kartu ke kombinasi' };
+    }
+
+    const combined = [...meld.cards, ...cards];
+    const jokerValue = game.getActiveJokerValue();
+    const rules = game.getRules();
+
+    if (meld.isSet()) {
+      if (combined.length > rules.maxSetSize) {
+        return { valid: false, error: `Set maksimal ${rules.maxSetSize} kartu` };
+      }
+      if (!this.isValidSet(combined, jokerValue, rules)) {
+        return { valid: false, error: 'Kartu tidak cocok dengan Set ini' };
+      }
+    } else if (combined.length > rules.maxRunSize) {
+      return { valid: false, error: `Urutan maksimal ${rules.maxRunSize} kartu` };
+    } else if (!this.isValidRun(combined, jokerValue, rules)) {
+      return { valid: false, error: 'Kartu tidak melanjutkan Urutan ini' };
+    }
+
+    return { valid: true };
+  }
+
+  // Validate swapping a melded joker for the natural card it represents
+  private static validateSwapJokerAction(
+    game: Game,
+    player: Player,
+    meldId?: string,
+    jokerCardId?: string,
+    card?: Card
+  ): ValidationResult {
+    if (!card || !player.hasMeldableCard(card.id)) {
+      return { valid: false, error: 'Kartu tidak ada di tangan' };
+    }
+
+    const jokerValue = game.getActiveJokerValue();
+    if (card.isActiveJoker(jokerValue)) {
+      return { valid: false, error: 'Joker hanya bisa ditukar dengan kartu biasa' };
+    }
+
+    const meld = meldId ? game.findMeld(meldId) : undefined;
+    if (!meld) {
+      return { valid: false, error: 'Kombinasi tidak ditemukan' };
+    }
+
+    if (!player.hasLaidRunMeld()) {
+      return { valid: false, error: 'Turunkan Urutan (Run) sendiri sebelum menukar Joker' };
+    }
+
+    const assignment = jokerCardId && meld.containsCard(jokerCardId)
+      ? meld.getJokerAssignment(jokerCardId)
+      : undefined;
+    if (!assignment) {
+      return { valid: false, error: 'Joker tidak ada di kombinasi ini' };
+    }
+
+    // Runs need the exact card; sets accept any missing suit of the rank
+    const matches = meld.isRun()
+      ? card.rank === assignment.rank && card.suit === assignment.suit
+      : card.rank === assignment.rank;
+    if (!matches) {
+      return { valid: false, error: 'Kartu tidak sesuai dengan kartu yang digantikan Joker' };
+    }
+
+    const swapped = meld.cards.map(c => c.id === jokerCardId ? card : c);
+    const stillValid = meld.isRun()
+      ? this.isValidRun(swapped, jokerValue, game.getRules())
+      : this.isValidSet(swapped, jokerValue, game.getRules());
+    if (!stillValid) {
+      return { valid: false, error: 'Kombinasi tidak valid setelah Joker ditukar' };
+    }
+
+    return { valid: true };
+  }
+
+  // Taking `count` cards off the top of the discard pile. They have to be
+  // melded this turn (GMM-003), so several cards must form a meld on their own
+  // and a single card needs a meld with the hand or on the table. Works on
+  // plain cards so the server, the bots and the boards all use the same rule.
+  static validateDiscardPickup(
+    count: number,
+    discardPile: Card[],
+    hand: Card[],
+    tableMelds: Meld[],
+    hasLaidRun: boolean,
+    jokerValue?: string,
+    rules: RuleSet = DEFAULT_RULE_SET
+  ): ValidationResult {
+    const maxPickup = rules.maxDiscardPickup;
+    if (!Number.isInteger(count) || count < 1 || count > maxPickup) {
+      return {
+        valid: false,
+        error: maxPickup > 1
+          ? `Hanya dapat mengambil 1-${maxPickup} kartu dari discard pile`
+          : 'Hanya dapat mengambil 1 kartu dari discard pile'
+      };
+    }
+
+    // Additional check: if no cards have been discarded yet, can't draw from discard pile
+    if (discardPile.length === 0) {
+      return { valid: false, error: 'Belum ada kartu yang dibuang, tidak bisa mengambil dari discard pile' };
+    }
+
+    if (discardPile.length < count) {
+      return { valid: false, error: 'Tidak cukup kartu di discard pile' };
+    }
+
+    // If taking more than 1 card, must be able to form valid meld
+    const cardsToTake = discardPile.slice(-count);
+    if (count > 1) {
+      const meldValidation = this.isValidMeld(cardsToTake, jokerValue, rules);
+      if (!meldValidation.valid) {
+        return { valid: false, error: 'Harus dapat membentuk kombinasi valid saat mengambil >1 kartu' };
+      }
+      if (!hasLaidRun && meldValidation.type !== 'run') {
+        return { valid: false, error: 'Kombinasi pertama yang wajib diturunkan adalah Urutan (Run)' };
+      }
+    } else if (!this.canMeldDiscardedCard(cardsToTake[0], hand, tableMelds, hasLaidRun, jokerValue, rules)) {
+      return { valid: false, error: 'Kartu dari discard pile harus bisa langsung diturunkan dalam kombinasi' };
+    }
+
+    return { valid: true };
+  }
+
+  // Every pickup count validateDiscardPickup allows, smallest first
+  static getDiscardPickupCounts(
+    discardPile: Card[],
+    hand: Card[],
+    tableMelds: Meld[],
+    hasLaidRun: boolean,
+    jokerValue?: string,
+    rules: RuleSet = DEFAULT_RULE_SET
+  ): number[] {
+    const counts: number[] = [];
+    for (let count = 1; count <= Math.min(rules.maxDiscardPickup, discardPile.length); count++) {
+      if (this.validateDiscardPickup(count, discardPile, hand, tableMelds, hasLaidRun, jokerValue, rules).valid) {
+        counts.push(count);
+      }
+    }
+    return counts;
+  }
+
+  // Check that a single card taken from the discard pile can be melded right
+  // away: with two cards from hand, or laid off on a meld on the table
+  private static canMeldDiscardedCard(
+    card: Card,
+    hand: Card[],
+    tableMelds: Meld[],
+    hasLaidRun: boolean,
+    jokerValue: string | undefined,
+    rules: RuleSet
+  ): boolean {
+    for (let i = 0; i < hand.length; i++) {
+      for (let j = i + 1; j < hand.length; j++) {
+        const meld = this.isValidMeld([card, hand[i], hand[j]], jokerValue, rules);
+        if (meld.valid && (hasLaidRun || meld.type === 'run')) {
+          return true;
+        }
+      }
+    }
+
+    if (!hasLaidRun) return false;
+
+    return tableMelds.some(meld => this.canLayOff(meld, card, jokerValue, rules));
+  }
+
+  // Check that a card can be added to a meld on the table, within the size
+  // limits validateExtendMeldAction applies
+  private static canLayOff(meld: Meld, card: Card, jokerValue: string | undefined, rules: RuleSet): boolean {
+    const combined = [...meld.cards, card];
+    return meld.isSet()
+      ? combined.length <= rules.maxSetSize && this.isValidSet(combined, jokerValue, rules)
+      : combined.length <= rules.maxRunSize && this.isValidRun(combined, jokerValue, rules);
+  }
+
+  // Check that the cards waiting from the discard pile can still be melded,
+  // the same ways validateDiscardPickup allowed taking them
+  private static canMeldPendingCards(game: Game, player: Player): boolean {
+    const pendingIds = game.getPendingMeldCardIds();
+    const pending = player.getMeldableCards().filter(card => pendingIds.includes(card.id));
+    const hasLaidRun = player.hasLaidRunMeld();
+    const jokerValue = game.getActiveJokerValue();
+    const rules = game.getRules();
+
+    if (pending.length > 1) {
+      const meld = this.isValidMeld(pending, jokerValue, rules);
+      if (meld.valid && (hasLaidRun || meld.type === 'run')) return true;
+    }
+
+    const tableMelds = game.getPlayers().flatMap(owner => owner.getMelds());
+    return pending.some(card => this.canMeldDiscardedCard(
+      card,
+      player.getHand().filter(other => other.id !== card.id),
+      tableMelds,
+      hasLaidRun,
+      jokerValue,
+      rules
+    ));
+  }
+
+  // Validate game start (GMS-001)
   static validateGameStart(playerCount: number): ValidationResult {
-    if (playerCount !== 4) {
-      return { valid: false, error: 'Game membutuhkan tepat 4 pemain' };
+    if (!Number.isInteger(playerCount) || playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+      return { valid: false, error: `Game membutuhkan ${MIN_PLAYERS}-${MAX_PLAYERS} pemain` };
+    }
+    return { valid: true };
+  }
+
+  // Validate match settings chosen by the host
+  static validateMatchSettings(settings: MatchSettings): ValidationResult {
+    if (!Number.isInteger(settings.rounds) || settings.rounds < 1 || settings.rounds > 10) {
+      return { valid: false, error: 'Jumlah ronde harus antara 1 dan 10' };
+    }
+    if (settings.targetScore !== undefined && !(settings.targetScore > 0)) {
+      return { valid: false, error: 'Target skor harus lebih dari 0' };
+    }
+    if (!getRuleSet(settings.ruleSetId)) {
+      return { valid: false, error: 'Aturan permainan tidak dikenal' };
+    }
+    if (settings.turnTimeLimit !== undefined && !(
+      settings.turnTimeLimit === 0 ||
+      (Number.isInteger(settings.turnTimeLimit) && settings.turnTimeLimit >= 10 && settings.turnTimeLimit <= 600)
+    )) {
+      return { valid: false, error: 'Batas waktu giliran harus 10-600 detik, atau 0 tanpa batas' };
+    }
+    if (settings.timeBank !== undefined && !(
+      Number.isInteger(settings.timeBank) && settings.timeBank >= 0 && settings.timeBank <= 1800
+    )) {
+      return { valid: false, error: 'Bank waktu harus antara 0 dan 1800 detik' };
     }
     return { valid: true };
   }
@@ -281,9 +641,8 @@ export class GameValidator {
     return { gameOver: false };
   }
 
-  // Get meld suggestions for player
-  static getMeldSuggestions(player: Player, jokerValue?: string): Card[][] {
-    const hand = player.getHand();
+  // Get meld suggestions for a hand (3-card runs first, then sets)
+  static getMeldSuggestions(hand: Card[], jokerValue?: string, rules: RuleSet = DEFAULT_RULE_SET): Card[][] {
     const suggestions: Card[][] = [];
     const usedCardIds = new Set<string>();
 
@@ -292,7 +651,7 @@ export class GameValidator {
       for (let j = i + 1; j < hand.length; j++) {
         for (let k = j + 1; k < hand.length; k++) {
           const cards = [hand[i], hand[j], hand[k]];
-          if (this.isValidRun(cards, jokerValue)) {
+          if (this.isValidRun(cards, jokerValue, rules)) {
             const cardIds = cards.map(c => c.id);
             if (!cardIds.some(id => usedCardIds.has(id))) {
               suggestions.push(cards);
@@ -308,7 +667,7 @@ export class GameValidator {
       for (let j = i + 1; j < hand.length; j++) {
         for (let k = j + 1; k < hand.length; k++) {
           const cards = [hand[i], hand[j], hand[k]];
-          if (this.isValidSet(cards, jokerValue)) {
+          if (this.isValidSet(cards, jokerValue, rules)) {
             const cardIds = cards.map(c => c.id);
             if (!cardIds.some(id => usedCardIds.has(id))) {
               suggestions.push(cards);
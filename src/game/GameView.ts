@@ -0,0 +1,123 @@
+import { Card, Meld } from './Card';
+import { GameData, GameOverReason, GameStatus, TurnPhase } from './Game';
+import { GameValidator } from './GameValidator';
+import { MatchView } from './Match';
+import { DEFAULT_RULE_SET, RuleSet } from './RuleSet';
+
+// What one seat at the table is allowed to know about a player.
+// `hand` is only present for the viewer's own seat.
+export interface PlayerView {
+  id: string;
+  displayName: string;
+  handCount: number;
+  hand?: Card[];
+  melds: Meld[];
+  score: number;
+  ready: boolean;
+  connected: boolean;
+  hasLaidRun: boolean;
+  stagedCards: Card[]; // Face-up cards from the discard pile waiting to be melded
+  timeBank: number; // Milliseconds left of RuleSet.timeBank
+}
+
+// Redacted projection of GameData for a single viewer: no deck order and
+// no opponent hands, only what is face up on the table.
+export interface GameView {
+  id: string;
+  stateVersion: number; // GameData.stateVersion, to drop pushes older than the one shown
+  viewerId?: string;
+  status: GameStatus;
+  currentRound: number;
+  dealerIndex: number;
+  jokerGrant?: string;
+  rules: RuleSet;
+  players: PlayerView[];
+  deckCount: number;
+  discardPile: Card[];
+  discardedBy: Record<string, string>;
+  jokerCards: Card[];
+  jokerReferenceCard?: Card;
+  activeJokerValue?: string;
+  currentPlayerIndex: number;
+  currentTurnPhase: TurnPhase;
+  turnStartTime: number;
+  turnTimeLeft?: number; // Milliseconds until the turn times out, counted when the view was made; unset without a limit
+  turnNumber: number;
+  averageTurnDuration: number;
+  firstPlayerDiscarded: boolean;
+  lastDrawFromDiscard: boolean;
+  pendingMeldCardIds: string[];
+  direction: 1 | -1;
+  winner?: string;
+  gameOverReason?: GameOverReason;
+  lastAction?: GameData['lastAction'];
+  match?: MatchView; // Scoreboard when the game is a round of a match
+}
+
+// Rebuild Card and Meld instances in a view received as plain JSON
+export const hydrateGameView = (data: GameView): GameView => {
+  return {
+    ...data,
+    rules: data.rules ?? DEFAULT_RULE_SET,
+    players: data.players.map(player => ({
+      ...player,
+      hand: player.hand?.map(card => Card.fromData(card)),
+      melds: player.melds.map(meld => Meld.fromData(meld)),
+      stagedCards: (player.stagedCards || []).map(card => Card.fromData(card))
+    })),
+    discardPile: data.discardPile.map(card => Card.fromData(card)),
+    discardedBy: data.discardedBy || {},
+    pendingMeldCardIds: data.pendingMeldCardIds || [],
+    jokerCards: data.jokerCards.map(card => Card.fromData(card)),
+    jokerReferenceCard: data.jokerReferenceCard ? Card.fromData(data.jokerReferenceCard) : undefined
+  };
+};
+
+// View helpers mirroring the Player/TurnManager queries used by the UI
+
+export const getCurrentPlayerView = (view: GameView): PlayerView => {
+  return view.players[view.currentPlayerIndex];
+};
+
+export const getPlayerView = (view: GameView, playerId?: string): PlayerView | undefined => {
+  return view.players.find(player => player.id === playerId);
+};
+
+export const canPlayerViewWin = (player: PlayerView): boolean => {
+  return player.handCount === 1 && player.melds.length > 0 && player.hasLaidRun;
+};
+
+export const hasPlayerViewWon = (player: PlayerView): boolean => {
+  return player.handCount === 0 && player.melds.length > 0;
+};
+
+// Players in turn order starting from the current player
+export const getTurnOrder = (view: GameView): PlayerView[] => {
+  const count = view.players.length;
+  return view.players.map((_, i) => {
+    const index = (view.currentPlayerIndex + i * view.direction + count) % count;
+    return view.players[index];
+  });
+};
+
+// Cards still on the discard pile that a player threw away (DiscardPile.getCardsByPlayer)
+export const getDiscardsByPlayer = (view: GameView, playerId: string): Card[] => {
+  return view.discardPile.filter(card => view.discardedBy[card.id] === playerId);
+};
+
+// How many cards the player may take off the discard pile right now
+// (GameValidator.validateDiscardPickup), smallest first. Needs the player's
+// hand, so it only answers for the viewer's own seat.
+export const getDiscardPickupCounts = (view: GameView, playerId?: string): number[] => {
+  const player = getPlayerView(view, playerId);
+  if (!player?.hand) return [];
+
+  return GameValidator.getDiscardPickupCounts(
+    view.discardPile,
+    player.hand,
+    view.players.flatMap(owner => owner.melds),
+    player.hasLaidRun,
+    view.activeJokerValue,
+    view.rules
+  );
+};
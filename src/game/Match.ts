@@ -0,0 +1,228 @@
+import { Game, RoundSetup } from './Game';
+import { GameScore, RoundScore, ScoreManager } from './ScoreManager';
+import { GameValidator } from './GameValidator';
+import { generateSeed } from './Random';
+import { RuleSet, getRuleSet } from './RuleSet';
+
+// A match is a series of rounds (each one a Game) between the same players.
+// Scores carry over between rounds, the dealer moves one seat on every
+// round, and the highest scorer of a round is dealt a Joker in the next.
+
+export type MatchStatus = 'playing' | 'betweenRounds' | 'finished';
+
+export interface MatchSettings {
+  rounds: number; // Maximum number of rounds
+  targetScore?: number; // End early once a player's total reaches this
+  ruleSetId?: string; // RuleSet preset for every round, default Remi Renjana
+  turnTimeLimit?: number; // Seconds per turn, overrides the preset; 0 for no limit
+  timeBank?: number; // Seconds of time bank per player, overrides the preset
+}
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = { rounds: 3 };
+
+// The RuleSet every round is dealt with: the preset plus the room's turn timer
+export const getMatchRules = (settings: MatchSettings): RuleSet => {
+  const rules = getRuleSet(settings.ruleSetId);
+  if (!rules) {
+    throw new Error(`Unknown rule set ${settings.ruleSetId}`);
+  }
+
+  return {
+    ...rules,
+    turnTimeLimit: settings.turnTimeLimit ?? rules.turnTimeLimit,
+    timeBank: settings.timeBank ?? rules.timeBank
+  };
+};
+
+export interface MatchRound {
+  round: number;
+  gameId: string;
+  dealerIndex: number;
+  winner?: string;
+  jokerGrant?: string; // Highest scorer, dealt a Joker next round
+  scores: RoundScore[];
+}
+
+export interface MatchData {
+  id: string;
+  players: { id: string; displayName: string }[];
+  settings: MatchSettings;
+  status: MatchStatus;
+  rounds: MatchRound[];
+  currentGameId?: string;
+}
+
+// Public scoreboard sent along with every round's GameView
+export interface MatchView {
+  id: string;
+  settings: MatchSettings;
+  status: MatchStatus;
+  rounds: MatchRound[];
+  scoreboard: GameScore[];
+  winner?: string;
+}
+
+export class Match {
+  private id: string;
+  private players: { id: string; displayName: string }[];
+  private settings: MatchSettings;
+  private status: MatchStatus = 'betweenRounds';
+  private rounds: MatchRound[] = [];
+  private currentGame?: Game;
+
+  constructor(playerIds: string[], displayNames: string[], settings: MatchSettings = DEFAULT_MATCH_SETTINGS) {
+    const validation = GameValidator.validateMatchSettings(settings);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    this.id = this.generateMatchId();
+    this.players = playerIds.map((id, index) => ({ id, displayName: displayNames[index] }));
+    this.settings = { ...settings };
+  }
+
+  // Deal the next round with the dealer rotated and last round's joker grant applied
+  startNextRound(seed: number = generateSeed()): Game {
+    if (this.status === 'playing') {
+      throw new Error('Current round is not finished yet');
+    }
+    if (this.status === 'finished') {
+      throw new Error('Match is already finished');
+    }
+
+    const previous = this.rounds[this.rounds.length - 1];
+    const setup: RoundSetup = {
+      round: this.rounds.length + 1,
+      dealerIndex: previous ? (previous.dealerIndex + 1) % this.players.length : undefined,
+      jokerGrant: previous?.jokerGrant
+    };
+
+    const game = new Game(
+      this.players.map(player => player.id),
+      this.players.map(player => player.displayName),
+      seed,
+      setup,
+      getMatchRules(this.settings)
+    );
+    game.start();
+
+    this.currentGame = game;
+    this.status = 'playing';
+    return game;
+  }
+
+  // Score the finished round and decide whether the match goes on
+  completeRound(): MatchRound {
+    const game = this.currentGame;
+    if (this.status !== 'playing' || !game || !game.isFinished()) {
+      throw new Error('Current round is not finished yet');
+    }
+
+    const { scores, jokerGrant } = ScoreManager.calculateRoundScores(game, game.getWinner());
+    const result: MatchRound = {
+      round: game.getCurrentRound(),
+      gameId: game.getId(),
+      dealerIndex: game.getDealerIndex(),
+      winner: game.getWinner(),
+      jokerGrant,
+      // The winning card is already counted in totalScore
+      scores: scores.map(({ winningCard, ...score }) => score)
+    };
+
+    this.rounds.push(result);
+    this.status = this.hasReachedEnd() ? 'finished' : 'betweenRounds';
+    return result;
+  }
+
+  // Check the round limit and the target score
+  private hasReachedEnd(): boolean {
+    if (this.rounds.length >= this.settings.rounds) return true;
+
+    const targetScore = this.settings.targetScore;
+    return targetScore !== undefined &&
+      this.getScoreboard().some(score => score.totalScore >= targetScore);
+  }
+
+  // Cumulative scores, highest first
+  getScoreboard(): GameScore[] {
+    return ScoreManager.calculateGameScores(this.rounds.map(round => round.scores), this.players);
+  }
+
+  // Overall winner once the match is finished
+  getWinner(): string | undefined {
+    if (this.status !== 'finished') return undefined;
+    return this.getScoreboard()[0]?.playerId;
+  }
+
+  getId(): string {
+    return this.id;
+  }
+
+  getStatus(): MatchStatus {
+    return this.status;
+  }
+
+  getSettings(): MatchSettings {
+    return { ...this.settings };
+  }
+
+  getRounds(): MatchRound[] {
+    return [...this.rounds];
+  }
+
+  getCurrentGame(): Game | undefined {
+    return this.currentGame;
+  }
+
+  isFinished(): boolean {
+    return this.status === 'finished';
+  }
+
+  getView(): MatchView {
+    return {
+      id: this.id,
+      settings: this.getSettings(),
+      status: this.status,
+      rounds: this.getRounds(),
+      scoreboard: this.getScoreboard(),
+      winner: this.getWinner()
+    };
+  }
+
+  getData(): MatchData {
+    return {
+      id: this.id,
+      players: this.players.map(player => ({ ...player })),
+      settings: this.getSettings(),
+      status: this.status,
+      rounds: this.getRounds(),
+      currentGameId: this.currentGame?.getId()
+    };
+  }
+
+  // Firestore rejects undefined fields
+  getDataForFirestore(): MatchData {
+    return JSON.parse(JSON.stringify(this.getData()));
+  }
+
+  // Generate unique match ID
+  private generateMatchId(): string {
+    return Math.random().toString(36).substring(2, 9);
+  }
+
+  // Create match from data; pass the current round's game when it is loaded
+  static fromData(data: MatchData, currentGame?: Game): Match {
+    const match = new Match(
+      data.players.map(player => player.id),
+      data.players.map(player => player.displayName),
+      data.settings
+    );
+
+    match.id = data.id;
+    match.status = data.status;
+    match.rounds = data.rounds || [];
+    match.currentGame = currentGame && currentGame.getId() === data.currentGameId ? currentGame : undefined;
+
+    return match;
+  }
+}
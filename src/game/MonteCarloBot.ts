@@ -0,0 +1,282 @@
+import { Card, Meld, RANKS, SUITS } from './Card';
+import { BotContext, BotLevel, BotPlayer, DrawChoice, LayOff, countConnections, findMeldWithCard, getAllowedMelds, isJokerCard } from './BotPlayer';
+import { GameView, PlayerView, getDiscardsByPlayer, getTurnOrder } from './GameView';
+import { GameValidator } from './GameValidator';
+import { RandomSource } from './Random';
+import { getRequiredDecks } from './RuleSet';
+import { ScoreManager } from './ScoreManager';
+
+// Hard bot. It cannot see hidden cards either, so it rebuilds the unseen part
+// of the deck from everything face up, samples the next player's hand from it
+// (weighted by what that player has thrown away and melded) and scores each
+// draw and discard against those samples.
+
+// Sampled hands per decision
+const SAMPLE_COUNT = 32;
+
+// Weights of the hand evaluation
+const CARD_WEIGHT = 10; // Every card still to get rid of
+const CONNECTION_WEIGHT = 3; // Per partner card towards a meld (at most 2)
+const JOKER_POTENTIAL = 8; // A loose joker completes the next pair
+const SCORE_WEIGHT = 0.5; // Hand score if the round ended now
+const FEED_PENALTY = 15; // Handing the next player a card they can meld
+const TAKE_MARGIN = 1; // Taking from the pile tells the table what we collect
+const WIN_BONUS = 100; // Going out this turn (Rul-004)
+const WINNING_CARD_WEIGHT = 0.2; // Per point of the last card's winning value (Rul-005)
+
+// Cards an opponent may be holding: every card of the table's decks that is
+// not face up or in our own hand. The cards sharing the joker reference rank
+// are jokers.
+export const getUnseenCards = (view: GameView, hand: Card[]): Card[] => {
+  const seen = new Map<string, number>();
+  const markSeen = (card: Card) => {
+    const key = `${card.suit}-${card.rank}`;
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  };
+
+  hand.forEach(markSeen);
+  view.discardPile.forEach(markSeen);
+  view.players.forEach(player => {
+    player.melds.forEach(meld => meld.cards.forEach(markSeen));
+    player.stagedCards.forEach(markSeen);
+  });
+  if (view.jokerReferenceCard) markSeen(view.jokerReferenceCard);
+
+  const decks = getRequiredDecks(view.rules, view.players.length);
+  const unseen: Card[] = [];
+  SUITS.forEach(suit => {
+    RANKS.forEach(rank => {
+      const copies = decks - (seen.get(`${suit}-${rank}`) ?? 0);
+      for (let copy = 1; copy <= copies; copy++) {
+        unseen.push(new Card(suit, rank, rank === view.activeJokerValue, `${suit}-${rank}-unseen-${copy}`));
+      }
+    });
+  });
+  return unseen;
+};
+
+// Likelihood weight of a player holding a card, judged from their discards
+// (they gave up on that rank or stretch of suit) and their melds (they are
+// building on that rank or stretch of suit)
+export const getHoldingWeight = (card: Card, discards: Card[], melds: Meld[]): number => {
+  const rank = RANKS.indexOf(card.rank);
+  const isNear = (other: Card) => other.suit === card.suit && Math.abs(RANKS.indexOf(other.rank) - rank) <= 2;
+  let weight = 1;
+
+  discards.forEach(discard => {
+    if (discard.rank === card.rank) weight *= 0.5;
+    else if (isNear(discard)) weight *= 0.7;
+  });
+
+  melds.forEach(meld => {
+    const fits = meld.type === 'set'
+      ? meld.cards.some(other => other.rank === card.rank)
+      : meld.cards.some(isNear);
+    if (fits) weight *= 2;
+  });
+
+  return weight;
+};
+
+// Draw `count` cards without replacement, proportional to their weights
+export const sampleCards = (pool: Card[], weights: number[], count: number, random: RandomSource): Card[] => {
+  const cards = [...pool];
+  const remaining = [...weights];
+  const sample: Card[] = [];
+
+  while (sample.length < count && cards.length > 0) {
+    const total = remaining.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * total;
+    let index = 0;
+    while (index < cards.length - 1 && target >= remaining[index]) {
+      target -= remaining[index];
+      index++;
+    }
+    sample.push(cards.splice(index, 1)[0]);
+    remaining.splice(index, 1);
+  }
+  return sample;
+};
+
+// A meld on the table this card can be laid off on
+export const findTableMeldFor = (card: Card, view: GameView): Meld | undefined => {
+  for (const owner of view.players) {
+    const meld = owner.melds.find(meld => meld.isRun()
+      ? GameValidator.isValidRun([...meld.cards, card], view.activeJokerValue, view.rules)
+      : GameValidator.isValidSet([...meld.cards, card], view.activeJokerValue, view.rules));
+    if (meld) return meld;
+  }
+  return undefined;
+};
+
+// How close the round is to ending: 0 (far off) to 1 (next turn or two).
+// Unused jokers cost RuleSet.unusedJokerPenalty when it does (Rul-007B).
+export const getRoundEndPressure = (view: GameView, playerId: string): number => {
+  const opponents = view.players.filter(player => player.id !== playerId);
+  const closest = Math.min(...opponents.map(player =>
+    player.hasLaidRun ? player.handCount : player.handCount + 2
+  ));
+  const handPressure = closest <= 1 ? 1 : closest <= 3 ? 0.5 : 0.1;
+
+  const players = view.players.length;
+  const deckPressure = view.deckCount <= players ? 1 : view.deckCount <= players * 3 ? 0.5 : 0;
+
+  return Math.max(handPressure, deckPressure);
+};
+
+// Value of holding a hand at the end of our turn, higher is better. Cards
+// that can be melded right away are as good as gone.
+export const evaluateHand = (hand: Card[], view: GameView, hasLaidRun: boolean, pressure: number): number => {
+  const suggestions = GameValidator.getMeldSuggestions(hand, view.activeJokerValue, view.rules);
+  const runs = suggestions.filter(cards => GameValidator.isValidRun(cards, view.activeJokerValue, view.rules));
+  // Sets only count once a run is (or can be) down
+  const melds = hasLaidRun || runs.length > 0 ? suggestions : [];
+  const meldedIds = new Set(melds.flat().map(card => card.id));
+  const canLayOff = hasLaidRun || melds.length > 0;
+  const remaining = hand.filter(card =>
+    !meldedIds.has(card.id) && !(canLayOff && !isJokerCard(card, view) && findTableMeldFor(card, view))
+  );
+
+  // One card left after melding: we go out, ideally on a joker or an ace
+  if (remaining.length === 1 && (hasLaidRun || melds.length > 0)) {
+    return WIN_BONUS + remaining[0].getWinningValue(view.rules) * WINNING_CARD_WEIGHT;
+  }
+
+  let value = -remaining.length * CARD_WEIGHT;
+  remaining.forEach(card => {
+    value += isJokerCard(card, view)
+      ? JOKER_POTENTIAL * (1 - pressure)
+      : Math.min(countConnections(card, remaining), 2) * CONNECTION_WEIGHT;
+  });
+
+  // What the leftover cards score if someone goes out now (minus the joker penalty per joker)
+  return value + pressure * ScoreManager.calculateHandScore(remaining, view.rules) * SCORE_WEIGHT;
+};
+
+export class MonteCarloBot implements BotPlayer {
+  readonly level: BotLevel = 'expert';
+
+  // Compare the visible pile options with the average over sampled deck cards
+  chooseDraw(context: BotContext): DrawChoice {
+    const { view, player, hand, random } = context;
+    const pressure = getRoundEndPressure(view, player.id);
+    const unseen = getUnseenCards(view, hand);
+
+    let deckValue = 0;
+    for (let i = 0; i < SAMPLE_COUNT && unseen.length > 0; i++) {
+      const card = sampleCards(unseen, unseen.map(() => 1), 1, random)[0];
+      deckValue += this.bestAfterDiscard([...hand, card], [], view, player.hasLaidRun, pressure);
+    }
+    deckValue /= Math.max(1, Math.min(SAMPLE_COUNT, unseen.length));
+
+    let best: DrawChoice = { fromDiscard: false };
+    let bestValue = deckValue + TAKE_MARGIN;
+    for (let count = 1; count <= Math.min(view.rules.maxDiscardPickup, view.discardPile.length); count++) {
+      const taken = view.discardPile.slice(-count);
+      if (!this.canTake(taken, hand, view, player.hasLaidRun)) continue;
+
+      const value = this.bestAfterDiscard([...hand, ...taken], taken, view, player.hasLaidRun, pressure);
+      if (value > bestValue) {
+        best = { fromDiscard: true, count };
+        bestValue = value;
+      }
+    }
+    return best;
+  }
+
+  // Lay down what we can, but keep two cards: going out means discarding down to one
+  chooseMelds(context: BotContext): Card[][] {
+    let handSize = context.hand.length;
+    return getAllowedMelds(context).filter(cards => {
+      if (handSize - cards.length < 2) return false;
+      handSize -= cards.length;
+      return true;
+    });
+  }
+
+  // Natural cards that fit melds on the table; jokers are kept for our own melds
+  chooseLayOffs(context: BotContext): LayOff[] {
+    const { view, player, hand } = context;
+    if (!player.hasLaidRun) return [];
+
+    const layOffs: LayOff[] = [];
+    hand.forEach(card => {
+      if (hand.length - layOffs.length <= 2 || isJokerCard(card, view)) return;
+      const meld = findTableMeldFor(card, view);
+      if (meld) layOffs.push({ meldId: meld.id, card });
+    });
+    return layOffs;
+  }
+
+  // Keep the best hand, minus the chance of setting up the next player
+  chooseDiscard(context: BotContext): Card {
+    const { view, player, hand } = context;
+    const pressure = getRoundEndPressure(view, player.id);
+    const next = getTurnOrder(view).find(other => other.id !== player.id);
+    const samples = next ? this.sampleHands(next, context) : [];
+
+    let best = hand[0];
+    let bestValue = -Infinity;
+    hand.forEach(card => {
+      const rest = hand.filter(other => other.id !== card.id);
+      const risk = next ? this.getFeedRisk(card, next, samples, view) : 0;
+      const value = evaluateHand(rest, view, player.hasLaidRun, pressure) - risk * FEED_PENALTY;
+      // Ties go to the cheaper card
+      if (value > bestValue || (value === bestValue && card.value < best.value)) {
+        best = card;
+        bestValue = value;
+      }
+    });
+    return best;
+  }
+
+  // Mirrors GameValidator.validateDrawAction for the options runBotTurn can meld
+  private canTake(taken: Card[], hand: Card[], view: GameView, hasLaidRun: boolean): boolean {
+    if (taken.length === 1) {
+      return !!findMeldWithCard(taken[0], hand, view, hasLaidRun);
+    }
+    const meld = GameValidator.isValidMeld(taken, view.activeJokerValue, view.rules);
+    return meld.valid && (hasLaidRun || meld.type === 'run');
+  }
+
+  // Best hand value after the discard that ends the turn
+  private bestAfterDiscard(hand: Card[], keep: Card[], view: GameView, hasLaidRun: boolean, pressure: number): number {
+    const keepIds = new Set(keep.map(card => card.id));
+    return hand
+      .filter(card => !keepIds.has(card.id))
+      .reduce((best, card) => Math.max(
+        best,
+        evaluateHand(hand.filter(other => other.id !== card.id), view, hasLaidRun, pressure)
+      ), -Infinity);
+  }
+
+  // Possible hands of an opponent, weighted by their discards and melds
+  private sampleHands(opponent: PlayerView, context: BotContext): Card[][] {
+    const { view, hand, random } = context;
+    const unseen = getUnseenCards(view, hand);
+    const discards = getDiscardsByPlayer(view, opponent.id);
+    const weights = unseen.map(card => getHoldingWeight(card, discards, opponent.melds));
+
+    const samples: Card[][] = [];
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      samples.push(sampleCards(unseen, weights, opponent.handCount, random));
+    }
+    return samples;
+  }
+
+  // Chance the next player can take this card off the pile and meld it
+  private getFeedRisk(card: Card, next: PlayerView, samples: Card[][], view: GameView): number {
+    // Taking several cards needs no help from their hand, so everyone can see it
+    for (let count = 2; count <= view.rules.maxDiscardPickup && count - 1 <= view.discardPile.length; count++) {
+      const taken = [...view.discardPile.slice(-(count - 1)), card];
+      const meld = GameValidator.isValidMeld(taken, view.activeJokerValue, view.rules);
+      if (meld.valid && (next.hasLaidRun || meld.type === 'run')) return 1;
+    }
+
+    if (next.hasLaidRun && findTableMeldFor(card, view)) return 1;
+    if (samples.length === 0) return 0;
+
+    const hits = samples.filter(sample => findMeldWithCard(card, sample, view, next.hasLaidRun)).length;
+    return hits / samples.length;
+  }
+}
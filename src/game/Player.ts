@@ -9,6 +9,8 @@ export interface PlayerData {
   ready: boolean;
   connected: boolean;
   hasLaidRun: boolean;
+  stagedCards: Card[]; // Extra cards taken from the discard pile, waiting to be melded (GMM-002A)
+  timeBank: number; // Milliseconds left of RuleSet.timeBank
 }
 
 export class Player {
@@ -20,6 +22,8 @@ export class Player {
   private ready: boolean = false;
   private connected: boolean = true;
   private hasLaidRun: boolean = false;
+  private stagedCards: Card[] = [];
+  private timeBank: number = 0;
 
   constructor(id: string, displayName: string) {
     this.id = id;
@@ -36,7 +40,9 @@ export class Player {
       score: this.score,
       ready: this.ready,
       connected: this.connected,
-      hasLaidRun: this.hasLaidRun
+      hasLaidRun: this.hasLaidRun,
+      stagedCards: this.stagedCards.map(card => this.serializeCard(card)),
+      timeBank: this.timeBank
     };
   }
 
@@ -57,19 +63,19 @@ export class Player {
       id: meld.id,
       type: meld.type,
       cards: meld.cards.map(card => this.serializeCard(card)),
-      playerId: meld.playerId
+      playerId: meld.playerId,
+      jokerAssignments: meld.jokerAssignments
     };
   }
 
-  // Deserialize plain data back to Card object
+  // Deserialize plain data back to Card object, keeping its id
   deserializeCard(cardData: any): Card {
-    return new Card(cardData.suit, cardData.rank, cardData.isJoker);
+    return Card.fromData(cardData);
   }
 
-  // Deserialize plain data back to Meld object
+  // Deserialize plain data back to Meld object, keeping its id
   deserializeMeld(meldData: any): Meld {
-    const cards = meldData.cards.map((cardData: any) => this.deserializeCard(cardData));
-    return new Meld(meldData.type, cards, meldData.playerId);
+    return Meld.fromData(meldData);
   }
 
   // Hand management
@@ -93,10 +99,11 @@ export class Player {
     return undefined;
   }
 
+  // Remove cards being melded, from the hand or the staged cards
   removeCards(cardIds: string[]): Card[] {
     const removedCards: Card[] = [];
     cardIds.forEach(cardId => {
-      const card = this.removeCard(cardId);
+      const card = this.removeCard(cardId) ?? this.removeStagedCard(cardId);
       if (card) removedCards.push(card);
     });
     return removedCards;
@@ -106,6 +113,32 @@ export class Player {
     return this.hand.some(card => card.id === cardId);
   }
 
+  // Staged cards sit in the meld area, not the hand, until they are melded
+  getStagedCards(): Card[] {
+    return [...this.stagedCards];
+  }
+
+  stageCards(cards: Card[]): void {
+    this.stagedCards.push(...cards);
+  }
+
+  private removeStagedCard(cardId: string): Card | undefined {
+    const index = this.stagedCards.findIndex(card => card.id === cardId);
+    if (index !== -1) {
+      return this.stagedCards.splice(index, 1)[0];
+    }
+    return undefined;
+  }
+
+  // Cards that can go into a meld: the hand plus any staged cards
+  getMeldableCards(): Card[] {
+    return [...this.hand, ...this.stagedCards];
+  }
+
+  hasMeldableCard(cardId: string): boolean {
+    return this.getMeldableCards().some(card => card.id === cardId);
+  }
+
   hasCards(cardIds: string[]): boolean {
     return cardIds.every(cardId => this.hasCard(cardId));
   }
@@ -128,6 +161,11 @@ export class Player {
     }
   }
 
+  // Replace a meld with an updated version (e.g. after cards were laid off on it)
+  replaceMeld(meld: Meld): void {
+    this.melds = this.melds.map(existing => existing.id === meld.id ? meld : existing);
+  }
+
   // Ready state management
   isReady(): boolean {
     return this.ready;
@@ -150,6 +188,15 @@ export class Player {
     this.connected = connected;
   }
 
+  // Time bank management
+  getTimeBank(): number {
+    return this.timeBank;
+  }
+
+  setTimeBank(milliseconds: number): void {
+    this.timeBank = Math.max(0, milliseconds);
+  }
+
   // Score management
   getScore(): number {
     return this.score;
@@ -168,6 +215,11 @@ export class Player {
     return this.hasLaidRun;
   }
 
+  // Rule sets without Rul-001 count the requirement as met from the deal
+  waiveRunRequirement(): void {
+    this.hasLaidRun = true;
+  }
+
   // Winning condition checks
   canWin(): boolean {
     return this.hand.length === 1 && this.melds.length > 0 && this.hasLaidRun;
@@ -177,59 +229,12 @@ export class Player {
     return this.hand.length === 0 && this.melds.length > 0;
   }
 
-  // Card matching logic for discard pile interaction
-  hasMatchingPair(topCard: Card): boolean {
-    if (!topCard) return false;
-
-    return this.hand.some(card => {
-      // Check for same rank (different suits for pairs)
-      if (card.matchesByRank(topCard)) {
-        return true;
-      }
-
-      // Check for same suit (sequence)
-      if (card.formsSequenceWith(topCard)) {
-        return true;
-      }
-
-      return false;
-    });
-  }
-
-  getMatchingCards(topCard: Card): Card[] {
-    if (!topCard) return [];
-
-    return this.hand.filter(card =>
-      card.matchesByRank(topCard) || card.formsSequenceWith(topCard)
-    );
-  }
-
-  // Get matching cards sequence from discard pile
-  getMatchingCardsSequence(discardPile: Card[]): Card[] {
-    if (discardPile.length === 0) return [];
-
-    const matchingCards: Card[] = [];
-
-    // Check from top to bottom until we find a non-matching card
-    for (let i = discardPile.length - 1; i >= 0; i--) {
-      const card = discardPile[i];
-
-      if (this.hasMatchingPair(card)) {
-        matchingCards.unshift(card); // Add to beginning to maintain order
-      } else {
-        break; // Stop at first non-matching card
-      }
-    }
-
-    return matchingCards;
-  }
-
   // Sort hand by rank and suit
   sortHand(): void {
     this.hand.sort((a, b) => {
-      // First sort by value
-      if (a.value !== b.value) {
-        return a.value - b.value;
+      // First sort by rank
+      if (a.ordinal !== b.ordinal) {
+        return a.ordinal - b.ordinal;
       }
       // Then by suit
       const suitOrder = ['hearts', 'diamonds', 'clubs', 'spades'];
@@ -266,12 +271,14 @@ export class Player {
     const newPlayer = new Player(this.id, this.displayName);
     newPlayer.hand = this.hand.map(card => card.copy());
     newPlayer.melds = this.melds.map(meld =>
-      new Meld(meld.type, meld.cards.map(card => card.copy()), meld.playerId)
+      new Meld(meld.type, meld.cards.map(card => card.copy()), meld.playerId, meld.id, { ...meld.jokerAssignments })
     );
     newPlayer.score = this.score;
     newPlayer.ready = this.ready;
     newPlayer.connected = this.connected;
     newPlayer.hasLaidRun = this.hasLaidRun;
+    newPlayer.stagedCards = this.stagedCards.map(card => card.copy());
+    newPlayer.timeBank = this.timeBank;
     return newPlayer;
   }
 
@@ -284,6 +291,8 @@ export class Player {
     player.ready = data.ready;
     player.connected = data.connected;
     player.hasLaidRun = data.hasLaidRun;
+    player.stagedCards = (data.stagedCards || []).map(cardData => player.deserializeCard(cardData));
+    player.timeBank = data.timeBank;
     return player;
   }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Seedable random number generation. Everything random in a game (shuffle,
+// joker determiner, deal) goes through a RandomSource created from the game
+// seed, so the same seed always produces the same game.
+
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Create a new 32-bit seed
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+// Create a deterministic RandomSource from a seed (mulberry32)
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+// Random integer in [0, max)
+export const randomInt = (random: RandomSource, max: number): number => {
+  return Math.floor(random() * max);
+};
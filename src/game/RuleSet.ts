@@ -0,0 +1,171 @@
+import { Rank } from './Card';
+
+// House rules of a game. Everything the engine used to hard-code about the
+// deal, discard pickup, meld limits and scoring lives here, so hosts can
+// pick a preset in the room before starting. A game keeps its RuleSet in
+// GameData, so a stored or replayed game always uses the rules it was dealt with.
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  description: string;
+  handSize: number; // Cards dealt to each player; the opening player gets one more (GMS-002B)
+  playersPerDeck: number; // Players one 52-card deck is enough for; bigger tables add a deck
+  maxDiscardPickup: number; // Cards that may be taken from the discard pile at once
+  maxSetSize: number;
+  maxRunSize: number;
+  aceLow: boolean; // A-2-3 is a run
+  aceHigh: boolean; // Q-K-A is a run
+  runsWrapAround: boolean; // K-A-2 is a run; the ace is then both low and high
+  firstMeldMustBeRun: boolean; // Rul-001
+  cardValues: Record<Rank, number>; // Cards left in hand (Rul-007)
+  winningCardValues: Record<Rank, number>; // Last card when going out (Rul-005)
+  jokerWinningValue: number;
+  meldedJokerValue: number; // Rul-007A, only for a melded joker whose card is unknown
+  unusedJokerPenalty: number; // Rul-007B, subtracted per joker left in hand
+  meldBonus: number; // Per meld on the table
+  fourCardMeldBonus: number; // Extra for a meld of 4 cards
+  turnTimeLimit: number; // Seconds per turn, 0 for no limit
+  timeBank: number; // Seconds per player for the whole game, used up once a turn runs past the limit
+}
+
+// Build a rank -> value table from the values of A, 2-10 and J/Q/K
+const rankValues = (ace: number, pip: (rank: number) => number, face: number): Record<Rank, number> => ({
+  'A': ace, '2': pip(2), '3': pip(3), '4': pip(4), '5': pip(5), '6': pip(6), '7': pip(7),
+  '8': pip(8), '9': pip(9), '10': pip(10), 'J': face, 'Q': face, 'K': face
+});
+
+// The rules from the PRD
+export const REMI_RENJANA_RULES: RuleSet = {
+  id: 'renjana',
+  name: 'Remi Renjana',
+  description: 'Aturan asli: Run wajib dulu, ambil 1-3 kartu discard, bonus Memukul',
+  handSize: 7,
+  playersPerDeck: 4,
+  maxDiscardPickup: 3,
+  maxSetSize: 4,
+  maxRunSize: 13,
+  aceLow: true,
+  aceHigh: true,
+  runsWrapAround: false,
+  firstMeldMustBeRun: true,
+  cardValues: rankValues(15, () => 5, 10),
+  winningCardValues: rankValues(150, () => 50, 100),
+  jokerWinningValue: 250,
+  meldedJokerValue: 10,
+  unusedJokerPenalty: 25,
+  meldBonus: 10,
+  fourCardMeldBonus: 5,
+  turnTimeLimit: 0,
+  timeBank: 0
+};
+
+export const CLASSIC_RUMMY_RULES: RuleSet = {
+  id: 'classic',
+  name: 'Rummy Klasik',
+  description: 'Kombinasi apa saja boleh duluan, ambil 1 kartu discard, nilai kartu sesuai angka',
+  handSize: 7,
+  playersPerDeck: 4,
+  maxDiscardPickup: 1,
+  maxSetSize: 4,
+  maxRunSize: 13,
+  aceLow: true,
+  aceHigh: true,
+  runsWrapAround: false,
+  firstMeldMustBeRun: false,
+  cardValues: rankValues(1, rank => rank, 10),
+  winningCardValues: rankValues(25, () => 25, 25),
+  jokerWinningValue: 50,
+  meldedJokerValue: 0,
+  unusedJokerPenalty: 15,
+  meldBonus: 0,
+  fourCardMeldBonus: 0,
+  turnTimeLimit: 0,
+  timeBank: 0
+};
+
+export const GIN_RUMMY_RULES: RuleSet = {
+  id: 'gin',
+  name: 'Gin Rummy',
+  description: '10 kartu per pemain, ambil 1 kartu discard, bonus Gin 25',
+  handSize: 10,
+  playersPerDeck: 3,
+  maxDiscardPickup: 1,
+  maxSetSize: 4,
+  maxRunSize: 13,
+  aceLow: true,
+  aceHigh: false, // The ace is always low in Gin
+  runsWrapAround: false,
+  firstMeldMustBeRun: false,
+  cardValues: rankValues(1, rank => rank, 10),
+  winningCardValues: rankValues(25, () => 25, 25),
+  jokerWinningValue: 25,
+  meldedJokerValue: 0,
+  unusedJokerPenalty: 10,
+  meldBonus: 0,
+  fourCardMeldBonus: 0,
+  turnTimeLimit: 0,
+  timeBank: 0
+};
+
+export const DEFAULT_RULE_SET = REMI_RENJANA_RULES;
+
+export const RULE_SET_PRESETS: RuleSet[] = [REMI_RENJANA_RULES, CLASSIC_RUMMY_RULES, GIN_RUMMY_RULES];
+
+export const getRuleSet = (id?: string): RuleSet | undefined => {
+  if (id === undefined) return DEFAULT_RULE_SET;
+  return RULE_SET_PRESETS.find(rules => rules.id === id);
+};
+
+// Seats at a table (GMS-001)
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+// 52-card decks shuffled together for a table of `playerCount`
+export const getRequiredDecks = (rules: RuleSet, playerCount: number): number => {
+  return Math.max(1, Math.ceil(playerCount / rules.playersPerDeck));
+};
+
+// Where the ace may sit in a run
+const describeAces = (rules: RuleSet): string => {
+  if (rules.runsWrapAround) return 'Urutan boleh memutar lewat As (K-A-2)';
+  if (rules.aceLow && rules.aceHigh) return 'As boleh di awal (A-2-3) atau di akhir urutan (Q-K-A)';
+  if (rules.aceLow) return 'As hanya di awal urutan (A-2-3)';
+  if (rules.aceHigh) return 'As hanya di akhir urutan (Q-K-A)';
+  return 'As tidak bisa masuk urutan, kecuali 4 As';
+};
+
+// Turn limit and time bank
+const describeTurnTimer = (rules: RuleSet): string => {
+  if (rules.turnTimeLimit <= 0) return 'Tanpa batas waktu giliran';
+  const bank = rules.timeBank > 0 ? `, ditambah bank waktu ${rules.timeBank} detik per pemain` : '';
+  return `Batas waktu ${rules.turnTimeLimit} detik per giliran${bank}; lewat dari itu giliran dimainkan otomatis`;
+};
+
+// Short rule summary for the room lobby
+export const describeRuleSet = (rules: RuleSet, playerCount: number = MIN_PLAYERS): string[] => {
+  const values = rules.cardValues;
+  const winning = rules.winningCardValues;
+  const decks = getRequiredDecks(rules, playerCount);
+  return [
+    decks > 1
+      ? `${playerCount} pemain bermain dengan ${decks} deck (${decks * 52} kartu)`
+      : `Lebih dari ${rules.playersPerDeck} pemain memakai deck kedua`,
+    `Setiap pemain mendapat ${rules.handSize} kartu, pemain pertama ${rules.handSize + 1} kartu dan wajib membuang 1 kartu`,
+    rules.firstMeldMustBeRun
+      ? 'Kombinasi pertama wajib Urutan (Run)'
+      : 'Kombinasi pertama boleh Urutan (Run) atau Set',
+    rules.maxDiscardPickup > 1
+      ? `Bisa ambil 1-${rules.maxDiscardPickup} kartu terakhir dari discard pile, wajib langsung diturunkan`
+      : 'Hanya bisa ambil 1 kartu teratas dari discard pile, wajib langsung diturunkan',
+    `Set maksimal ${rules.maxSetSize} kartu`,
+    describeAces(rules),
+    `Nilai kartu di tangan: A=${values.A}, 2-10=${values['2'] === values['10'] ? values['2'] : 'sesuai angka'}, J/Q/K=${values.K}`,
+    `Poin kemenangan: 2-10=${winning['2']}, J/Q/K=${winning.K}, A=${winning.A}, Joker=${rules.jokerWinningValue}`,
+    `Joker tidak terpakai: -${rules.unusedJokerPenalty} poin`,
+    rules.meldBonus > 0
+      ? `Bonus kombinasi: +${rules.meldBonus} per kombinasi, +${rules.fourCardMeldBonus} untuk 4 kartu`
+      : 'Tanpa bonus kombinasi',
+    describeTurnTimer(rules)
+  ];
+};
@@ -1,6 +1,7 @@
-import { Card } from './Card';
+import { Card, JokerAssignment, Meld } from './Card';
 import { Player } from './Player';
 import { Game } from './Game';
+import { DEFAULT_RULE_SET, RuleSet } from './RuleSet';
 
 export interface RoundScore {
   playerId: string;
@@ -11,6 +12,13 @@ export interface RoundScore {
   winningCard?: Card;
 }
 
+// A melded card and what it is worth; a joker shows the card it stands in for
+export interface MeldCardScore {
+  card: Card;
+  value: number;
+  represents?: JokerAssignment;
+}
+
 export interface GameScore {
   playerId: string;
   displayName: string;
@@ -21,26 +29,39 @@ export interface GameScore {
 
 export class ScoreManager {
   // Calculate score for a hand (Rul-007 and Rul-007B)
-  static calculateHandScore(hand: Card[], usedInMelds: Card[] = []): number {
-    return hand.reduce((total, card) => {
-      if (card.isJoker) {
-        // Check if joker is used in a meld
-        const jokerUsedInMeld = usedInMelds.some(meldCard => meldCard.id === card.id);
-        if (jokerUsedInMeld) {
-          // Joker takes value of card it replaces (Rul-007A)
-          return total + 10; // Default average value
-        } else {
-          // Unused joker worth MINUS 25 points (Rul-007B)
-          return total - 25;
-        }
-      }
-      return total + card.value;
-    }, 0);
+  static calculateHandScore(hand: Card[], rules: RuleSet = DEFAULT_RULE_SET): number {
+    return hand.reduce((total, card) => total + this.getHandCardValue(card, rules), 0);
+  }
+
+  // Value of one card left in hand under the given rules. A joker in hand
+  // stands in for no card, so it is the unused joker penalty (Rul-007B);
+  // melded jokers are valued by scoreMeldCard (Rul-007A).
+  static getHandCardValue(card: Card, rules: RuleSet = DEFAULT_RULE_SET): number {
+    return card.isJoker ? -rules.unusedJokerPenalty : rules.cardValues[card.rank];
+  }
+
+  // Value of a card in a meld. A joker is worth the card it stands in for
+  // in that meld (Rul-007A); RuleSet.meldedJokerValue is only used when the
+  // meld does not say which card that is. Melded cards are shown in the
+  // score breakdown; the round score only counts the hand and the meld bonus.
+  static scoreMeldCard(card: Card, meld: Meld, rules: RuleSet = DEFAULT_RULE_SET): MeldCardScore {
+    if (!card.isJoker) return { card, value: rules.cardValues[card.rank] };
+
+    const represents = meld.getJokerAssignment(card.id);
+    return represents
+      ? { card, value: rules.cardValues[represents.rank], represents }
+      : { card, value: rules.meldedJokerValue };
   }
 
-  // Calculate winning score (Rul-005 - Memukul)
-  static calculateWinningScore(finalCard: Card): number {
-    return finalCard.getWinningValue();
+  // Total value of the cards in a meld
+  static calculateMeldValue(meld: Meld, rules: RuleSet = DEFAULT_RULE_SET): number {
+    return meld.cards.reduce((total, card) => total + this.scoreMeldCard(card, meld, rules).value, 0);
+  }
+
+  // Calculate winning score (Rul-005 - Memukul). The last card is in hand,
+  // so a joker there stands in for no card and scores RuleSet.jokerWinningValue.
+  static calculateWinningScore(finalCard: Card, rules: RuleSet = DEFAULT_RULE_SET): number {
+    return finalCard.getWinningValue(rules);
   }
 
   // Calculate round scores and determine joker grant
@@ -49,19 +70,14 @@ export class ScoreManager {
     jokerGrant?: string;
   } {
     const players = game.getPlayers();
+    const rules = game.getRules();
     const scores: RoundScore[] = [];
     let highestScore = -1;
     let jokerGrant: string | undefined;
 
     players.forEach(player => {
-      // Get all cards used in melds
-      const usedInMelds: Card[] = [];
-      player.getMelds().forEach(meld => {
-        usedInMelds.push(...meld.cards);
-      });
-
-      const handScore = this.calculateHandScore(player.getHand(), usedInMelds);
-      const meldBonus = this.calculateMeldBonus(player.getMelds());
+      const handScore = this.calculateHandScore(player.getHand(), rules);
+      const meldBonus = this.calculateMeldBonus(player.getMelds(), rules);
 
       let totalScore = handScore + meldBonus;
       let isWinner = false;
@@ -73,7 +89,7 @@ export class ScoreManager {
         // Winner gets bonus based on their last card
         if (player.getHandSize() === 1) {
           winningCard = player.getHand()[0];
-          totalScore += this.calculateWinningScore(winningCard);
+          totalScore += this.calculateWinningScore(winningCard, rules);
         }
       }
 
@@ -99,46 +115,49 @@ export class ScoreManager {
   }
 
   // Calculate meld bonus points
-  static calculateMeldBonus(melds: any[]): number {
+  static calculateMeldBonus(melds: any[], rules: RuleSet = DEFAULT_RULE_SET): number {
     let bonus = 0;
 
     melds.forEach(meld => {
       // Bonus for each meld
-      bonus += 10;
+      bonus += rules.meldBonus;
 
       // Additional bonus for larger melds
       if (meld.getSize() === 4) {
-        bonus += 5; // Extra bonus for 4-card melds
+        bonus += rules.fourCardMeldBonus;
       }
     });
 
     return bonus;
   }
 
-  // Calculate game scores across multiple rounds
-  static calculateGameScores(gameHistory: any[]): GameScore[] {
+  // Calculate game scores across multiple rounds (one RoundScore list per round)
+  static calculateGameScores(
+    roundHistory: RoundScore[][],
+    players: Array<{ id: string; displayName: string }>
+  ): GameScore[] {
     const gameScores: Record<string, GameScore> = {};
 
-    gameHistory.forEach(round => {
-      const { scores } = this.calculateRoundScores(round);
+    players.forEach(player => {
+      gameScores[player.id] = {
+        playerId: player.id,
+        displayName: player.displayName,
+        rounds: [],
+        totalScore: 0,
+        wins: 0
+      };
+    });
 
+    roundHistory.forEach(scores => {
       scores.forEach(roundScore => {
-        if (!gameScores[roundScore.playerId]) {
-          const player = round.getPlayers().find(p => p.id === roundScore.playerId);
-          gameScores[roundScore.playerId] = {
-            playerId: roundScore.playerId,
-            displayName: player?.displayName || 'Unknown',
-            rounds: [],
-            totalScore: 0,
-            wins: 0
-          };
-        }
+        const gameScore = gameScores[roundScore.playerId];
+        if (!gameScore) return;
 
-        gameScores[roundScore.playerId].rounds.push(roundScore);
-        gameScores[roundScore.playerId].totalScore += roundScore.totalScore;
+        gameScore.rounds.push(roundScore);
+        gameScore.totalScore += roundScore.totalScore;
 
         if (roundScore.isWinner) {
-          gameScores[roundScore.playerId].wins++;
+          gameScore.wins++;
         }
       });
     });
@@ -146,54 +165,45 @@ export class ScoreManager {
     return Object.values(gameScores).sort((a, b) => b.totalScore - a.totalScore);
   }
 
-  // Get score breakdown for display
-  static getScoreBreakdown(player: Player): {
+  // Get score breakdown for display, with the card each melded joker stands in for
+  static getScoreBreakdown(player: Player, rules: RuleSet = DEFAULT_RULE_SET): {
     handCards: Array<{ card: Card; inMeld: boolean; value: number }>;
-    melds: Array<{ type: string; cards: Card[]; bonus: number }>;
+    melds: Array<{ type: string; cards: MeldCardScore[]; value: number; bonus: number }>;
     totalHandValue: number;
+    totalMeldValue: number;
     totalMeldBonus: number;
   } {
     const handCards: Array<{ card: Card; inMeld: boolean; value: number }> = [];
-    const melds: Array<{ type: string; cards: Card[]; bonus: number }> = [];
+    const melds: Array<{ type: string; cards: MeldCardScore[]; value: number; bonus: number }> = [];
 
-    // Get all cards used in melds
-    const usedInMelds: Card[] = [];
     player.getMelds().forEach(meld => {
-      usedInMelds.push(...meld.cards);
+      const cards = meld.cards.map(card => this.scoreMeldCard(card, meld, rules));
       melds.push({
         type: meld.type,
-        cards: meld.cards,
-        bonus: 10 + (meld.getSize() === 4 ? 5 : 0)
+        cards,
+        value: cards.reduce((sum, item) => sum + item.value, 0),
+        bonus: this.calculateMeldBonus([meld], rules)
       });
     });
 
     // Calculate hand card values
     player.getHand().forEach(card => {
-      let value = card.value;
-
-      if (card.isJoker) {
-        const jokerUsedInMeld = usedInMelds.some(meldCard => meldCard.id === card.id);
-        if (jokerUsedInMeld) {
-          value = 10; // Used joker
-        } else {
-          value = -25; // Unused joker
-        }
-      }
-
       handCards.push({
         card,
         inMeld: false, // Cards in hand are not in melds
-        value
+        value: this.getHandCardValue(card, rules)
       });
     });
 
     const totalHandValue = handCards.reduce((sum, item) => sum + item.value, 0);
+    const totalMeldValue = melds.reduce((sum, meld) => sum + meld.value, 0);
     const totalMeldBonus = melds.reduce((sum, meld) => sum + meld.bonus, 0);
 
     return {
       handCards,
       melds,
       totalHandValue,
+      totalMeldValue,
       totalMeldBonus
     };
   }
@@ -229,12 +239,12 @@ export class ScoreManager {
   }
 
   // Calculate potential score for current hand
-  static calculatePotentialScore(player: Player): {
+  static calculatePotentialScore(player: Player, rules: RuleSet = DEFAULT_RULE_SET): {
     currentScore: number;
     potentialScore: number;
     potentialReduction: number;
   } {
-    const currentScore = this.calculateHandScore(player.getHand(), player.getMelds());
+    const currentScore = this.calculateHandScore(player.getHand(), rules);
     let potentialReduction = 0;
 
     // Check for unused jokers that could be used in potential melds
@@ -245,7 +255,7 @@ export class ScoreManager {
         );
         if (!usedInMeld) {
           // Unused joker could potentially be used to reduce score
-          potentialReduction += 35; // From -25 to +10 (or average value)
+          potentialReduction += rules.unusedJokerPenalty + rules.meldedJokerValue;
         }
       }
     });
@@ -258,7 +268,7 @@ export class ScoreManager {
   }
 
   // Get score advice for player
-  static getScoreAdvice(player: Player): string[] {
+  static getScoreAdvice(player: Player, rules: RuleSet = DEFAULT_RULE_SET): string[] {
     const advice: string[] = [];
     const hand = player.getHand();
 
@@ -270,11 +280,11 @@ export class ScoreManager {
     );
 
     if (unusedJokers.length > 0) {
-      advice.push(`You have ${unusedJokers.length} unused joker(s) worth -25 points each. Try to use them in melds.`);
+      advice.push(`You have ${unusedJokers.length} unused joker(s) worth -${rules.unusedJokerPenalty} points each. Try to use them in melds.`);
     }
 
     // Check for high-value cards
-    const highValueCards = hand.filter(card => card.value >= 10 && !card.isJoker);
+    const highValueCards = hand.filter(card => rules.cardValues[card.rank] >= 10 && !card.isJoker);
     if (highValueCards.length > 0) {
       advice.push(`You have ${highValueCards.length} high-value cards (10+ points). Consider using them in melds or discarding them.`);
     }
@@ -0,0 +1,255 @@
+import { BotLevel, createBot, runBotTurn } from './BotPlayer';
+import { Card } from './Card';
+import { Game, GameOverReason } from './Game';
+import { GameCommand } from './GameCommand';
+import { GameValidator, ValidationResult } from './GameValidator';
+import { createRandom } from './Random';
+import { DEFAULT_RULE_SET, RuleSet } from './RuleSet';
+import { RoundScore, ScoreManager } from './ScoreManager';
+
+// Headless bot games for checking rule balance. Everything runs in memory on
+// the Game engine with the same bots and validation the game server uses.
+
+export interface SimulationOptions {
+  games: number;
+  seed?: number; // Seed of the first game, the rest count up from it
+  bots: BotLevel[]; // One bot per seat
+  maxTurns?: number;
+  rules?: RuleSet;
+}
+
+export type SimulationEnd = GameOverReason | 'unfinished';
+
+export interface JokerUsage {
+  melded: number;
+  inHand: number; // Left in hand at the end, -25 each (Rul-007B)
+  discarded: number;
+  winningCard: boolean; // The winner went out on a joker
+}
+
+export interface SimulatedGame {
+  seed: number;
+  end: SimulationEnd;
+  winnerSeat?: number;
+  firstSeat: number; // Seat of the player who opened with 8 cards
+  turns: number;
+  scores: RoundScore[];
+  jokers: JokerUsage;
+  error?: string;
+}
+
+export interface SeatStats {
+  seat: number;
+  bot: BotLevel;
+  wins: number;
+  winRate: number;
+  averageScore: number;
+}
+
+// Wins by position in the turn order; position 1 is the opening player
+export interface TurnOrderStats {
+  position: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface SimulationStats {
+  games: number;
+  seed: number;
+  bots: BotLevel[];
+  rules: string; // RuleSet id
+  endReasons: Record<SimulationEnd, number>;
+  errors: number;
+  averageTurns: number;
+  seats: SeatStats[];
+  turnOrder: TurnOrderStats[];
+  averageScoreByEnd: Partial<Record<SimulationEnd, { winner?: number; others: number }>>;
+  jokers: {
+    averageMelded: number;
+    averageInHand: number;
+    averageDiscarded: number;
+    winningCardRate: number;
+  };
+}
+
+const DEFAULT_MAX_TURNS = 500;
+
+const average = (values: number[]): number => {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// Round to 4 decimals so the output stays readable
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+// Where the active jokers ended up
+const countJokers = (game: Game): JokerUsage => {
+  const jokerValue = game.getActiveJokerValue();
+  const count = (cards: Card[]) => cards.filter(card => card.isActiveJoker(jokerValue)).length;
+  const players = game.getPlayers();
+  const winner = game.getPlayer(game.getWinner() ?? '');
+
+  return {
+    melded: players.reduce((total, player) =>
+      total + player.getMelds().reduce((sum, meld) => sum + count(meld.cards), 0), 0),
+    inHand: players.reduce((total, player) => total + count(player.getHand()), 0),
+    discarded: count(game.getDiscardPile().getAllCards()),
+    winningCard: !!winner && count(winner.getHand()) > 0
+  };
+};
+
+// Play one seeded game with a bot in every seat
+export const simulateGame = async (
+  seed: number,
+  bots: BotLevel[],
+  maxTurns: number = DEFAULT_MAX_TURNS,
+  rules: RuleSet = DEFAULT_RULE_SET
+): Promise<SimulatedGame> => {
+  const playerIds = bots.map((_, index) => `seat-${index + 1}`);
+  const game = new Game(playerIds, playerIds, seed, {}, rules);
+  game.start();
+
+  const players = bots.map(createBot);
+  // Bots get their own stream so they never shift the deal
+  const random = createRandom(seed ^ 0x5bd1e995);
+  const apply = async (playerId: string, command: GameCommand): Promise<ValidationResult> => {
+    const validation = GameValidator.validateCommand(game, playerId, command);
+    if (!validation.valid) return validation;
+
+    try {
+      await game.applyCommand(playerId, command);
+    } catch (err: any) {
+      return { valid: false, error: err.message };
+    }
+    return { valid: true };
+  };
+
+  let turns = 0;
+  let error: string | undefined;
+  try {
+    while (game.isPlaying() && turns < maxTurns) {
+      const seat = game.getCurrentPlayerIndex();
+      const playerId = playerIds[seat];
+      await runBotTurn(players[seat], () => game.getViewFor(playerId), command => apply(playerId, command), random);
+      turns++;
+    }
+  } catch (err: any) {
+    error = err.message;
+  }
+
+  const winner = game.getWinner();
+  return {
+    seed,
+    end: game.isFinished() ? game.getGameOverReason() ?? 'unfinished' : 'unfinished',
+    winnerSeat: winner ? playerIds.indexOf(winner) : undefined,
+    firstSeat: (game.getDealerIndex() + 1) % bots.length,
+    turns,
+    scores: ScoreManager.calculateRoundScores(game, winner).scores,
+    jokers: countJokers(game),
+    error
+  };
+};
+
+// Aggregate statistics over a list of simulated games
+export const summarizeSimulation = (
+  results: SimulatedGame[],
+  bots: BotLevel[],
+  seed: number,
+  rules: RuleSet = DEFAULT_RULE_SET
+): SimulationStats => {
+  const endReasons: Record<SimulationEnd, number> = { memukul: 0, deck_empty: 0, unfinished: 0 };
+  results.forEach(result => endReasons[result.end]++);
+
+  const seats: SeatStats[] = bots.map((bot, seat) => {
+    const wins = results.filter(result => result.winnerSeat === seat).length;
+    return {
+      seat: seat + 1,
+      bot,
+      wins,
+      winRate: round(wins / Math.max(1, results.length)),
+      averageScore: round(average(results.map(result => result.scores[seat]?.totalScore ?? 0)))
+    };
+  });
+
+  const turnOrder: TurnOrderStats[] = bots.map((_, position) => {
+    const wins = results.filter(result => result.winnerSeat !== undefined &&
+      (result.winnerSeat - result.firstSeat + bots.length) % bots.length === position).length;
+    return { position: position + 1, wins, winRate: round(wins / Math.max(1, results.length)) };
+  });
+
+  const averageScoreByEnd: SimulationStats['averageScoreByEnd'] = {};
+  (Object.keys(endReasons) as SimulationEnd[]).forEach(end => {
+    const games = results.filter(result => result.end === end);
+    if (games.length === 0) return;
+
+    const scores = games.flatMap(result => result.scores);
+    const winners = scores.filter(score => score.isWinner).map(score => score.totalScore);
+    averageScoreByEnd[end] = {
+      // Nobody wins a game that runs out of cards
+      winner: winners.length > 0 ? round(average(winners)) : undefined,
+      others: round(average(scores.filter(score => !score.isWinner).map(score => score.totalScore)))
+    };
+  });
+
+  return {
+    games: results.length,
+    seed,
+    bots: [...bots],
+    rules: rules.id,
+    endReasons,
+    errors: results.filter(result => result.error).length,
+    averageTurns: round(average(results.map(result => result.turns))),
+    seats,
+    turnOrder,
+    averageScoreByEnd,
+    jokers: {
+      averageMelded: round(average(results.map(result => result.jokers.melded))),
+      averageInHand: round(average(results.map(result => result.jokers.inHand))),
+      averageDiscarded: round(average(results.map(result => result.jokers.discarded))),
+      winningCardRate: round(results.filter(result => result.jokers.winningCard).length / Math.max(1, results.length))
+    }
+  };
+};
+
+// Run `games` seeded games one after another
+export const runSimulation = async (options: SimulationOptions): Promise<SimulationStats> => {
+  const seed = options.seed ?? 1;
+  const results: SimulatedGame[] = [];
+
+  for (let i = 0; i < options.games; i++) {
+    results.push(await simulateGame(seed + i, options.bots, options.maxTurns, options.rules));
+  }
+
+  return summarizeSimulation(results, options.bots, seed, options.rules);
+};
+
+// Flatten the statistics into metric,value rows
+export const simulationStatsToCsv = (stats: SimulationStats): string => {
+  const rows: [string, string | number][] = [
+    ['games', stats.games],
+    ['seed', stats.seed],
+    ['bots', stats.bots.join(' ')],
+    ['rules', stats.rules],
+    ['errors', stats.errors],
+    ['average_turns', stats.averageTurns]
+  ];
+
+  Object.entries(stats.endReasons).forEach(([end, count]) => rows.push([`end_${end}`, count]));
+  stats.seats.forEach(seat => {
+    rows.push([`seat_${seat.seat}_wins`, seat.wins]);
+    rows.push([`seat_${seat.seat}_win_rate`, seat.winRate]);
+    rows.push([`seat_${seat.seat}_average_score`, seat.averageScore]);
+  });
+  stats.turnOrder.forEach(position => {
+    rows.push([`turn_order_${position.position}_win_rate`, position.winRate]);
+  });
+  Object.entries(stats.averageScoreByEnd).forEach(([end, scores]) => {
+    if (scores.winner !== undefined) rows.push([`average_score_${end}_winner`, scores.winner]);
+    rows.push([`average_score_${end}_others`, scores.others]);
+  });
+  rows.push(['jokers_average_melded', stats.jokers.averageMelded]);
+  rows.push(['jokers_average_in_hand', stats.jokers.averageInHand]);
+  rows.push(['jokers_average_discarded', stats.jokers.averageDiscarded]);
+  rows.push(['jokers_winning_card_rate', stats.jokers.winningCardRate]);
+
+  return ['metric,value', ...rows.map(([metric, value]) => `${metric},${value}`)].join('\n') + '\n';
+};
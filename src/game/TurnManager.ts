@@ -19,6 +19,16 @@ export interface TurnAction {
   };
 }
 
+// Turn state as stored in GameData
+export interface TurnManagerData {
+  currentPlayerIndex: number;
+  direction: 1 | -1;
+  turnHistory: TurnData[];
+  currentTurn: TurnData;
+  firstPlayerDiscarded: boolean;
+  lastDrawFromDiscard: boolean;
+}
+
 export class TurnManager {
   private players: Player[] = [];
   private currentPlayerIndex: number = 0;
@@ -180,6 +190,11 @@ export class TurnManager {
     this.lastDrawFromDiscard = fromDiscard;
   }
 
+  // Get when the current turn started
+  getCurrentTurnStartTime(): number {
+    return this.currentTurn.startTime;
+  }
+
   // Get current turn duration
   getCurrentTurnDuration(): number {
     return Date.now() - this.currentTurn.startTime;
@@ -190,7 +205,7 @@ export class TurnManager {
     return this.turnHistory.length + 1;
   }
 
-  // Get round number (assuming 4 turns per round)
+  // Get round number (one turn per seat per round)
   getRoundNumber(): number {
     return Math.floor(this.turnHistory.length / this.players.length) + 1;
   }
@@ -254,6 +269,34 @@ export class TurnManager {
     return `${player.displayName}'s turn (${minutes}:${seconds.toString().padStart(2, '0')})`;
   }
 
+  // Get the turn in progress
+  getCurrentTurn(): TurnData {
+    return { ...this.currentTurn, actions: [...this.currentTurn.actions] };
+  }
+
+  // Get turn state as plain object
+  getData(): TurnManagerData {
+    return {
+      currentPlayerIndex: this.currentPlayerIndex,
+      direction: this.direction,
+      turnHistory: this.getTurnHistory(),
+      currentTurn: this.getCurrentTurn(),
+      firstPlayerDiscarded: this.firstPlayerDiscarded,
+      lastDrawFromDiscard: this.lastDrawFromDiscard
+    };
+  }
+
+  // Create turn manager from data
+  static fromData(players: Player[], data: TurnManagerData): TurnManager {
+    const manager = new TurnManager(players, data.currentPlayerIndex);
+    manager.direction = data.direction;
+    manager.turnHistory = data.turnHistory.map(turn => ({ ...turn, actions: [...turn.actions] }));
+    manager.currentTurn = { ...data.currentTurn, actions: [...data.currentTurn.actions] };
+    manager.firstPlayerDiscarded = data.firstPlayerDiscarded;
+    manager.lastDrawFromDiscard = data.lastDrawFromDiscard;
+    return manager;
+  }
+
   // Create copy of turn manager
   copy(): TurnManager {
     const newManager = new TurnManager(this.players.map(p => p.copy()), this.currentPlayerIndex);
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { BotContext, GreedyBot } from '../BotPlayer';
+import { hydrateGameView } from '../GameView';
+import { CLASSIC_RUMMY_RULES, DEFAULT_RULE_SET, RuleSet } from '../RuleSet';
+import { arrangeGame, cards } from './fixtures';
+
+// The context of p1 holding cards that do not connect to each other
+const looseHandContext = (rules: RuleSet): BotContext => {
+  const game = arrangeGame({ hands: [cards('Ac', '9d', '5h'), cards('3s', '8h', 'Kd')], rules });
+  const view = hydrateGameView(game.getViewFor('p1'));
+  const player = view.players[0];
+  return { view, player, hand: player.hand!, random: Math.random };
+};
+
+describe('GreedyBot.chooseDiscard', () => {
+  it('throws away the loose card worth the most under the game rules', () => {
+    const bot = new GreedyBot();
+
+    expect(bot.chooseDiscard(looseHandContext(DEFAULT_RULE_SET)).rank).toBe('A');
+    expect(bot.chooseDiscard(looseHandContext(CLASSIC_RUMMY_RULES)).rank).toBe('9');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyAction, getView, initializeGame, isGameOver, validateAction } from '../Engine';
+import { DEFAULT_RULE_SET } from '../RuleSet';
+import { playerIds } from './fixtures';
+
+describe('Engine', () => {
+  const ids = playerIds(3);
+
+  it('deals the same game for the same seed', () => {
+    const first = initializeGame(ids, ids, 5);
+    const second = initializeGame(ids, ids, 5);
+
+    expect(second.players.map(player => player.hand)).toEqual(first.players.map(player => player.hand));
+    expect(second.deck).toEqual(first.deck);
+  });
+
+  it('returns the next state and leaves the given one as it was', async () => {
+    const state = initializeGame(ids, ids, 5);
+    const before = JSON.stringify(state);
+    const opener = state.players[state.currentPlayerIndex];
+
+    const next = await applyAction(state, opener.id, { type: 'discard', cardId: opener.hand[0].id });
+
+    expect(JSON.stringify(state)).toBe(before);
+    expect(next.players[state.currentPlayerIndex].hand).toHaveLength(DEFAULT_RULE_SET.handSize);
+    expect(next.currentPlayerIndex).not.toBe(state.currentPlayerIndex);
+    expect(isGameOver(next)).toEqual({ gameOver: false });
+  });
+
+  it('rejects a command the validator rejects', async () => {
+    const state = initializeGame(ids, ids, 5);
+    const opener = state.players[state.currentPlayerIndex];
+    const draw = { type: 'draw', fromDiscard: false } as const;
+
+    expect(validateAction(state, opener.id, draw).valid).toBe(false);
+    await expect(applyAction(state, opener.id, draw)).rejects.toThrow(validateAction(state, opener.id, draw).error);
+  });
+
+  it('shows a viewer their own hand only', () => {
+    const state = initializeGame(ids, ids, 5);
+    const view = getView(state, ids[1]);
+
+    expect(view.players.map(player => player.hand !== undefined)).toEqual([false, true, false]);
+    expect(view.players[1].hand).toHaveLength(state.players[1].hand.length);
+    expect(view.deckCount).toBe(state.deck.length);
+  });
+});
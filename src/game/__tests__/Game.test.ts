@@ -0,0 +1,407 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBot, runBotTurn } from '../BotPlayer';
+import { Meld } from '../Card';
+import { Game } from '../Game';
+import { GameValidator } from '../GameValidator';
+import { DEFAULT_RULE_SET, RuleSet } from '../RuleSet';
+import { arrangeGame, card, cards, handIds, joker, startGame } from './fixtures';
+
+describe('Game phases', () => {
+  it('opens with the extra card and no draw (GMS-002B)', () => {
+    const game = startGame();
+    const opener = game.getCurrentPlayer();
+
+    expect(opener.getHandSize()).toBe(DEFAULT_RULE_SET.handSize + 1);
+    expect(game.getCurrentTurnPhase()).toBe('drawPhase');
+    expect(game.mustDiscardFirst()).toBe(true);
+    expect(GameValidator.validateCommand(game, opener.id, { type: 'draw', fromDiscard: false })).toEqual({
+      valid: false,
+      error: 'Pemain pertama wajib membuang 1 kartu terlebih dahulu sebelum mengambil kartu'
+    });
+  });
+
+  it('ends the opening turn on the discard of the extra card', async () => {
+    const game = startGame();
+    const opener = game.getCurrentPlayer();
+    const discardCount = game.getDiscardPileCount();
+
+    await game.applyCommand(opener.id, { type: 'discard', cardId: opener.getHand()[0].id });
+
+    expect(opener.getHandSize()).toBe(DEFAULT_RULE_SET.handSize);
+    expect(game.hasFirstPlayerDiscarded()).toBe(true);
+    expect(game.getCurrentPlayer().id).not.toBe(opener.id);
+    expect(game.getCurrentTurnPhase()).toBe('drawPhase');
+    expect(game.getDiscardPileCount()).toBe(discardCount + 1);
+  });
+
+  it('moves from draw to meld phase on a draw from the deck', async () => {
+    const game = arrangeGame({ hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')] });
+    const player = game.getCurrentPlayer();
+    const deckCount = game.getDeckCount();
+
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+
+    expect(game.getCurrentTurnPhase()).toBe('meldPhase');
+    expect(player.getHandSize()).toBe(4);
+    expect(game.getDeckCount()).toBe(deckCount - 1);
+    await expect(game.applyCommand(player.id, { type: 'draw', fromDiscard: false }))
+      .rejects.toThrow('Can only draw cards during draw phase');
+  });
+
+  it('ends the turn on a discard during the meld phase', async () => {
+    const game = arrangeGame({ hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')] });
+    const player = game.getCurrentPlayer();
+
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+    await game.applyCommand(player.id, { type: 'discard', cardId: handIds(game, '5c')[0] });
+
+    expect(game.getCurrentPlayer().id).not.toBe(player.id);
+    expect(game.getCurrentTurnPhase()).toBe('drawPhase');
+    expect(game.getDiscardPile().getTopCard()?.rank).toBe('5');
+  });
+
+  it('rejects a command from a player whose turn it is not', () => {
+    const game = arrangeGame({ hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')] });
+    const other = game.getPlayers()[1];
+
+    expect(GameValidator.validateCommand(game, other.id, { type: 'draw', fromDiscard: false })).toEqual({
+      valid: false,
+      error: 'Bukan giliran Anda'
+    });
+  });
+
+  it('only allows a run as the first meld (Rul-001)', async () => {
+    const game = arrangeGame({ hands: [cards('7h', '7d', '7c', '2s'), cards('3s', '8h', 'Kd')] });
+    const player = game.getCurrentPlayer();
+
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+
+    expect(GameValidator.validateCommand(game, player.id, { type: 'meld', cardIds: handIds(game, '7h', '7d', '7c') }))
+      .toEqual({ valid: false, error: 'Kombinasi pertama yang wajib diturunkan adalah Urutan (Run)' });
+  });
+
+  it('rejects a meld that names the same card twice', async () => {
+    const game = arrangeGame({
+      hands: [[joker('Jd'), card('5h'), card('9c'), card('Kd')], cards('3s', '8h', 'Kd')],
+      jokerValue: 'J'
+    });
+    const player = game.getCurrentPlayer();
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+    const [jokerId, fiveId] = handIds(game, 'Jd', '5h');
+    const before = game.getData();
+
+    const command = { type: 'meld' as const, cardIds: [jokerId, jokerId, fiveId] };
+
+    expect(GameValidator.validateCommand(game, player.id, command)).toEqual({
+      valid: false,
+      error: 'Kartu yang sama tidak boleh dipilih dua kali'
+    });
+    await expect(game.applyCommand(player.id, command)).rejects.toThrow();
+    await expect(game.createMeld(player.id, command.cardIds)).rejects.toThrow();
+    expect(game.getData()).toEqual(before);
+  });
+
+  it('rejects a lay-off that names the same card twice', async () => {
+    const data = arrangeGame({
+      hands: [[joker('Jd'), card('9c'), card('Kd')], cards('3s', '8h', 'Kc')],
+      jokerValue: 'J'
+    }).getData();
+    data.players[0].hasLaidRun = true;
+    data.players[0].melds = [new Meld('run', cards('Ac', 'Ad', 'As'), 'p1', 'meld-1')];
+    data.players[1].melds = [new Meld('run', cards('4h', '5h', '6h'), 'p2', 'meld-2')];
+    const game = Game.fromData(data);
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: false });
+    const [jokerId] = handIds(game, 'Jd');
+    const before = game.getData();
+
+    const command = { type: 'extend' as const, meldId: 'meld-2', cardIds: [jokerId, jokerId] };
+
+    expect(GameValidator.validateCommand(game, 'p1', command)).toEqual({
+      valid: false,
+      error: 'Kartu yang sama tidak boleh dipilih dua kali'
+    });
+    await expect(game.applyCommand('p1', command)).rejects.toThrow();
+    await expect(game.extendMeld('p1', 'meld-2', command.cardIds)).rejects.toThrow();
+    expect(game.getData()).toEqual(before);
+  });
+
+  it('makes the cards taken from the discard pile be melded before the discard (GMM-003)', async () => {
+    const game = arrangeGame({
+      hands: [[joker('Jd'), joker('Js'), card('2c'), card('9h'), card('Kc')], cards('3s', '8h', 'Kd')],
+      jokerValue: 'J',
+      discardPile: cards('5d', '4h')
+    });
+    const player = game.getCurrentPlayer();
+
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: true, count: 1 });
+
+    expect(game.getCurrentTurnPhase()).toBe('meldPhase');
+    expect(game.getPendingMeldCardIds()).toEqual(handIds(game, '4h'));
+    expect(GameValidator.validateCommand(game, player.id, { type: 'discard', cardId: handIds(game, '2c')[0] }).valid)
+      .toBe(false);
+    // A rejected discard leaves the meld phase open
+    await expect(game.applyCommand(player.id, { type: 'discard', cardId: handIds(game, '2c')[0] })).rejects.toThrow();
+    expect(game.getCurrentTurnPhase()).toBe('meldPhase');
+
+    await game.applyCommand(player.id, { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+
+    expect(game.getPendingMeldCardIds()).toEqual([]);
+    expect(player.hasLaidRunMeld()).toBe(true);
+    expect(player.getMelds()[0].type).toBe('run');
+
+    await game.applyCommand(player.id, { type: 'discard', cardId: handIds(game, '2c')[0] });
+    expect(game.getCurrentPlayer().id).not.toBe(player.id);
+  });
+
+  it('ends the game when a player with a run down discards to one card (Rul-004)', async () => {
+    const game = arrangeGame({
+      hands: [[card('4h'), joker('Jd'), joker('Js'), card('9c')], cards('3s', '8h', 'Kd')],
+      jokerValue: 'J'
+    });
+    const player = game.getCurrentPlayer();
+
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+    await game.applyCommand(player.id, { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+    await game.applyCommand(player.id, { type: 'discard', cardId: handIds(game, '9c')[0] });
+
+    expect(game.isFinished()).toBe(true);
+    expect(game.getWinner()).toBe(player.id);
+    expect(game.getGameOverReason()).toBe('memukul');
+  });
+
+  it('ends the game when the deck runs out (Rul-006)', async () => {
+    const game = arrangeGame({
+      hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')],
+      deck: cards('6s')
+    });
+
+    await game.applyCommand(game.getCurrentPlayer().id, { type: 'draw', fromDiscard: false });
+
+    expect(game.isFinished()).toBe(true);
+    expect(game.getWinner()).toBeUndefined();
+    expect(game.getGameOverReason()).toBe('deck_empty');
+  });
+});
+
+describe('Game.fromData', () => {
+  // Draw from the deck and throw the first card away, turn after turn
+  const playTurns = async (game: Game, turns: number) => {
+    for (let turn = 0; turn < turns; turn++) {
+      const player = game.getCurrentPlayer();
+      if (!game.mustDiscardFirst()) await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+      await game.applyCommand(player.id, { type: 'discard', cardId: player.getHand()[0].id });
+    }
+  };
+
+  it('restores the table, the turn and the joker', async () => {
+    const game = startGame(4, 7);
+    await playTurns(game, 5);
+
+    const data = game.getData();
+    const restored = Game.fromData(JSON.parse(JSON.stringify(data)));
+
+    expect(restored.getCurrentPlayerIndex()).toBe(game.getCurrentPlayerIndex());
+    expect(restored.getCurrentTurnPhase()).toBe(game.getCurrentTurnPhase());
+    expect(restored.hasFirstPlayerDiscarded()).toBe(true);
+    expect(restored.getActiveJokerValue()).toBe(game.getActiveJokerValue());
+    expect(restored.getDeckCount()).toBe(game.getDeckCount());
+    expect(restored.getDiscardPile().getAllCards().map(card => card.rank))
+      .toEqual(game.getDiscardPile().getAllCards().map(card => card.rank));
+    restored.getPlayers().forEach((player, index) => {
+      expect(player.getHand().map(card => `${card.suit}-${card.rank}`))
+        .toEqual(game.getPlayers()[index].getHand().map(card => `${card.suit}-${card.rank}`));
+    });
+    expect(restored.getEvents()).toEqual(game.getEvents());
+  });
+
+  it('plays on exactly like the original game', async () => {
+    const game = startGame(3, 11);
+    await playTurns(game, 4);
+    const restored = Game.fromData(game.getData());
+
+    await playTurns(game, 3);
+    await playTurns(restored, 3);
+
+    expect(restored.getDeckCount()).toBe(game.getDeckCount());
+    expect(restored.getCurrentPlayerIndex()).toBe(game.getCurrentPlayerIndex());
+    expect(restored.getDiscardPile().getTopCard()?.rank).toBe(game.getDiscardPile().getTopCard()?.rank);
+  });
+
+  it('round-trips getData() without losing anything', async () => {
+    const game = startGame(4, 7);
+    await playTurns(game, 5);
+
+    const data = JSON.parse(JSON.stringify(game.getData()));
+    const restored = Game.fromData(data);
+
+    expect(JSON.parse(JSON.stringify(restored.getData()))).toEqual(data);
+    expect(restored.getViewFor().turnNumber).toBe(game.getViewFor().turnNumber);
+  });
+
+  it('remembers who discarded the cards taken back off the pile', () => {
+    const data = arrangeGame({ hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')] }).getData();
+    data.discardedBy = { 'clubs-7': 'p2' };
+
+    expect(Game.fromData(data).getData().discardedBy).toEqual({ 'clubs-7': 'p2' });
+  });
+
+  it('keeps the card ids of a second deck and the joker twins', async () => {
+    const game = startGame(6, 3);
+    await playTurns(game, 2);
+
+    const ids = (target: Game) => target.getPlayers().flatMap(player => player.getHand().map(card => card.id));
+    const restored = Game.fromData(JSON.parse(JSON.stringify(game.getData())));
+
+    expect(ids(restored)).toEqual(ids(game));
+    expect(new Set(ids(restored)).size).toBe(ids(restored).length);
+  });
+
+  it('counts one state version per change and keeps counting after a restore', async () => {
+    const game = startGame(3, 5);
+    expect(game.getStateVersion()).toBe(1);
+
+    await playTurns(game, 2);
+    const restored = Game.fromData(JSON.parse(JSON.stringify(game.getData())));
+    expect(restored.getStateVersion()).toBe(game.getEvents().length);
+
+    await restored.applyCommand(restored.getCurrentPlayer().id, { type: 'draw', fromDiscard: false });
+    expect(restored.getStateVersion()).toBe(game.getStateVersion() + 1);
+    expect(restored.getViewFor().stateVersion).toBe(restored.getStateVersion());
+  });
+});
+
+describe('Game presence', () => {
+  const GRACE_MS = 30000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits out the grace period before an offline player counts as away', () => {
+    const game = arrangeGame({ hands: [cards('2h', 'Kc', '9d'), cards('3s', '8h', 'Kd')] });
+
+    expect(game.setPlayerConnected('p1', false)).toBe(true);
+    expect(game.setPlayerConnected('p1', false)).toBe(false);
+    expect(game.isCurrentPlayerAway(GRACE_MS)).toBe(false);
+
+    vi.advanceTimersByTime(GRACE_MS + 1);
+    expect(game.isCurrentPlayerAway(GRACE_MS)).toBe(true);
+
+    game.setPlayerConnected('p1', true);
+    expect(game.isCurrentPlayerAway(GRACE_MS)).toBe(false);
+  });
+
+  it('plays an away turn by drawing from the deck and throwing the highest card', async () => {
+    const game = arrangeGame({
+      hands: [cards('2h', 'Kc', '9d'), cards('3s', '8h', 'Kd')],
+      deck: cards('4s', '5s', '6s')
+    });
+    game.setPlayerConnected('p1', false);
+    vi.advanceTimersByTime(GRACE_MS + 1);
+
+    await runBotTurn(createBot('autoPlay'), () => game.getViewFor('p1'), async command => {
+      await game.applyCommand('p1', command);
+      return { valid: true };
+    });
+
+    expect(game.getDeckCount()).toBe(2);
+    expect(game.getDiscardPile().getTopCard()?.rank).toBe('K');
+    expect(game.getCurrentPlayer().id).toBe('p2');
+    expect(game.isCurrentPlayerAway(GRACE_MS)).toBe(false);
+  });
+
+  // p1 took 7h, which only fits the run p2 has on the table
+  const pendingLayOffGame = (): Game => {
+    const data = arrangeGame({
+      hands: [cards('2c', '9d', 'Ks'), cards('3s', '8h', 'Kd')],
+      discardPile: cards('7h')
+    }).getData();
+    data.players[0].hasLaidRun = true;
+    data.players[0].melds = [new Meld('run', cards('Ac', 'Ad', 'As'), 'p1', 'meld-1')];
+    data.players[1].melds = [new Meld('run', cards('4h', '5h', '6h'), 'p2', 'meld-2')];
+    return Game.fromData(data);
+  };
+
+  const autoPlay = (game: Game, playerId: string) => runBotTurn(createBot('autoPlay'), () => game.getViewFor(playerId), async command => {
+    const validation = GameValidator.validateCommand(game, playerId, command);
+    if (validation.valid) await game.applyCommand(playerId, command);
+    return validation;
+  });
+
+  it('lays off a card taken from the discard pile when the table is its only meld', async () => {
+    const game = pendingLayOffGame();
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: true, count: 1 });
+    game.setPlayerConnected('p1', false);
+    vi.advanceTimersByTime(GRACE_MS + 1);
+
+    await autoPlay(game, 'p1');
+
+    expect(game.findMeld('meld-2')?.cards.map(item => item.rank)).toEqual(['4', '5', '6', '7']);
+    expect(game.getPendingMeldCardIds()).toEqual([]);
+    expect(game.getCurrentPlayer().id).toBe('p2');
+  });
+
+  it('still ends a turn whose cards from the discard pile can no longer be melded', async () => {
+    const game = pendingLayOffGame();
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: true, count: 1 });
+    const data = game.getData();
+    data.players[1].melds = [];
+    const stuck = Game.fromData(data);
+
+    await autoPlay(stuck, 'p1');
+
+    expect(stuck.getCurrentPlayer().id).toBe('p2');
+    expect(stuck.getPlayer('p1')!.getHandSize()).toBe(3);
+  });
+});
+
+describe('Game turn timer', () => {
+  const TIMED_RULES: RuleSet = { ...DEFAULT_RULE_SET, turnTimeLimit: 60, timeBank: 30 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('has no deadline without a turn limit', () => {
+    const game = startGame();
+
+    vi.advanceTimersByTime(3600000);
+    expect(game.getTurnDeadline()).toBeUndefined();
+    expect(game.hasTurnTimedOut()).toBe(false);
+  });
+
+  it('times a turn out after the limit plus the time bank', () => {
+    const game = startGame(3, 5, TIMED_RULES);
+    expect(game.getCurrentPlayer().getTimeBank()).toBe(30000);
+    expect(game.getTurnDeadline()).toBe(90000);
+
+    vi.advanceTimersByTime(89999);
+    expect(game.hasTurnTimedOut()).toBe(false);
+    expect(game.getViewFor().turnTimeLeft).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    expect(game.hasTurnTimedOut()).toBe(true);
+  });
+
+  it('takes the time past the limit from the time bank', async () => {
+    const game = startGame(3, 5, TIMED_RULES);
+    const opener = game.getCurrentPlayer();
+
+    vi.advanceTimersByTime(70000);
+    await game.applyCommand(opener.id, { type: 'discard', cardId: opener.getHand()[0].id });
+
+    expect(opener.getTimeBank()).toBe(20000);
+    expect(game.getCurrentPlayer().getTimeBank()).toBe(30000);
+    expect(game.getTurnDeadline()).toBe(70000 + 90000);
+  });
+});
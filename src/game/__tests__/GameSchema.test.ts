@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_SCHEMA_VERSION, Game } from '../Game';
+import { GameDataError, parseGameData } from '../GameSchema';
+import { CLASSIC_RUMMY_RULES, DEFAULT_RULE_SET } from '../RuleSet';
+import { startGame } from './fixtures';
+
+// GameData as it comes back from storage
+const storedData = (game: Game = startGame(3, 5)): Record<string, any> => JSON.parse(JSON.stringify(game.getData()));
+
+// A document written before schemaVersion, as version 1 stored it
+const legacyData = (game: Game): Record<string, any> => {
+  const {
+    schemaVersion: _schemaVersion, stateVersion: _stateVersion, startTime, turnHistory: _turnHistory, currentTurn: _currentTurn,
+    dealerIndex: _dealerIndex, rules: _rules, events: _events, pendingMeldCardIds: _pendingMeldCardIds,
+    ...data
+  } = storedData(game);
+  return {
+    ...data,
+    turnStartTime: startTime,
+    players: data.players.map(({ stagedCards: _stagedCards, timeBank: _timeBank, ...player }: Record<string, any>) => player)
+  };
+};
+
+describe('parseGameData', () => {
+  it('accepts the current GameData as it is', () => {
+    const data = storedData();
+    const parsed = parseGameData(data);
+
+    expect(parsed.schemaVersion).toBe(GAME_SCHEMA_VERSION);
+    expect(JSON.parse(JSON.stringify(Game.fromData(parsed).getData()))).toEqual(data);
+  });
+
+  it('treats null as a missing optional field', () => {
+    const data = { ...storedData(), winner: null, lastAction: null, jokerGrant: null };
+    expect(parseGameData(data).winner).toBeUndefined();
+  });
+
+  it('rejects data from a newer version', () => {
+    expect(() => parseGameData({ ...storedData(), schemaVersion: GAME_SCHEMA_VERSION + 1 }))
+      .toThrow(`GameData schemaVersion ${GAME_SCHEMA_VERSION + 1} is newer than the supported version ${GAME_SCHEMA_VERSION}`);
+  });
+
+  it('names the field that is wrong', () => {
+    const data = storedData();
+    const badCard = { ...data, deck: [{ ...data.deck[0], suit: 'stars' }, ...data.deck.slice(1)] };
+
+    expect(() => parseGameData(badCard)).toThrow('Invalid GameData at deck[0].suit: expected one of hearts, diamonds, clubs, spades');
+    expect(() => parseGameData({ ...data, currentPlayerIndex: 3 })).toThrow('currentPlayerIndex');
+    expect(() => parseGameData({ ...data, rules: { ...data.rules, handSize: '7' } })).toThrow('rules.handSize');
+    expect(() => parseGameData({ ...data, turnStartTime: 0 })).toThrow('unknown field turnStartTime');
+    expect(() => parseGameData({ ...data, events: [...data.events, { seq: 1, type: 'command', timestamp: 0, playerId: 'p1', command: { type: 'pass' } }] }))
+      .toThrow('events[1].command');
+    expect(() => parseGameData('{}')).toThrow(GameDataError);
+  });
+
+  it('rejects a card that is in play twice', () => {
+    const data = storedData();
+    const duplicate = { ...data, discardPile: [...data.discardPile, data.deck[0]] };
+
+    expect(() => parseGameData(duplicate)).toThrow(`card ${data.deck[0].id} appears more than once`);
+  });
+});
+
+describe('parseGameData migrations', () => {
+  it('fills in the fields version 1 did not store', () => {
+    const parsed = parseGameData(legacyData(startGame(3, 5)));
+
+    expect(parsed.schemaVersion).toBe(GAME_SCHEMA_VERSION);
+    expect(parsed.dealerIndex).toBe(0);
+    expect(parsed.rules).toEqual(DEFAULT_RULE_SET);
+    expect(parsed.events).toEqual([]);
+    expect(parsed.pendingMeldCardIds).toEqual([]);
+    expect(parsed.players.every(player => player.stagedCards.length === 0)).toBe(true);
+    expect(parsed.currentTurn).toEqual({ playerIndex: parsed.currentPlayerIndex, startTime: parsed.startTime, actions: [] });
+  });
+
+  it('adds the ace options of version 3 to the rules and the start event', () => {
+    const { aceLow: _aceLow, aceHigh: _aceHigh, runsWrapAround: _runsWrapAround, ...rules } = CLASSIC_RUMMY_RULES;
+    const data = storedData(startGame(3, 5, CLASSIC_RUMMY_RULES));
+    const parsed = parseGameData({
+      ...data,
+      schemaVersion: 2,
+      rules,
+      events: [{ ...data.events[0], rules }, ...data.events.slice(1)]
+    });
+
+    expect(parsed.rules).toEqual(CLASSIC_RUMMY_RULES);
+    expect(parsed.events[0].type === 'start' && parsed.events[0].rules).toEqual(CLASSIC_RUMMY_RULES);
+  });
+
+  it('counts the state version of version 3 from its events', () => {
+    const { stateVersion, ...data } = storedData();
+    const parsed = parseGameData({ ...data, schemaVersion: 3 });
+
+    expect(parsed.stateVersion).toBe(stateVersion);
+    expect(parsed.stateVersion).toBe(parsed.events.length);
+  });
+
+  it('adds the turn timer of version 5, switched off', () => {
+    const { turnTimeLimit: _turnTimeLimit, timeBank: _timeBank, ...rules } = DEFAULT_RULE_SET;
+    const data = storedData();
+    const parsed = parseGameData({
+      ...data,
+      schemaVersion: 4,
+      rules,
+      players: data.players.map(({ timeBank: _playerTimeBank, ...player }: Record<string, any>) => player),
+      events: [{ ...data.events[0], rules }, ...data.events.slice(1)]
+    });
+
+    expect(parsed.rules).toEqual(DEFAULT_RULE_SET);
+    expect(parsed.players.every(player => player.timeBank === 0)).toBe(true);
+  });
+
+  it('completes a stored RuleSet from its preset', () => {
+    const { maxRunSize: _maxRunSize, ...rules } = CLASSIC_RUMMY_RULES;
+    const parsed = parseGameData({ ...legacyData(startGame(3, 5)), rules });
+
+    expect(parsed.rules).toEqual(CLASSIC_RUMMY_RULES);
+  });
+
+  it('gives back unique ids to cards version 1 rebuilt without them', () => {
+    const game = startGame(6, 3);
+    const legacy = legacyData(game);
+    const stripId = (card: Record<string, any>) => ({ ...card, id: `${card.suit}-${card.rank}` });
+    legacy.deck = legacy.deck.map(stripId);
+    legacy.players = legacy.players.map((player: Record<string, any>) => ({ ...player, hand: player.hand.map(stripId) }));
+
+    const restored = Game.fromData(parseGameData(legacy));
+    const ids = restored.getPlayers().flatMap(player => player.getHand().map(card => card.id));
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(restored.getTotalCardsInPlay()).toBe(game.getTotalCardsInPlay());
+    expect(restored.getJokerCards().every(card => card.isJoker)).toBe(true);
+  });
+});
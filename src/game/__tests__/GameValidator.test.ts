@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { Card, Meld } from '../Card';
+import { GameValidator } from '../GameValidator';
+import { CLASSIC_RUMMY_RULES, DEFAULT_RULE_SET, GIN_RUMMY_RULES, MAX_PLAYERS, MIN_PLAYERS, RuleSet } from '../RuleSet';
+import { card, cards, joker } from './fixtures';
+
+describe('GameValidator.isValidSet', () => {
+  it('accepts three or four of a rank in different suits', () => {
+    expect(GameValidator.isValidSet(cards('7h', '7d', '7c'))).toBe(true);
+    expect(GameValidator.isValidSet(cards('Kh', 'Kd', 'Kc', 'Ks'))).toBe(true);
+  });
+
+  it('rejects mixed ranks and repeated suits', () => {
+    expect(GameValidator.isValidSet(cards('7h', '7d', '8c'))).toBe(false);
+    expect(GameValidator.isValidSet([card('7h'), card('7d'), card('7h')])).toBe(false);
+  });
+
+  it('needs 3 cards and at most RuleSet.maxSetSize', () => {
+    expect(GameValidator.isValidSet(cards('7h', '7d'))).toBe(false);
+    expect(GameValidator.isValidSet([...cards('7h', '7d', '7c', '7s'), joker('Jh')], 'J')).toBe(false);
+  });
+
+  it('lets jokers stand in for the missing suits', () => {
+    expect(GameValidator.isValidSet([card('7h'), card('7d'), joker('Js')], 'J')).toBe(true);
+    expect(GameValidator.isValidSet([card('7h'), joker('Jd'), joker('Js')], 'J')).toBe(true);
+  });
+
+  it('rejects a set of jokers only', () => {
+    expect(GameValidator.isValidSet([joker('Jh'), joker('Jd'), joker('Js')], 'J')).toBe(false);
+  });
+});
+
+describe('GameValidator.isValidRun', () => {
+  it('accepts four aces as a run (special case)', () => {
+    expect(GameValidator.isValidRun(cards('Ah', 'Ad', 'Ac', 'As'))).toBe(true);
+    expect(GameValidator.isValidMeld(cards('Ah', 'Ad', 'Ac', 'As'))).toEqual({ valid: true, type: 'run' });
+  });
+
+  it('does not treat three aces as a run', () => {
+    expect(GameValidator.isValidRun(cards('Ah', 'Ad', 'Ac'))).toBe(false);
+    expect(GameValidator.isValidMeld(cards('Ah', 'Ad', 'Ac'))).toEqual({ valid: true, type: 'set' });
+  });
+
+  it('fills a run up with jokers', () => {
+    expect(GameValidator.isValidRun([card('4h'), joker('Jd'), joker('Js')], 'J')).toBe(true);
+  });
+
+  it('rejects mixed suits', () => {
+    expect(GameValidator.isValidRun(cards('4h', '5d', '6h'))).toBe(false);
+    expect(GameValidator.isValidRun([card('4h'), card('5d'), joker('Js')], 'J')).toBe(false);
+  });
+
+  it('rejects a run of jokers only and runs shorter than 3', () => {
+    expect(GameValidator.isValidRun([joker('Jh'), joker('Jd'), joker('Js')], 'J')).toBe(false);
+    expect(GameValidator.isValidRun(cards('4h', '5h'))).toBe(false);
+  });
+
+  it('does not wrap around from the King to the 2', () => {
+    expect(GameValidator.isValidRun(cards('Kh', 'Ah', '2h'))).toBe(false);
+  });
+
+  it('accepts consecutive ranks of one suit in any order', () => {
+    expect(GameValidator.isValidRun(cards('4h', '5h', '6h'))).toBe(true);
+    expect(GameValidator.isValidRun(cards('6h', '4h', '5h', '7h'))).toBe(true);
+    expect(GameValidator.isValidRun(cards('4h', '5h', '7h'))).toBe(false);
+  });
+
+  it('accepts runs across the pip and face cards', () => {
+    expect(GameValidator.isValidRun(cards('9s', '10s', 'Js'))).toBe(true);
+  });
+
+  it('lets a joker fill a gap', () => {
+    expect(GameValidator.isValidRun([card('4h'), joker('Jd'), card('6h')], 'J')).toBe(true);
+  });
+
+  it('rejects the same rank twice (two decks)', () => {
+    expect(GameValidator.isValidRun([card('4h'), new Card('hearts', '4', false, 'hearts-4-2'), card('5h')])).toBe(false);
+  });
+
+  it('accepts the ace low (A-2-3) and high (Q-K-A) under Remi Renjana', () => {
+    expect(GameValidator.isValidRun(cards('Ah', '2h', '3h'))).toBe(true);
+    expect(GameValidator.isValidRun(cards('Qh', 'Kh', 'Ah'))).toBe(true);
+  });
+
+  it('keeps the ace low in Gin', () => {
+    expect(GameValidator.isValidRun(cards('Ah', '2h', '3h'), undefined, GIN_RUMMY_RULES)).toBe(true);
+    expect(GameValidator.isValidRun(cards('Qh', 'Kh', 'Ah'), undefined, GIN_RUMMY_RULES)).toBe(false);
+  });
+
+  it('wraps around the ace when the rules allow it', () => {
+    const wrapping = { ...DEFAULT_RULE_SET, runsWrapAround: true };
+    expect(GameValidator.isValidRun(cards('Kh', 'Ah', '2h'), undefined, wrapping)).toBe(true);
+    expect(GameValidator.isValidRun(cards('Qh', 'Kh', 'Ah', '2h', '3h'), undefined, wrapping)).toBe(true);
+    expect(GameValidator.isValidRun([card('Kh'), joker('Jd'), card('2h')], 'J', wrapping)).toBe(true);
+  });
+});
+
+describe('GameValidator.getJokerAssignments', () => {
+  it('gives set jokers the missing suits', () => {
+    const meld = [card('7h'), card('7d'), joker('Js')];
+    expect(GameValidator.getJokerAssignments('set', meld, 'J')).toEqual({
+      'spades-J-joker': { rank: '7', suit: 'clubs' }
+    });
+  });
+
+  it('fills run gaps first, then extends upwards', () => {
+    const gap = [card('4h'), joker('Jd'), card('6h')];
+    expect(GameValidator.getJokerAssignments('run', gap, 'J')).toEqual({
+      'diamonds-J-joker': { rank: '5', suit: 'hearts' }
+    });
+
+    const end = [card('4h'), card('5h'), joker('Jd')];
+    expect(GameValidator.getJokerAssignments('run', end, 'J')).toEqual({
+      'diamonds-J-joker': { rank: '6', suit: 'hearts' }
+    });
+  });
+
+  it('extends past the King to a high ace, or downwards where the ace is low only', () => {
+    const meld = [card('Qh'), card('Kh'), joker('Jd')];
+    expect(GameValidator.getJokerAssignments('run', meld, 'J')).toEqual({
+      'diamonds-J-joker': { rank: 'A', suit: 'hearts' }
+    });
+    expect(GameValidator.getJokerAssignments('run', meld, 'J', GIN_RUMMY_RULES)).toEqual({
+      'diamonds-J-joker': { rank: 'J', suit: 'hearts' }
+    });
+  });
+});
+
+describe('GameValidator.validateDiscardPickup', () => {
+  const pile = cards('2c', '9s', '7h');
+  const pickup = (count: number, hand = cards('7d', '7c', '3s'), hasLaidRun = false) =>
+    GameValidator.validateDiscardPickup(count, pile, hand, [], hasLaidRun, undefined, DEFAULT_RULE_SET);
+
+  it('takes 1 to RuleSet.maxDiscardPickup cards', () => {
+    const tooMany = { valid: false, error: 'Hanya dapat mengambil 1-3 kartu dari discard pile' };
+    expect(pickup(0)).toEqual(tooMany);
+    expect(pickup(DEFAULT_RULE_SET.maxDiscardPickup + 1)).toEqual(tooMany);
+    expect(GameValidator.validateDiscardPickup(2, cards('7h', '7d'), [], [], true, undefined, CLASSIC_RUMMY_RULES))
+      .toEqual({ valid: false, error: 'Hanya dapat mengambil 1 kartu dari discard pile' });
+  });
+
+  it('rejects an empty pile or too few cards', () => {
+    expect(GameValidator.validateDiscardPickup(1, [], cards('7d'), [], false, undefined, DEFAULT_RULE_SET).valid).toBe(false);
+    expect(GameValidator.validateDiscardPickup(3, cards('7h', '7d'), [], [], true, undefined, DEFAULT_RULE_SET).valid).toBe(false);
+  });
+
+  it('needs the hand to meld a single card', () => {
+    expect(pickup(1, cards('2d', '5c', 'Ks')).valid).toBe(false);
+    // A set only counts once a run is down (Rul-001)
+    expect(pickup(1).valid).toBe(false);
+    expect(pickup(1, undefined, true)).toEqual({ valid: true });
+  });
+
+  it('lays a single card off on a table meld within its size limit', () => {
+    const table = [new Meld('run', cards('4h', '5h', '6h'), 'p2', 'meld-1')];
+    const layOff = (rules: RuleSet) =>
+      GameValidator.validateDiscardPickup(1, pile, cards('2d', '5c', 'Ks'), table, true, undefined, rules).valid;
+
+    expect(layOff(DEFAULT_RULE_SET)).toBe(true);
+    expect(layOff({ ...DEFAULT_RULE_SET, maxRunSize: 3 })).toBe(false);
+  });
+
+  it('needs the taken cards to form a meld when taking several', () => {
+    expect(pickup(2).valid).toBe(false);
+    expect(GameValidator.validateDiscardPickup(3, cards('7h', '7d', '7c'), [], [], true, undefined, DEFAULT_RULE_SET))
+      .toEqual({ valid: true });
+  });
+
+  it('lists the allowed counts', () => {
+    expect(GameValidator.getDiscardPickupCounts(pile, cards('7d', '7c'), [], true, undefined, DEFAULT_RULE_SET)).toEqual([1]);
+    expect(GameValidator.getDiscardPickupCounts(pile, cards('2d', '5c'), [], true, undefined, DEFAULT_RULE_SET)).toEqual([]);
+  });
+});
+
+describe('GameValidator.validateGameStart', () => {
+  it(`allows ${MIN_PLAYERS} to ${MAX_PLAYERS} players`, () => {
+    expect(GameValidator.validateGameStart(MIN_PLAYERS - 1).valid).toBe(false);
+    expect(GameValidator.validateGameStart(MIN_PLAYERS).valid).toBe(true);
+    expect(GameValidator.validateGameStart(MAX_PLAYERS).valid).toBe(true);
+    expect(GameValidator.validateGameStart(MAX_PLAYERS + 1).valid).toBe(false);
+  });
+});
+
+describe('GameValidator.validateMatchSettings', () => {
+  it('accepts a turn limit of 10 to 600 seconds, or none', () => {
+    expect(GameValidator.validateMatchSettings({ rounds: 3, turnTimeLimit: 0 }).valid).toBe(true);
+    expect(GameValidator.validateMatchSettings({ rounds: 3, turnTimeLimit: 60, timeBank: 120 }).valid).toBe(true);
+    expect(GameValidator.validateMatchSettings({ rounds: 3, turnTimeLimit: 5 }).valid).toBe(false);
+    expect(GameValidator.validateMatchSettings({ rounds: 3, turnTimeLimit: 60, timeBank: -1 }).valid).toBe(false);
+  });
+});
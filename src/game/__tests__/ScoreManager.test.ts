@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Meld } from '../Card';
+import { CLASSIC_RUMMY_RULES, DEFAULT_RULE_SET } from '../RuleSet';
+import { ScoreManager } from '../ScoreManager';
+import { arrangeGame, card, cards, handIds, joker } from './fixtures';
+
+describe('ScoreManager.calculateHandScore', () => {
+  it('counts A 15, 2-10 5 and J/Q/K 10 under Remi Renjana (Rul-007)', () => {
+    expect(ScoreManager.calculateHandScore(cards('Ah', '2d', '10c', 'Js', 'Kh'))).toBe(15 + 5 + 5 + 10 + 10);
+  });
+
+  it('takes the card values from the RuleSet', () => {
+    expect(ScoreManager.calculateHandScore(cards('Ah', '2d', '10c', 'Js'), CLASSIC_RUMMY_RULES)).toBe(1 + 2 + 10 + 10);
+  });
+
+  it('subtracts the penalty for a joker left in hand (Rul-007B)', () => {
+    expect(ScoreManager.calculateHandScore([card('Ah'), joker('Jd')])).toBe(15 - DEFAULT_RULE_SET.unusedJokerPenalty);
+  });
+});
+
+describe('ScoreManager.scoreMeldCard', () => {
+  it('resolves a joker to the card it stands in for', () => {
+    const melded = joker('Jd');
+    const meld = new Meld('set', [card('7h'), card('7d'), melded], 'p1', 'm1', { [melded.id]: { rank: '7', suit: 'clubs' } });
+
+    expect(ScoreManager.scoreMeldCard(melded, meld, CLASSIC_RUMMY_RULES)).toEqual({
+      card: melded,
+      value: 7,
+      represents: { rank: '7', suit: 'clubs' }
+    });
+    expect(ScoreManager.calculateMeldValue(meld, CLASSIC_RUMMY_RULES)).toBe(21);
+  });
+
+  it('falls back to RuleSet.meldedJokerValue when the meld does not say', () => {
+    const melded = joker('Jd');
+    const meld = new Meld('run', [...cards('Ah', 'Ad', 'Ac', 'As'), melded], 'p1', 'm1');
+
+    expect(ScoreManager.scoreMeldCard(melded, meld).value).toBe(DEFAULT_RULE_SET.meldedJokerValue);
+  });
+});
+
+describe('ScoreManager.getScoreBreakdown', () => {
+  it('shows the card each melded joker stands in for', async () => {
+    const game = arrangeGame({
+      hands: [[card('4h'), joker('Jd'), joker('Js'), card('9c'), card('Kd')], cards('3s', 'Ah', 'Kd')],
+      jokerValue: 'J'
+    });
+    const player = game.getCurrentPlayer();
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+    await game.applyCommand(player.id, { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+
+    const [meld] = ScoreManager.getScoreBreakdown(player).melds;
+
+    expect(meld.cards.map(item => item.represents)).toEqual([
+      undefined,
+      { rank: '5', suit: 'hearts' },
+      { rank: '6', suit: 'hearts' }
+    ]);
+    expect(meld.value).toBe(15);
+  });
+
+  it('values the melded jokers of a finished round as the cards they stand in for (Rul-007A)', async () => {
+    const game = arrangeGame({
+      hands: [[card('4h'), joker('Jd'), joker('Js'), card('9c')], cards('3s', 'Ah', 'Kd')],
+      jokerValue: 'J',
+      deck: cards('2c', '3c')
+    });
+    const player = game.getCurrentPlayer();
+    await game.applyCommand(player.id, { type: 'draw', fromDiscard: false });
+    await game.applyCommand(player.id, { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+    await game.applyCommand(player.id, { type: 'discard', cardId: handIds(game, '9c')[0] });
+
+    const breakdown = ScoreManager.getScoreBreakdown(player);
+    const [winnerScore] = ScoreManager.calculateRoundScores(game, game.getWinner()).scores;
+
+    expect(game.getGameOverReason()).toBe('memukul');
+    expect(breakdown.melds[0].cards.map(item => item.value)).toEqual([5, 5, 5]);
+    expect(breakdown.totalMeldValue).toBe(15);
+    // The jokers are in the meld, not the hand, so there is no joker penalty
+    expect(breakdown.totalHandValue).toBe(DEFAULT_RULE_SET.cardValues['2']);
+    expect(winnerScore.handScore).toBe(DEFAULT_RULE_SET.cardValues['2']);
+    // Melded cards are not part of the round score, jokers included
+    expect(winnerScore.totalScore).toBe(
+      DEFAULT_RULE_SET.cardValues['2'] + DEFAULT_RULE_SET.meldBonus + ScoreManager.calculateWinningScore(card('2c'))
+    );
+  });
+});
+
+describe('ScoreManager.calculateWinningScore', () => {
+  it('pays by the last card (Rul-005)', () => {
+    expect(ScoreManager.calculateWinningScore(card('Ah'))).toBe(150);
+    expect(ScoreManager.calculateWinningScore(card('7h'))).toBe(50);
+    expect(ScoreManager.calculateWinningScore(card('Qh'))).toBe(100);
+    expect(ScoreManager.calculateWinningScore(joker('Jd'))).toBe(250);
+  });
+});
+
+describe('ScoreManager.calculateMeldBonus', () => {
+  it('adds the bonus per meld and the extra for four cards', () => {
+    const melds = [
+      new Meld('set', cards('7h', '7d', '7c'), 'p1', 'm1'),
+      new Meld('set', cards('Kh', 'Kd', 'Kc', 'Ks'), 'p1', 'm2')
+    ];
+    expect(ScoreManager.calculateMeldBonus(melds)).toBe(10 + 10 + 5);
+    expect(ScoreManager.calculateMeldBonus(melds, CLASSIC_RUMMY_RULES)).toBe(0);
+  });
+});
+
+describe('ScoreManager.calculateRoundScores', () => {
+  it('scores the winner and grants the joker to the highest total', async () => {
+    const game = arrangeGame({
+      hands: [[card('4h'), joker('Jd'), joker('Js'), card('9c')], cards('3s', 'Ah', 'Kd')],
+      jokerValue: 'J'
+    });
+    const [winner, other] = game.getPlayers();
+
+    await game.applyCommand(winner.id, { type: 'draw', fromDiscard: false });
+    await game.applyCommand(winner.id, { type: 'meld', cardIds: handIds(game, '4h', 'Jd', 'Js') });
+    await game.applyCommand(winner.id, { type: 'discard', cardId: handIds(game, '9c')[0] });
+
+    const lastCard = winner.getHand()[0];
+    const { scores, jokerGrant } = ScoreManager.calculateRoundScores(game, game.getWinner());
+
+    expect(scores[0]).toEqual({
+      playerId: winner.id,
+      handScore: DEFAULT_RULE_SET.cardValues[lastCard.rank],
+      meldBonus: DEFAULT_RULE_SET.meldBonus,
+      totalScore: DEFAULT_RULE_SET.cardValues[lastCard.rank] + DEFAULT_RULE_SET.meldBonus + lastCard.getWinningValue(),
+      isWinner: true,
+      winningCard: lastCard
+    });
+    expect(scores[1]).toMatchObject({ playerId: other.id, handScore: 5 + 15 + 10, meldBonus: 0, isWinner: false });
+    expect(jokerGrant).toBe(winner.id);
+  });
+});
@@ -0,0 +1,67 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { BotLevel, createBot, runBotTurn } from '../BotPlayer';
+import { Meld } from '../Card';
+import { Game } from '../Game';
+import { GameValidator, ValidationResult } from '../GameValidator';
+import { createRandom } from '../Random';
+import { MAX_PLAYERS, MIN_PLAYERS, RULE_SET_PRESETS, getRequiredDecks } from '../RuleSet';
+import { arrangeGame, cards, playerIds } from './fixtures';
+
+// Every card of the table's decks but the joker reference card is always in
+// a hand, a meld, the meld area, the deck or the discard pile: 51 with one
+// deck, 103 with two. Bots play random games and the count is checked after
+// every command, and again after a getData/fromData round trip.
+
+const MAX_TURNS = 60;
+
+const arbitraryTable = fc.record({
+  seed: fc.integer({ min: 0, max: 0x7fffffff }),
+  bots: fc.array(fc.constantFrom<BotLevel>('random', 'greedy'), { minLength: MIN_PLAYERS, maxLength: MAX_PLAYERS }),
+  rules: fc.constantFrom(...RULE_SET_PRESETS)
+});
+
+describe('card conservation', () => {
+  it('keeps every card accounted for through a game', async () => {
+    await fc.assert(fc.asyncProperty(arbitraryTable, async ({ seed, bots, rules }) => {
+      const ids = playerIds(bots.length);
+      const expected = 52 * getRequiredDecks(rules, bots.length) - 1;
+      let game = new Game(ids, ids, seed, {}, rules);
+      game.start();
+      expect(game.getTotalCardsInPlay()).toBe(expected);
+
+      const players = bots.map(createBot);
+      const random = createRandom(seed);
+      for (let turn = 0; turn < MAX_TURNS && game.isPlaying(); turn++) {
+        const seat = game.getCurrentPlayerIndex();
+        await runBotTurn(players[seat], () => game.getViewFor(ids[seat]), async (command): Promise<ValidationResult> => {
+          const validation = GameValidator.validateCommand(game, ids[seat], command);
+          if (!validation.valid) return validation;
+
+          await game.applyCommand(ids[seat], command);
+          expect(game.getTotalCardsInPlay()).toBe(expected);
+          return validation;
+        }, random);
+
+        game = Game.fromData(game.getData());
+        expect(game.getTotalCardsInPlay()).toBe(expected);
+      }
+    }), { numRuns: 40 });
+  });
+
+  it('counts the cards waiting in the meld area (GMM-002A)', async () => {
+    const data = arrangeGame({
+      hands: [cards('2h', '5c', '9d'), cards('3s', '8h', 'Kd')],
+      discardPile: cards('7h', '7d', '7c')
+    }).getData();
+    data.players[0].hasLaidRun = true;
+    data.players[0].melds = [new Meld('run', cards('Ah', 'Ad', 'Ac', 'As'), 'p1', 'meld-1')];
+    const game = Game.fromData(data);
+    const total = game.getTotalCardsInPlay();
+
+    await game.applyCommand('p1', { type: 'draw', fromDiscard: true, count: 3 });
+
+    expect(game.getCurrentPlayer().getStagedCards()).toHaveLength(2);
+    expect(game.getTotalCardsInPlay()).toBe(total);
+  });
+});
@@ -0,0 +1,80 @@
+import { Card, Rank, Suit } from '../Card';
+import { Game, GameData } from '../Game';
+import { DEFAULT_RULE_SET, RuleSet } from '../RuleSet';
+
+// Shared builders for the engine tests. Cards are written as short codes:
+// '4h' is the 4 of hearts, '10s' the 10 of spades, 'Qd', 'Ac', ...
+
+const SUIT_CODES: Record<string, Suit> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' };
+
+const parseCode = (code: string): { rank: Rank; suit: Suit } => {
+  const suit = SUIT_CODES[code.slice(-1)];
+  const rank = code.slice(0, -1) as Rank;
+  if (!suit || !rank) throw new Error(`Bad card code "${code}"`);
+  return { rank, suit };
+};
+
+export const card = (code: string): Card => {
+  const { rank, suit } = parseCode(code);
+  return new Card(suit, rank);
+};
+
+export const cards = (...codes: string[]): Card[] => codes.map(card);
+
+// A joker as the deal creates it: a twin of the reference card's rank
+export const joker = (code: string): Card => {
+  const { rank, suit } = parseCode(code);
+  return new Card(suit, rank, true, `${suit}-${rank}-joker`);
+};
+
+export const playerIds = (count: number): string[] => {
+  return Array.from({ length: count }, (_, index) => `p${index + 1}`);
+};
+
+// A dealt game with a fixed seed
+export const startGame = (playerCount: number = 3, seed: number = 1, rules: RuleSet = DEFAULT_RULE_SET): Game => {
+  const ids = playerIds(playerCount);
+  const game = new Game(ids, ids, seed, {}, rules);
+  game.start();
+  return game;
+};
+
+export interface ArrangedGame {
+  hands: Card[][]; // One hand per seat; seat 1 is to play
+  jokerValue?: string;
+  discardPile?: Card[];
+  deck?: Card[];
+  openingDiscarded?: boolean; // false: seat 1 still holds the opening extra card
+  rules?: RuleSet;
+}
+
+// A game in the draw phase of seat 1 with the given hands. Everything not
+// listed stays as dealt, so only the arranged cards should be asserted on.
+export const arrangeGame = (arranged: ArrangedGame): Game => {
+  const data = startGame(arranged.hands.length, 1, arranged.rules).getData();
+  const changes: Partial<GameData> = {
+    players: data.players.map((player, index) => ({ ...player, hand: arranged.hands[index] })),
+    activeJokerValue: arranged.jokerValue,
+    discardPile: arranged.discardPile ?? [],
+    currentPlayerIndex: 0,
+    currentTurn: { playerIndex: 0, startTime: data.currentTurn.startTime, actions: [] },
+    currentTurnPhase: 'drawPhase',
+    firstPlayerDiscarded: arranged.openingDiscarded ?? true,
+    lastDrawFromDiscard: false,
+    pendingMeldCardIds: []
+  };
+  if (arranged.deck) changes.deck = arranged.deck;
+
+  return Game.fromData({ ...data, ...changes });
+};
+
+// Ids of cards the current player can play, looked up by code
+export const handIds = (game: Game, ...codes: string[]): string[] => {
+  const playable = game.getCurrentPlayer().getMeldableCards();
+  return codes.map(code => {
+    const { rank, suit } = parseCode(code);
+    const found = playable.find(item => item.rank === rank && item.suit === suit);
+    if (!found) throw new Error(`${code} is not in the hand of ${game.getCurrentPlayer().id}`);
+    return found.id;
+  });
+};
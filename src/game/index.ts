@@ -1,10 +1,30 @@
 // Export all game classes
 export { Card, Deck, DiscardPile, Meld } from './Card';
 export { Player, PlayerData } from './Player';
-export { Game, GameData, GameStatus, GameOverReason } from './Game';
+export { Game, GAME_SCHEMA_VERSION, GameData, GameStatus, GameOverReason } from './Game';
+export { GameDataError, migrateGameData, parseGameData } from './GameSchema';
+export { Match, DEFAULT_MATCH_SETTINGS, getMatchRules } from './Match';
 export { TurnManager, TurnData, TurnAction } from './TurnManager';
 export { ScoreManager, RoundScore, GameScore } from './ScoreManager';
 export { GameValidator, ValidationResult } from './GameValidator';
+export { createRandom, generateSeed, randomInt } from './Random';
+export { isGameCommand, normalizeCommand } from './GameCommand';
+export { AutoPlayBot, BOT_LEVELS, GreedyBot, RandomBot, createBot, runBotTurn } from './BotPlayer';
+export { MonteCarloBot } from './MonteCarloBot';
+export { runSimulation, simulateGame, simulationStatsToCsv, summarizeSimulation } from './Simulation';
+export { CLASSIC_RUMMY_RULES, DEFAULT_RULE_SET, GIN_RUMMY_RULES, MAX_PLAYERS, MIN_PLAYERS, REMI_RENJANA_RULES, RULE_SET_PRESETS, describeRuleSet, getRequiredDecks, getRuleSet } from './RuleSet';
+export { applyAction, calculateHandScore, calculateRoundScores, calculateWinningScore, getView, initializeGame, isGameOver, validateAction } from './Engine';
 
 // Export types
-export type { Suit, Rank, MeldType } from './Card';
\ No newline at end of file
+export type { Suit, Rank, MeldType } from './Card';
+export type { RandomSource } from './Random';
+export type { GameCommand, GameCommandType } from './GameCommand';
+export type { GameEvent, GameEventType, GameStartEvent, GameCommandEvent } from './GameEvent';
+export type { RoundSetup } from './Game';
+export type { BotContext, BotLevel, BotPlayer, DrawChoice, LayOff } from './BotPlayer';
+export type { SimulatedGame, SimulationOptions, SimulationStats } from './Simulation';
+export type { MatchData, MatchRound, MatchSettings, MatchStatus, MatchView } from './Match';
+export type { RuleSet } from './RuleSet';
+export type { GameState } from './Engine';
+export type { TurnManagerData } from './TurnManager';
+export type { MeldCardScore } from './ScoreManager';
\ No newline at end of file
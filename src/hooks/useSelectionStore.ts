@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Cards the player has selected in their hand. Kept in localStorage, so a
+// player who reloads or closes the tab finds them still selected when they
+// come back to the game. Only the game played last is remembered.
+interface SelectionState {
+  selection: { gameId: string; cardIds: string[] } | null;
+  setSelection: (gameId: string, cardIds: string[]) => void;
+  clearSelection: () => void;
+}
+
+export const useSelectionStore = create<SelectionState>()(
+  persist(
+    (set) => ({
+      selection: null,
+
+      setSelection: (gameId: string, cardIds: string[]) => {
+        set({ selection: { gameId, cardIds } });
+      },
+
+      clearSelection: () => {
+        set({ selection: null });
+      },
+    }),
+    { name: 'rummy-lite-selection' }
+  )
+);
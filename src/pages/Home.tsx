@@ -1,7 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../hooks/useAuthStore';
-import { createRoom, joinRoom } from '../services/firebase';
+import { createRoom, joinRoom, subscribeToActiveRooms } from '../services/firebase';
+
+interface ActiveRoom {
+  id: string;
+  status: string;
+  gameStarted: boolean;
+  players: { id: string; displayName: string }[];
+  maxPlayers: number;
+}
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
@@ -9,6 +17,17 @@ const Home: React.FC = () => {
   const [roomCode, setRoomCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [activeRooms, setActiveRooms] = useState<ActiveRoom[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToActiveRooms(user.uid, setActiveRooms);
+  }, [user]);
+
+  // Back into the lobby, or straight to the table of a game in progress
+  const handleResume = (room: ActiveRoom) => {
+    navigate(room.gameStarted ? `/game/${room.id}` : `/room/${room.id}`);
+  };
 
   const handleCreateRoom = async () => {
     if (!user) return;
@@ -35,8 +54,10 @@ const Home: React.FC = () => {
     setError('');
 
     try {
-      await joinRoom(roomCode.trim().toUpperCase(), user.uid, user.displayName || 'Player');
-      navigate(`/room/${roomCode.trim().toUpperCase()}`);
+      const code = roomCode.trim().toUpperCase();
+      const room = await joinRoom(code, user.uid, user.displayName || 'Player');
+      // A player with a seat in a game in progress goes back to the table
+      navigate(room.gameStarted ? `/game/${code}` : `/room/${code}`);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -44,6 +65,12 @@ const Home: React.FC = () => {
     }
   };
 
+  // Watch the table of a room without taking a seat
+  const handleWatchRoom = () => {
+    if (!roomCode.trim()) return;
+    navigate(`/watch/${roomCode.trim().toUpperCase()}`);
+  };
+
   const handleLogout = async () => {
     await logout();
   };
@@ -80,6 +107,29 @@ const Home: React.FC = () => {
             </p>
           </div>
 
+          {/* Active Games */}
+          {activeRooms.length > 0 && (
+            <div className="bg-white border border-black rounded-lg p-6 space-y-3">
+              <h3 className="text-lg font-semibold text-black">Game Aktif</h3>
+              {activeRooms.map(room => (
+                <div key={room.id} className="flex items-center justify-between p-3 border border-gray-300 rounded-lg">
+                  <div>
+                    <div className="font-mono font-medium text-black">{room.id}</div>
+                    <div className="text-sm text-gray-600">
+                      {room.gameStarted ? 'Sedang bermain' : 'Menunggu di lobby'} • {room.players.length}/{room.maxPlayers} pemain
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleResume(room)}
+                    className="px-4 py-2 bg-black text-white text-sm rounded-lg hover:bg-gray-800 transition-colors"
+                  >
+                    {room.gameStarted ? 'Lanjutkan' : 'Masuk'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="bg-white border border-black rounded-lg p-8 space-y-6">
             {error && (
               <div className="bg-black text-white px-4 py-3 rounded-lg text-sm">
@@ -124,6 +174,14 @@ const Home: React.FC = () => {
                 >
                   {loading ? 'Menggabungkan...' : 'Gabung ke Room'}
                 </button>
+                <button
+                  type="button"
+                  onClick={handleWatchRoom}
+                  disabled={loading || !roomCode.trim()}
+                  className="w-full py-3 px-4 bg-white text-black font-medium border border-black rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50 transition-colors"
+                >
+                  Tonton Room
+                </button>
               </form>
             </div>
           </div>
@@ -133,7 +191,7 @@ const Home: React.FC = () => {
             <div className="bg-white border border-black rounded-lg p-4 text-center">
               <div className="text-2xl mb-2">🎮</div>
               <h3 className="text-black font-semibold mb-1">Real-time Multiplayer</h3>
-              <p className="text-gray-600 text-sm">Mainkan dengan 2-4 pemain secara bersamaan</p>
+              <p className="text-gray-600 text-sm">Mainkan dengan 2-6 pemain secara bersamaan</p>
             </div>
             <div className="bg-white border border-black rounded-lg p-4 text-center">
               <div className="text-2xl mb-2">🃏</div>
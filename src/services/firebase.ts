@@ -1,6 +1,8 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider, signInWithPopup, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, User } from 'firebase/auth';
-import { getFirestore, collection, doc, setDoc, getDoc, updateDoc, onSnapshot, serverTimestamp } from 'firebase/firestore';
+import { getFirestore, arrayRemove, arrayUnion, collection, doc, onSnapshot, query, runTransaction, serverTimestamp, updateDoc, where } from 'firebase/firestore';
+import { BOT_LEVELS, BotLevel } from '../game/BotPlayer';
+import { MAX_PLAYERS, MIN_PLAYERS } from '../game/RuleSet';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -39,49 +41,172 @@ export const logoutUser = async (): Promise<void> => {
   await signOut(auth);
 };
 
-// Firestore functions for game rooms
-export const createRoom = async (roomCode: string, hostId: string, hostName: string) => {
+// Firestore functions for game rooms. Every change runs in a transaction on
+// the room as it is stored, so two changes at once never overwrite each other.
+
+// The seats of a room. `playerIds` mirrors the seat ids so a player's rooms
+// can be queried (and matched by the security rules).
+const seatFields = (players: any[]) => ({
+  players,
+  playerIds: players.map(player => player.id)
+});
+
+export const createRoom = async (roomCode: string, hostId: string, hostName: string, maxPlayers: number = 4) => {
   const roomRef = doc(db, 'rooms', roomCode);
-  await setDoc(roomRef, {
-    id: roomCode,
-    hostId,
-    createdAt: serverTimestamp(),
-    status: 'lobby',
-    players: [{
-      id: hostId,
-      displayName: hostName,
-      ready: false,
-      connected: true
-    }],
-    maxPlayers: 4,
-    gameStarted: false
+  await runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
+    if (roomSnap.exists()) {
+      throw new Error('Room already exists');
+    }
+
+    transaction.set(roomRef, {
+      id: roomCode,
+      hostId,
+      createdAt: serverTimestamp(),
+      status: 'lobby',
+      ...seatFields([{
+        id: hostId,
+        displayName: hostName,
+        ready: false,
+        connected: true
+      }]),
+      maxPlayers,
+      gameStarted: false
+    });
   });
   return roomCode;
 };
 
+// Joining again with a seat already taken leaves the room as it is, so a
+// player can come back to a game in progress; new players only join a lobby
 export const joinRoom = async (roomCode: string, playerId: string, playerName: string) => {
   const roomRef = doc(db, 'rooms', roomCode);
-  const roomSnap = await getDoc(roomRef);
+  return runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
 
-  if (!roomSnap.exists()) {
-    throw new Error('Room not found');
-  }
+    if (!roomSnap.exists()) {
+      throw new Error('Room not found');
+    }
 
-  const roomData = roomSnap.data();
-  if (roomData.players.length >= roomData.maxPlayers) {
-    throw new Error('Room is full');
-  }
+    const roomData = roomSnap.data();
+    if (roomData.players.some((player: any) => player.id === playerId)) {
+      return roomData;
+    }
+    if (roomData.gameStarted) {
+      throw new Error('Game already started');
+    }
+    if (roomData.players.length >= roomData.maxPlayers) {
+      throw new Error('Room is full');
+    }
 
-  await updateDoc(roomRef, {
-    players: [...roomData.players, {
+    transaction.update(roomRef, seatFields([...roomData.players, {
       id: playerId,
       displayName: playerName,
       ready: false,
       connected: true
-    }]
+    }]));
+
+    return roomData;
+  });
+};
+
+// Fill an open seat with a bot (played by the game server). Only the host
+// adds and removes bots, and only in the lobby: `botIds` lists the seats the
+// host filled, and the security rules let no one else change it.
+export const addBotToRoom = async (roomCode: string, level: BotLevel) => {
+  const roomRef = doc(db, 'rooms', roomCode);
+  await runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
+
+    if (!roomSnap.exists()) {
+      throw new Error('Room not found');
+    }
+
+    const roomData = roomSnap.data();
+    if (roomData.hostId !== auth.currentUser?.uid) {
+      throw new Error('Only the host can add bots');
+    }
+    if (roomData.gameStarted) {
+      throw new Error('Game already started');
+    }
+    if (roomData.players.length >= roomData.maxPlayers) {
+      throw new Error('Room is full');
+    }
+
+    const label = BOT_LEVELS.find(bot => bot.level === level)?.label ?? 'Bot';
+    const botCount = roomData.players.filter((player: any) => player.bot).length;
+    const botId = `bot-${Math.random().toString(36).substring(2, 9)}`;
+
+    transaction.update(roomRef, {
+      ...seatFields([...roomData.players, {
+        id: botId,
+        displayName: `${label} ${botCount + 1}`,
+        ready: true,
+        connected: true,
+        bot: level
+      }]),
+      botIds: [...(roomData.botIds ?? []), botId]
+    });
+  });
+};
+
+export const removeBotFromRoom = async (roomCode: string, botId: string) => {
+  const roomRef = doc(db, 'rooms', roomCode);
+  await runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
+
+    if (!roomSnap.exists()) return;
+
+    const roomData = roomSnap.data();
+    if (roomData.hostId !== auth.currentUser?.uid) {
+      throw new Error('Only the host can remove bots');
+    }
+    if (roomData.gameStarted) {
+      throw new Error('Game already started');
+    }
+
+    transaction.update(roomRef, {
+      ...seatFields(roomData.players.filter((player: any) => !(player.bot && player.id === botId))),
+      botIds: (roomData.botIds ?? []).filter((id: string) => id !== botId)
+    });
   });
+};
+
+// Watch a room without a seat. Spectators are only listed by id, so the
+// security rules can check that a user adds or removes no one but
+// themselves. A spectator may not read the room before joining, so the id
+// is added with arrayUnion instead of a transaction.
+export const watchRoom = async (roomCode: string, spectatorId: string) => {
+  const roomRef = doc(db, 'rooms', roomCode);
+  try {
+    await updateDoc(roomRef, { spectatorIds: arrayUnion(spectatorId) });
+  } catch (err: any) {
+    throw err?.code === 'not-found' ? new Error('Room not found') : err;
+  }
+};
+
+export const leaveWatch = async (roomCode: string, spectatorId: string) => {
+  const roomRef = doc(db, 'rooms', roomCode);
+  await updateDoc(roomRef, { spectatorIds: arrayRemove(spectatorId) });
+};
+
+// Change the number of seats; never below the players already seated
+export const updateRoomSeats = async (roomCode: string, maxPlayers: number) => {
+  const roomRef = doc(db, 'rooms', roomCode);
+  await runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
 
-  return roomData;
+    if (!roomSnap.exists()) {
+      throw new Error('Room not found');
+    }
+
+    const roomData = roomSnap.data();
+    if (maxPlayers < MIN_PLAYERS || maxPlayers > MAX_PLAYERS || maxPlayers < roomData.players.length) {
+      throw new Error('Invalid seat count');
+    }
+
+    transaction.update(roomRef, { maxPlayers });
+  });
 };
 
 export const subscribeToRoom = (roomCode: string, callback: (roomData: any) => void) => {
@@ -93,18 +218,33 @@ export const subscribeToRoom = (roomCode: string, callback: (roomData: any) => v
   });
 };
 
+// Rooms the player has a seat in that are not finished yet, newest first,
+// so they can get back into a lobby or a game in progress
+export const subscribeToActiveRooms = (playerId: string, callback: (rooms: any[]) => void) => {
+  const roomsQuery = query(collection(db, 'rooms'), where('playerIds', 'array-contains', playerId));
+  return onSnapshot(roomsQuery, (snapshot) => {
+    const rooms = snapshot.docs
+      .map(roomDoc => roomDoc.data())
+      .filter(room => room.status !== 'finished')
+      .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0));
+    callback(rooms);
+  });
+};
+
 export const updatePlayerReady = async (roomCode: string, playerId: string, ready: boolean) => {
   const roomRef = doc(db, 'rooms', roomCode);
-  const roomSnap = await getDoc(roomRef);
+  await runTransaction(db, async transaction => {
+    const roomSnap = await transaction.get(roomRef);
 
-  if (!roomSnap.exists()) return;
+    if (!roomSnap.exists()) return;
 
-  const roomData = roomSnap.data();
-  const updatedPlayers = roomData.players.map((player: any) =>
-    player.id === playerId ? { ...player, ready } : player
-  );
+    const roomData = roomSnap.data();
+    const updatedPlayers = roomData.players.map((player: any) =>
+      player.id === playerId ? { ...player, ready } : player
+    );
 
-  await updateDoc(roomRef, { players: updatedPlayers });
+    transaction.update(roomRef, { players: updatedPlayers });
+  });
 };
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { auth } from './firebase';
+import { GameCommand } from '../game/GameCommand';
+import { GameEvent } from '../game/GameEvent';
+import { GameView, hydrateGameView } from '../game/GameView';
+import { MatchSettings } from '../game/Match';
+
+// Client for the authoritative game server (see server/index.ts)
+const GAME_SERVER_URL = import.meta.env.VITE_GAME_SERVER_URL || 'http://localhost:8787';
+
+// Must stay well below the server's PRESENCE_TIMEOUT_MS
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+const getIdToken = async (): Promise<string> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Not signed in');
+  }
+  return user.getIdToken();
+};
+
+const request = async (path: string, init: RequestInit = {}): Promise<any> => {
+  const token = await getIdToken();
+  const response = await fetch(`${GAME_SERVER_URL}${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Game server error (${response.status})`);
+  }
+  return body;
+};
+
+// Ask the server to start a match for a room, or deal the next round of the
+// current one (settings only apply to a new match)
+export const startGame = async (roomCode: string, settings?: MatchSettings): Promise<void> => {
+  await request(`/rooms/${encodeURIComponent(roomCode)}/start`, {
+    method: 'POST',
+    body: JSON.stringify(settings ?? {})
+  });
+};
+
+// Send an intent command; the server validates and applies it
+export const sendCommand = async (roomCode: string, command: GameCommand): Promise<void> => {
+  await request(`/rooms/${encodeURIComponent(roomCode)}/commands`, {
+    method: 'POST',
+    body: JSON.stringify(command)
+  });
+};
+
+// Fetch the event log of a finished game for the replay viewer
+export const fetchGameEvents = async (gameId: string): Promise<GameEvent[]> => {
+  return request(`/games/${encodeURIComponent(gameId)}/events`);
+};
+
+// Keep telling the server the signed-in player is in the room. A player who
+// misses beats for a while is shown offline and, in a game, their turn is
+// played for them. Returns a function that stops the beats.
+export const startHeartbeat = (roomCode: string): (() => void) => {
+  const beat = () => {
+    request(`/rooms/${encodeURIComponent(roomCode)}/presence`, { method: 'POST' })
+      .catch(err => console.warn('Heartbeat failed:', err));
+  };
+
+  beat();
+  const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(interval);
+};
+
+// Subscribe to the signed-in player's redacted view
+export const subscribeToGame = (
+  roomCode: string,
+  callback: (view: GameView) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  let source: EventSource | null = null;
+  let closed = false;
+  let latest: GameView | undefined;
+
+  getIdToken()
+    .then(token => {
+      if (closed) return;
+      const url = `${GAME_SERVER_URL}/rooms/${encodeURIComponent(roomCode)}/events?token=${encodeURIComponent(token)}`;
+      source = new EventSource(url);
+      source.addEventListener('state', event => {
+        const view = hydrateGameView(JSON.parse((event as MessageEvent).data));
+        // A push that arrives after a newer one of the same game is dropped
+        if (latest && latest.id === view.id && latest.stateVersion > view.stateVersion) return;
+        latest = view;
+        callback(view);
+      });
+      source.onerror = () => {
+        onError?.(new Error('Koneksi ke game server terputus'));
+      };
+    })
+    .catch(err => onError?.(err));
+
+  return () => {
+    closed = true;
+    source?.close();
+  };
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -7,5 +8,9 @@ export default defineConfig({
   server: {
     host: true,
     port: 3000
+  },
+  test: {
+    include: ['src/**/__tests__/**/*.test.ts', 'server/**/__tests__/**/*.test.ts'],
+    environment: 'node'
   }
-})
\ No newline at end of file
+})